@@ -1,5 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
-import parseLLMJson from '@/utils/jsonParser'
+import {
+  invokeAgent,
+  openAgentStream,
+  parseAgentResponse,
+  type AttemptRecord,
+} from '@/utils/providers'
+import { agentProviderOverrides } from '@/utils/agentRegistry'
+import { findRegisteredAgent } from '@/utils/configStore'
 
 /**
  * POST /api/agent
@@ -9,6 +16,17 @@ import parseLLMJson from '@/utils/jsonParser'
  * - API keys stored server-side only (never exposed to client)
  * - Environment variable based configuration
  *
+ * PROVIDERS:
+ * The upstream is chosen per agent_id (see src/utils/providers): Lyzr by
+ * default, an OpenAI-compatible server, or deterministic local fixtures.
+ * Agents registered on the settings page use the provider and timeout set there.
+ *
+ * RESILIENCE:
+ * Every upstream call gets a per-agent timeout, exponential backoff with
+ * jitter on 408/429/5xx (honouring Retry-After) and a circuit breaker that
+ * fails fast with 503 while the upstream is unhealthy. Responses carry an
+ * `attempts` list with the status and duration of each try.
+ *
  * PARSING STRATEGIES (Applied in order):
  * 1. Preprocessing: Removes \n, \r, \t escapes and code block markers
  * 2. Direct parse: Fast JSON.parse for well-formed JSON
@@ -38,29 +56,31 @@ import parseLLMJson from '@/utils/jsonParser'
  * ✅ {response: "stringified json"}
  * ✅ Plain text without JSON
  *
- * @returns {success, response, raw_response, agent_id, user_id, session_id, timestamp}
+ * SAMPLING:
+ * Send `temperature` (0-2) to vary the reply. OpenAI-compatible providers
+ * pass it upstream; Lyzr and fixture agents ignore it.
+ *
+ * STREAMING MODE:
+ * Send `stream: true` in the body or an `Accept: text/event-stream` header to
+ * receive Server-Sent Events instead of a single JSON reply:
+ * - `event: token` -> {content} for every chunk relayed from the agent
+ * - `event: done`  -> the same object the JSON mode returns, parsed as above
+ * - `event: error` -> {success: false, error, details}
+ *
+ * DEBUGGING:
+ * Send `debug: true` to get `debug.parse_report`: the strategy that produced
+ * `response`, the clean-up steps and parser repairs applied, and the
+ * candidates that were rejected and why.
+ *
+ * @returns {success, response, raw_response, agent_id, user_id, session_id, timestamp, attempts, debug?}
  */
-
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
-
-// API key from environment variable only - NO hardcoded fallback!
-const LYZR_API_KEY = process.env.LYZR_API_KEY
-
 export async function POST(request: NextRequest) {
   try {
-    // Check API key is configured
-    if (!LYZR_API_KEY) {
-      return NextResponse.json(
-        {
-          success: false,
-          error: 'LYZR_API_KEY not configured in .env.local',
-        },
-        { status: 500 }
-      )
-    }
-
     const body = await request.json()
-    const { message, agent_id, user_id, session_id } = body
+    const { message, agent_id, user_id, session_id, stream, debug, temperature } = body
+    const wantsStream =
+      stream === true ||
+      (request.headers.get('accept') || '').includes('text/event-stream')
 
     // Validate required fields
     if (!message || !agent_id) {
@@ -73,117 +93,64 @@ export async function POST(request: NextRequest) {
       )
     }
 
-    // Call Lyzr API with server-side API key (secure!)
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
-      },
-      body: JSON.stringify({
-        user_id: user_id || `user-${Date.now()}`,
-        agent_id,
-        session_id: session_id || `session-${Date.now()}`,
-        message,
-      }),
-    })
-
-    if (response.ok) {
-      const data = await response.json()
-
-      // BULLETPROOF JSON PARSING with multiple strategies
-      let parsedResponse = data.response
-
-      if (typeof data.response === 'string') {
-        try {
-          // STRATEGY 1: Clean up common LLM response issues
-          let cleaned = data.response
-
-          // Remove literal \n, \r, \t escape sequences (not actual newlines!)
-          cleaned = cleaned.replace(/\\n/g, '\n')
-          cleaned = cleaned.replace(/\\r/g, '\r')
-          cleaned = cleaned.replace(/\\t/g, '\t')
-
-          // Remove markdown code blocks (```json, ```, etc.)
-          cleaned = cleaned.replace(/^```(?:json|JSON)?\s*\n?/gm, '')
-          cleaned = cleaned.replace(/\n?```\s*$/gm, '')
-
-          // Trim whitespace
-          cleaned = cleaned.trim()
-
-          // STRATEGY 2: Try direct JSON.parse first (fastest)
-          try {
-            const directParse = JSON.parse(cleaned)
-            if (directParse && typeof directParse === 'object') {
-              parsedResponse = directParse
-              console.log('✅ Direct JSON.parse succeeded')
-            }
-          } catch (directError) {
-            // STRATEGY 3: Use advanced parseLLMJson for complex cases
-            console.log('⚙️ Trying advanced parseLLMJson...')
-            const parsed = parseLLMJson(cleaned, {
-              attemptFix: true,
-              maxBlocks: 5,
-              preferFirst: true,
-              allowPartial: false
-            })
+    if (
+      temperature !== undefined &&
+      (typeof temperature !== 'number' || !(temperature >= 0 && temperature <= 2))
+    ) {
+      return NextResponse.json(
+        { success: false, error: 'temperature must be a number between 0 and 2' },
+        { status: 400 }
+      )
+    }
 
-            if (parsed && typeof parsed === 'object') {
-              parsedResponse = parsed
-              console.log('✅ parseLLMJson succeeded')
-            } else {
-              // STRATEGY 4: Try extracting JSON from anywhere in the string
-              const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/)
-              if (jsonMatch) {
-                try {
-                  const extracted = JSON.parse(jsonMatch[0])
-                  if (extracted && typeof extracted === 'object') {
-                    parsedResponse = extracted
-                    console.log('✅ JSON extraction succeeded')
-                  }
-                } catch (extractError) {
-                  // STRATEGY 5: Last resort - use parseLLMJson on extracted portion
-                  const lastResort = parseLLMJson(jsonMatch[0], { attemptFix: true })
-                  if (lastResort && typeof lastResort === 'object') {
-                    parsedResponse = lastResort
-                    console.log('✅ Last resort parsing succeeded')
-                  } else {
-                    console.log('ℹ️ All parsing strategies failed, keeping original response')
-                  }
-                }
-              } else {
-                console.log('ℹ️ No JSON found in response, keeping as-is')
-              }
-            }
-          }
-        } catch (e) {
-          console.error('Error during JSON parsing:', e)
-          // Keep original response on any error
-        }
-      } else if (typeof data.response === 'object' && data.response !== null) {
-        // Already an object, use as-is
-        parsedResponse = data.response
-        console.log('✅ Response already an object')
+    const agentRequest = {
+      user_id: user_id || `user-${Date.now()}`,
+      agent_id,
+      session_id: session_id || `session-${Date.now()}`,
+      message,
+      temperature,
+    }
+    const registered = agentProviderOverrides(await findRegisteredAgent(agent_id))
+
+    // Call the configured upstream provider with server-side credentials (secure!)
+    if (wantsStream) {
+      const { result, attempts } = await openAgentStream(agentRequest, registered)
+      if (result.ok) {
+        return streamAgentResponse(
+          result.tokens,
+          { agent_id, user_id, session_id, attempts },
+          debug === true
+        )
       }
+      return NextResponse.json(
+        { success: false, error: result.error, details: result.details, attempts },
+        { status: result.status }
+      )
+    }
 
+    const result = await invokeAgent(agentRequest, registered)
+
+    if (result.ok) {
       return NextResponse.json({
         success: true,
-        response: parsedResponse, // ✅ Bulletproof parsed response!
-        raw_response: data.response, // Keep original for debugging
+        response: result.response, // ✅ Bulletproof parsed response!
+        raw_response: result.raw_response, // Keep original for debugging
         agent_id,
         user_id,
         session_id,
         timestamp: new Date().toISOString(),
+        attempts: result.attempts,
+        ...(debug === true ? { debug: { parse_report: result.parse_report } } : {}),
       })
     } else {
-      const errorText = await response.text()
       return NextResponse.json(
         {
           success: false,
-          error: `API returned status ${response.status}`,
-          details: errorText,
+          error: result.error,
+          details: result.details,
+          attempts: result.attempts,
         },
-        { status: response.status }
+        { status: result.status }
       )
     }
   } catch (error) {
@@ -199,6 +166,72 @@ export async function POST(request: NextRequest) {
   }
 }
 
+/**
+ * Relay provider tokens to the client as SSE, then send one final `done`
+ * event carrying the parsed response.
+ */
+function streamAgentResponse(
+  tokens: AsyncIterable<string>,
+  ids: {
+    agent_id: string
+    user_id?: string
+    session_id?: string
+    attempts: AttemptRecord[]
+  },
+  debug: boolean
+) {
+  const encoder = new TextEncoder()
+  const send = (
+    controller: ReadableStreamDefaultController<Uint8Array>,
+    event: string,
+    data: unknown
+  ) => {
+    controller.enqueue(
+      encoder.encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+    )
+  }
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let fullText = ''
+
+      try {
+        for await (const token of tokens) {
+          fullText += token
+          send(controller, 'token', { content: token })
+        }
+
+        const { response, report } = parseAgentResponse(fullText)
+        send(controller, 'done', {
+          success: true,
+          response,
+          raw_response: fullText,
+          ...ids,
+          timestamp: new Date().toISOString(),
+          ...(debug ? { debug: { parse_report: report } } : {}),
+        })
+      } catch (error) {
+        console.error('AI Agent stream error:', error)
+        send(controller, 'error', {
+          success: false,
+          error: 'Stream interrupted',
+          details: error instanceof Error ? error.message : String(error),
+        })
+      } finally {
+        controller.close()
+      }
+    },
+  })
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  })
+}
+
 // OPTIONS for CORS preflight (if needed)
 export async function OPTIONS() {
   return new NextResponse(null, {
@@ -206,7 +239,7 @@ export async function OPTIONS() {
     headers: {
       'Access-Control-Allow-Origin': '*',
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type',
+      'Access-Control-Allow-Headers': 'Content-Type, Accept',
     },
   })
 }
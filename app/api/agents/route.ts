@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getAppConfig, saveAppConfig } from '@/utils/configStore'
+import { parseAppConfig } from '@/utils/agentRegistry'
+
+/**
+ * GET /api/agents
+ * The agent registry: every registered agent and the default agent of each step
+ *
+ * @returns {success, config}
+ */
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, config: await getAppConfig() })
+  } catch (error) {
+    console.error('Agents API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PUT /api/agents
+ * Replace the agent registry
+ *
+ * BODY:
+ * - agents:         [{id, name, role, agent_id, provider?, prompt_template, timeout_ms?}]
+ * - default_agents: {news, personality, draft} registry ids
+ *
+ * Responds 400 with `issues` ({path, message}) when the configuration is invalid.
+ *
+ * @returns {success, config}
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    const parsed = parseAppConfig(body)
+    if (!parsed.success) {
+      return NextResponse.json(
+        { success: false, error: parsed.error, issues: parsed.issues },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, config: await saveAppConfig(parsed.config) })
+  } catch (error) {
+    console.error('Agents API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
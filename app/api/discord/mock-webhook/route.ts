@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { randomUUID } from 'crypto'
+import { createJsonFileStore } from '@/utils/jsonFileStore'
+import { MAX_EMBEDS_PER_MESSAGE, type WebhookPayload } from '@/utils/discordWebhook'
+
+/**
+ * Local stand-in for a Discord webhook
+ *
+ * Accepts the same POST a Discord webhook does, checks the limits Discord
+ * enforces, records the payload under DATA_DIR/webhook-mock and answers with
+ * a Discord-shaped message object. Point DISCORD_WEBHOOK_URL here to test
+ * publishing without network access:
+ *
+ *   DISCORD_WEBHOOK_URL=http://localhost:3333/api/discord/mock-webhook
+ *
+ * GET lists the recorded payloads (oldest first), DELETE clears them.
+ * Disabled in production unless DISCORD_WEBHOOK_MOCK=true.
+ */
+
+interface MockWebhookRecord {
+  id: string
+  received_at: string
+  /** Arrival order within this server process (breaks same-millisecond ties) */
+  sequence: number
+  thread_id: string | null
+  payload: WebhookPayload
+}
+
+const store = createJsonFileStore<MockWebhookRecord>('webhook-mock')
+let sequence = 0
+
+// Discord epoch (2015-01-01) based id, so ids sort like real snowflakes
+function createSnowflake(): string {
+  return String((BigInt(Date.now() - 1420070400000) << BigInt(22)) + BigInt(Math.floor(Math.random() * 4096)))
+}
+
+function isEnabled(): boolean {
+  return process.env.NODE_ENV !== 'production' || process.env.DISCORD_WEBHOOK_MOCK === 'true'
+}
+
+function discordError(code: number, message: string, status = 400) {
+  return NextResponse.json({ code, message }, { status })
+}
+
+export async function POST(request: NextRequest) {
+  if (!isEnabled()) return NextResponse.json({ message: 'Not Found' }, { status: 404 })
+
+  const payload: WebhookPayload | null = await request.json().catch(() => null)
+  if (!payload || typeof payload !== 'object') return discordError(50109, 'The request body contains invalid JSON.')
+
+  const embeds = Array.isArray(payload.embeds) ? payload.embeds : []
+  if (!payload.content && !embeds.length) return discordError(50006, 'Cannot send an empty message')
+  if (typeof payload.content === 'string' && Array.from(payload.content).length > 2000) {
+    return discordError(50035, 'Invalid Form Body: content must be 2000 or fewer in length.')
+  }
+  if (embeds.length > MAX_EMBEDS_PER_MESSAGE) {
+    return discordError(50035, `Invalid Form Body: embeds must be ${MAX_EMBEDS_PER_MESSAGE} or fewer in length.`)
+  }
+
+  const record: MockWebhookRecord = {
+    id: randomUUID(),
+    received_at: new Date().toISOString(),
+    sequence: sequence++,
+    thread_id: request.nextUrl.searchParams.get('thread_id'),
+    payload,
+  }
+  await store.put(record.id, record)
+
+  const message = {
+    id: createSnowflake(),
+    type: 0,
+    channel_id: record.thread_id || '0',
+    content: payload.content || '',
+    embeds,
+    author: { id: '0', username: payload.username || 'Mock Webhook', bot: true },
+    timestamp: record.received_at,
+    webhook_id: '0',
+  }
+
+  // Without ?wait=true Discord answers 204 with no body
+  if (request.nextUrl.searchParams.get('wait') !== 'true') return new NextResponse(null, { status: 204 })
+  return NextResponse.json(message)
+}
+
+export async function GET() {
+  if (!isEnabled()) return NextResponse.json({ message: 'Not Found' }, { status: 404 })
+
+  const records = await store.list()
+  records.sort((a, b) => a.received_at.localeCompare(b.received_at) || a.sequence - b.sequence)
+  return NextResponse.json({ success: true, messages: records })
+}
+
+export async function DELETE() {
+  if (!isEnabled()) return NextResponse.json({ message: 'Not Found' }, { status: 404 })
+
+  const records = await store.list()
+  await Promise.all(records.map((record) => store.remove(record.id)))
+  return NextResponse.json({ success: true, cleared: records.length })
+}
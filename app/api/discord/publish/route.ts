@@ -0,0 +1,153 @@
+import { NextRequest, NextResponse } from 'next/server'
+import {
+  getWebhookUrl,
+  isDiscordWebhookUrl,
+  publishMessages,
+  type DiscordEmbed,
+} from '@/utils/discordWebhook'
+import { isEmbedShape, validateEmbeds } from '@/utils/discordEmbeds'
+import { DISCORD_MESSAGE_LIMIT, splitMessage, validateMessageLength } from '@/utils/messageSplitter'
+
+/**
+ * POST /api/discord/publish
+ * Post an approved draft to the configured Discord webhook
+ *
+ * BODY:
+ * - content:        the draft; split into a numbered series when over 2000
+ *                   characters (webhooks get no Nitro limit)
+ * - messages:       pre-split messages to send as-is (instead of `content`)
+ * - username:       display name override
+ * - avatar_url:     avatar override
+ * - embeds:         up to 10 embeds, attached to the last message
+ * - thread_id:      post into a thread of the webhook's channel
+ * - allow_everyone: let @everyone/@here ping (suppressed by default)
+ * - webhook_url:    another Discord webhook instead of DISCORD_WEBHOOK_URL
+ *                   (must be a discord.com webhook URL)
+ *
+ * @example
+ * ```bash
+ * DISCORD_WEBHOOK_URL=http://localhost:3333/api/discord/mock-webhook npm run dev
+ * curl -X POST localhost:3333/api/discord/publish -H 'Content-Type: application/json' \
+ *   -d '{"content": "Hello **Discord**", "username": "News Bot"}'
+ * ```
+ *
+ * @returns {success, sent: [{index, status, id}], message_ids}
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    const webhookUrl = body.webhook_url || getWebhookUrl()
+    if (!webhookUrl) {
+      return NextResponse.json(
+        { success: false, error: 'DISCORD_WEBHOOK_URL not configured in .env.local' },
+        { status: 500 }
+      )
+    }
+    // Only the configured URL may point somewhere other than Discord
+    if (body.webhook_url && !isDiscordWebhookUrl(body.webhook_url)) {
+      return NextResponse.json(
+        { success: false, error: 'webhook_url must be a Discord webhook URL' },
+        { status: 400 }
+      )
+    }
+
+    const embeds: DiscordEmbed[] = Array.isArray(body.embeds) ? body.embeds : []
+    if (!embeds.every(isEmbedShape)) {
+      return NextResponse.json(
+        { success: false, error: 'embeds must be an array of embed objects' },
+        { status: 400 }
+      )
+    }
+    const embedIssues = validateEmbeds(embeds)
+    if (embedIssues.length) {
+      return NextResponse.json(
+        { success: false, error: 'Embeds exceed Discord limits', details: embedIssues },
+        { status: 400 }
+      )
+    }
+
+    let messages: string[]
+    if (Array.isArray(body.messages)) {
+      if (!body.messages.every((message: unknown) => typeof message === 'string')) {
+        return NextResponse.json(
+          { success: false, error: 'messages must be an array of strings' },
+          { status: 400 }
+        )
+      }
+      messages = body.messages
+    } else if (typeof body.content === 'string') {
+      messages = splitMessage(body.content, { limit: DISCORD_MESSAGE_LIMIT })
+    } else {
+      messages = []
+    }
+
+    if (!messages.some((message) => message.trim()) && !embeds.length) {
+      return NextResponse.json(
+        { success: false, error: 'content, messages or embeds is required' },
+        { status: 400 }
+      )
+    }
+
+    const tooLong = messages.findIndex((message) => !validateMessageLength(message, DISCORD_MESSAGE_LIMIT).ok)
+    if (tooLong !== -1) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Message ${tooLong + 1} is longer than ${DISCORD_MESSAGE_LIMIT} characters`,
+          details: validateMessageLength(messages[tooLong], DISCORD_MESSAGE_LIMIT),
+        },
+        { status: 400 }
+      )
+    }
+
+    const result = await publishMessages(messages, {
+      webhookUrl,
+      username: body.username || undefined,
+      avatarUrl: body.avatar_url || undefined,
+      embeds,
+      threadId: body.thread_id ? String(body.thread_id) : undefined,
+      allowEveryone: body.allow_everyone === true,
+    })
+
+    if (!result.ok) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: result.error,
+          sent: result.sent,
+        },
+        { status: result.status && result.status >= 400 && result.status < 500 ? result.status : 502 }
+      )
+    }
+
+    return NextResponse.json({
+      success: true,
+      sent: result.sent,
+      message_ids: result.sent.map((message) => message.id).filter(Boolean),
+    })
+  } catch (error) {
+    console.error('Discord publish error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/discord/publish
+ * Whether a webhook is configured (the URL itself is never returned)
+ *
+ * @returns {success, configured}
+ */
+export async function GET() {
+  return NextResponse.json({ success: true, configured: Boolean(getWebhookUrl()) })
+}
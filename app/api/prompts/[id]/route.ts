@@ -0,0 +1,97 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { activatePromptVersion, getPromptTemplate } from '@/utils/promptStore'
+import { isPromptTemplateId } from '@/utils/promptTemplates'
+
+/**
+ * GET /api/prompts/:id
+ * One template with all of its versions
+ *
+ * @returns {success, template}
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    if (!isPromptTemplateId(id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Prompt template ${id} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, template: await getPromptTemplate(id) })
+  } catch (error) {
+    console.error('Prompts API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * PATCH /api/prompts/:id
+ * Roll a template back (or forward) to one of its versions
+ *
+ * BODY:
+ * - active_version: the version runs should use from now on
+ *
+ * @returns {success, template}
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    if (!isPromptTemplateId(id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Prompt template ${id} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    const body = await request.json().catch(() => null)
+    if (!Number.isInteger(body?.active_version)) {
+      return NextResponse.json(
+        { success: false, error: 'active_version must be a version number' },
+        { status: 400 }
+      )
+    }
+
+    const template = await activatePromptVersion(id, body.active_version)
+    if (!template) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Prompt template ${id} has no version ${body.active_version}`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, template })
+  } catch (error) {
+    console.error('Prompts API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listPromptTemplates, savePromptVersion } from '@/utils/promptStore'
+import {
+  PROMPT_TEMPLATE_IDS,
+  PROMPT_VARIABLES,
+  isPromptTemplateId,
+  validatePromptTemplate,
+} from '@/utils/promptTemplates'
+
+/**
+ * GET /api/prompts
+ * Every prompt template with its versions and the active one, plus the
+ * variables templates can use
+ *
+ * @returns {success, templates, variables}
+ */
+export async function GET() {
+  try {
+    const templates = await listPromptTemplates()
+    return NextResponse.json({ success: true, templates, variables: Object.values(PROMPT_VARIABLES) })
+  } catch (error) {
+    console.error('Prompts API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * POST /api/prompts
+ * Save a new version of a template; it becomes the active version
+ *
+ * BODY:
+ * - template_id: news, personality, draft or regenerate_draft
+ * - body:        the template, with {{variable}} placeholders
+ * - note:        optional description of the change
+ *
+ * @returns {success, template}
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+    }
+    if (!isPromptTemplateId(body.template_id)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `template_id must be one of: ${PROMPT_TEMPLATE_IDS.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+    if (typeof body.body !== 'string') {
+      return NextResponse.json({ success: false, error: 'body must be a string' }, { status: 400 })
+    }
+
+    const issues = validatePromptTemplate(body.template_id, body.body)
+    if (issues.length) {
+      return NextResponse.json({ success: false, error: issues.join('; ') }, { status: 400 })
+    }
+
+    const template = await savePromptVersion(
+      body.template_id,
+      body.body,
+      typeof body.note === 'string' ? body.note : undefined
+    )
+
+    return NextResponse.json({ success: true, template }, { status: 201 })
+  } catch (error) {
+    console.error('Prompts API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
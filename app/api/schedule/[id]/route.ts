@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cancelScheduledPost, getScheduledPost } from '@/utils/scheduler'
+
+/**
+ * GET /api/schedule/:id
+ * One scheduled post with its status, and the sent message ids once published
+ *
+ * @returns {success, post}
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const post = await getScheduledPost(id)
+
+    if (!post) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Scheduled post ${id} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, post })
+  } catch (error) {
+    console.error('Schedule API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * DELETE /api/schedule/:id
+ * Cancel a post that has not been published yet (the record is kept)
+ *
+ * @returns {success, post}
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const post = await cancelScheduledPost(id)
+
+    if (!post) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Scheduled post ${id} not found or no longer pending`,
+        },
+        { status: 409 }
+      )
+    }
+
+    return NextResponse.json({ success: true, post })
+  } catch (error) {
+    console.error('Schedule API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,166 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { isEmbedShape, validateEmbeds } from '@/utils/discordEmbeds'
+import { DISCORD_MESSAGE_LIMIT, validateMessageLength } from '@/utils/messageSplitter'
+import { listScheduledPosts, schedulePost, type ScheduledChannel } from '@/utils/scheduler'
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string'
+
+function isChannelShape(value: unknown): value is Partial<ScheduledChannel> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const channel = value as Record<string, unknown>
+  return (
+    isOptionalString(channel.label) &&
+    isOptionalString(channel.webhook_url) &&
+    (channel.thread_id === undefined ||
+      (typeof channel.thread_id === 'string' && /^\d+$/.test(channel.thread_id)))
+  )
+}
+
+function isPersonaShape(value: unknown): value is { id: string; name: string } {
+  if (!value || typeof value !== 'object') return false
+  const persona = value as Record<string, unknown>
+  return typeof persona.id === 'string' && typeof persona.name === 'string'
+}
+
+/**
+ * POST /api/schedule
+ * Queue a draft for publishing at a future time
+ *
+ * BODY:
+ * - local_time:     wall-clock time, YYYY-MM-DDTHH:mm
+ * - timezone:       IANA zone the time is in, e.g. "Europe/Berlin"
+ * - messages:       the draft, already split to 2000 characters (webhooks get
+ *                   no Nitro limit)
+ * - embeds:         optional embeds for the last message
+ * - channel:        {label?, thread_id?, webhook_url?}; thread_id is a numeric id
+ * - persona:        {id, name} of the persona the draft was written in, or null
+ * - username, avatar_url, allow_everyone: as for /api/discord/publish
+ *
+ * The dispatcher (src/utils/scheduler.ts) publishes the post when it is due.
+ *
+ * @returns {success, post}
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => null)
+    if (!body || typeof body !== 'object') {
+      return NextResponse.json({ success: false, error: 'Invalid JSON body' }, { status: 400 })
+    }
+
+    const messages: unknown[] = Array.isArray(body.messages) ? body.messages : []
+    if (!messages.every((message) => typeof message === 'string')) {
+      return NextResponse.json(
+        { success: false, error: 'messages must be an array of strings' },
+        { status: 400 }
+      )
+    }
+    const tooLong = messages.some(
+      (message) => !validateMessageLength(message as string, DISCORD_MESSAGE_LIMIT).ok
+    )
+    if (tooLong) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Every message must be ${DISCORD_MESSAGE_LIMIT} characters or fewer`,
+        },
+        { status: 400 }
+      )
+    }
+
+    const channel = body.channel ?? {}
+    if (!isChannelShape(channel)) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'channel must be {label?, thread_id?, webhook_url?} with a numeric thread_id',
+        },
+        { status: 400 }
+      )
+    }
+    const persona = body.persona ?? null
+    if (persona !== null && !isPersonaShape(persona)) {
+      return NextResponse.json(
+        { success: false, error: 'persona must be {id, name} or null' },
+        { status: 400 }
+      )
+    }
+
+    const embeds = Array.isArray(body.embeds) ? body.embeds : []
+    if (!embeds.every(isEmbedShape)) {
+      return NextResponse.json(
+        { success: false, error: 'embeds must be an array of embed objects' },
+        { status: 400 }
+      )
+    }
+    const embedIssues = validateEmbeds(embeds)
+    if (embedIssues.length) {
+      return NextResponse.json(
+        { success: false, error: 'Embeds exceed Discord limits', details: embedIssues },
+        { status: 400 }
+      )
+    }
+
+    let post
+    try {
+      post = await schedulePost({
+        local_time: String(body.local_time || ''),
+        timezone: String(body.timezone || ''),
+        channel: {
+          label: channel.label ?? '',
+          thread_id: channel.thread_id,
+          webhook_url: channel.webhook_url,
+        },
+        persona: persona && { id: persona.id, name: persona.name },
+        messages: messages as string[],
+        embeds,
+        username: body.username || undefined,
+        avatar_url: body.avatar_url || undefined,
+        allow_everyone: body.allow_everyone === true,
+      })
+    } catch (error) {
+      return NextResponse.json(
+        { success: false, error: error instanceof Error ? error.message : String(error) },
+        { status: 400 }
+      )
+    }
+
+    return NextResponse.json({ success: true, post }, { status: 201 })
+  } catch (error) {
+    console.error('Schedule API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/schedule
+ * List scheduled posts, soonest first (`?status=scheduled` to filter)
+ *
+ * @returns {success, posts}
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const status = request.nextUrl.searchParams.get('status')
+    const posts = await listScheduledPosts()
+    return NextResponse.json({
+      success: true,
+      posts: status ? posts.filter((post) => post.status === status) : posts,
+    })
+  } catch (error) {
+    console.error('Schedule API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
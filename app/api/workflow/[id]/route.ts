@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getWorkflowRun } from '@/utils/workflowRuns'
+
+/**
+ * GET /api/workflow/:id
+ * Poll a server-side workflow run
+ *
+ * @returns {success, run} where run.status is running | succeeded | failed
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params
+    const run = await getWorkflowRun(id)
+
+    if (!run) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `Workflow run ${id} not found`,
+        },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({ success: true, run })
+  } catch (error) {
+    console.error('Workflow API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
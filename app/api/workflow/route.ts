@@ -0,0 +1,174 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listWorkflowRuns, runSeedIssues, startWorkflowRun } from '@/utils/workflowRuns'
+import { EXTRA_PLATFORM_IDS, isPlatformId } from '@/utils/platforms'
+import { AGENT_STEP_ROLES, unknownSelections } from '@/utils/agentRegistry'
+import { getAppConfig } from '@/utils/configStore'
+
+/**
+ * POST /api/workflow
+ * Run the news -> personality -> draft pipeline on the server
+ *
+ * Uses the same upstream call as /api/agent (providers, retries, parsing) and
+ * stores the run under a run id with per-step inputs, outputs, raw responses
+ * and timings (see src/utils/workflowRuns.ts).
+ *
+ * BODY (all optional):
+ * - agents:     {news, personality, draft} registered agents to use instead of
+ *               the defaults, by registry id (see /api/agents)
+ * - agent_ids:  {news, personality, draft} upstream agent ids, bypassing the registry
+ * - regenerate: ask the draft agent for a fresh take
+ * - platforms:  extra platforms to draft for besides Discord, e.g. ["x", "slack"]
+ *               (one `draft-<platform>` step each)
+ * - seed:       step outputs to reuse, e.g. {news: {...}, personality: {...}};
+ *               each must be a step id and satisfy that step's schema
+ * - wait:       true to respond only once the run has finished
+ *
+ * By default responds 202 right away; poll GET /api/workflow/:id for progress.
+ *
+ * @example
+ * ```bash
+ * curl -X POST localhost:3333/api/workflow -H 'Content-Type: application/json' -d '{"wait": true}'
+ * ```
+ *
+ * @returns {success, run_id, status, run}
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}))
+    const { agents, agent_ids, regenerate, seed, platforms, wait } = body || {}
+
+    if (agents !== undefined) {
+      const valid =
+        typeof agents === 'object' &&
+        agents !== null &&
+        !Array.isArray(agents) &&
+        Object.entries(agents).every(
+          ([role, id]) => (AGENT_STEP_ROLES as string[]).includes(role) && typeof id === 'string'
+        )
+      const unknown = valid ? unknownSelections(await getAppConfig(), agents) : []
+      if (!valid || unknown.length) {
+        return NextResponse.json(
+          {
+            success: false,
+            error: valid
+              ? `Unknown agents for these steps: ${unknown.join(', ')}`
+              : `agents must map ${AGENT_STEP_ROLES.join(', ')} to registry ids`,
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (
+      agent_ids !== undefined &&
+      (typeof agent_ids !== 'object' ||
+        agent_ids === null ||
+        Array.isArray(agent_ids) ||
+        !Object.entries(agent_ids).every(
+          ([role, id]) =>
+            (AGENT_STEP_ROLES as string[]).includes(role) && typeof id === 'string' && id.trim()
+        ))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `agent_ids must map ${AGENT_STEP_ROLES.join(', ')} to agent id strings`,
+        },
+        { status: 400 }
+      )
+    }
+
+    if (
+      platforms !== undefined &&
+      (!Array.isArray(platforms) ||
+        !platforms.every((id) => isPlatformId(id) && id !== 'discord'))
+    ) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: `platforms must be an array of: ${EXTRA_PLATFORM_IDS.join(', ')}`,
+        },
+        { status: 400 }
+      )
+    }
+
+    if (seed !== undefined && (typeof seed !== 'object' || seed === null || Array.isArray(seed))) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: 'seed must be an object of step outputs keyed by step id',
+        },
+        { status: 400 }
+      )
+    }
+    const seedProblems = seed ? runSeedIssues(seed, platforms) : []
+    if (seedProblems.length) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid seed', details: seedProblems },
+        { status: 400 }
+      )
+    }
+
+    const { record, done } = await startWorkflowRun({
+      agents,
+      agent_ids,
+      regenerate,
+      seed,
+      platforms: platforms ? Array.from(new Set(platforms)) : undefined,
+    })
+
+    if (wait === true) {
+      const run = await done
+      return NextResponse.json({
+        success: run.status === 'succeeded',
+        run_id: run.id,
+        status: run.status,
+        run,
+      })
+    }
+
+    return NextResponse.json(
+      {
+        success: true,
+        run_id: record.id,
+        status: record.status,
+        run: record,
+      },
+      { status: 202 }
+    )
+  } catch (error) {
+    console.error('Workflow API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/workflow
+ * List recent runs, newest first (`?limit=20`)
+ *
+ * @returns {success, runs}
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const limit = Number(request.nextUrl.searchParams.get('limit')) || 20
+    const runs = await listWorkflowRuns(Math.min(Math.max(limit, 1), 100))
+    return NextResponse.json({ success: true, runs })
+  } catch (error) {
+    console.error('Workflow API error:', error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Internal server error',
+        details: error instanceof Error ? error.message : String(error),
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,103 +1,453 @@
 'use client'
 
-import { useState } from 'react'
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
 import { ScrollArea } from '@/components/ui/scroll-area'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
 import { Spinner } from '@/components/ui/spinner'
-import { AlertCircle, Copy, RefreshCw, Save, Zap } from 'lucide-react'
+import { SidebarInset, SidebarProvider, SidebarTrigger } from '@/components/ui/sidebar'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AlertCircle,
+  AlertTriangle,
+  CalendarClock,
+  Copy,
+  FileText,
+  History,
+  ListChecks,
+  Pencil,
+  RefreshCw,
+  Send,
+  Settings,
+  Trash2,
+  Upload,
+  Zap,
+} from 'lucide-react'
+import { streamAIAgent } from '@/utils/aiAgent'
+import {
+  createStreamingJsonParser,
+  type PartialJsonSnapshot,
+} from '@/utils/streamingJsonParser'
+import {
+  createDiscordDraftPipeline,
+  DRAFT_NEWS_LIMIT,
+  type PipelineAgentIds,
+  type PipelinePrompts,
+} from '@/utils/pipelines'
+import {
+  AGENT_ROLES,
+  AGENT_STEP_ROLES,
+  DEFAULT_APP_CONFIG,
+  agentsForStep,
+  resolveAgents,
+  type AgentSelection,
+} from '@/utils/agentRegistry'
+import {
+  PROMPT_TEMPLATES,
+  activePrompts,
+  builtInTemplates,
+  isPromptTemplateId,
+  type PromptTemplateId,
+  type PromptTemplateState,
+  type PromptVersionMap,
+} from '@/utils/promptTemplates'
+import { runWorkflow, type StepRun, type WorkflowStep } from '@/utils/workflow'
+import { deletePersona, listPersonas, personaToResponse, savePersona } from '@/utils/personaStore'
+import {
+  applyNewsCuration,
+  clearExcludedNews,
+  curateNews,
+  excludeNewsItem,
+  listExcludedNews,
+  newsItemKey,
+  pinnedNewsItems,
+  selectedNewsItems,
+  type CuratedNewsItem,
+  type ExcludedNewsItem,
+} from '@/utils/newsCuration'
+import { WorkflowStepper } from '@/components/WorkflowStepper'
+import { PersonaEditor } from '@/components/PersonaEditor'
+import { NewsCurator } from '@/components/NewsCurator'
+import { DraftEditor } from '@/components/DraftEditor'
+import { DraftHistory } from '@/components/DraftHistory'
+import { DraftImport } from '@/components/DraftImport'
+import { ExportMenu } from '@/components/ExportMenu'
+import { DraftVariants, type VariantRequest } from '@/components/DraftVariants'
+import { DiscordMarkdown } from '@/components/DiscordMarkdown'
+import { PublishDialog } from '@/components/PublishDialog'
+import { ScheduleDialog } from '@/components/ScheduleDialog'
+import { RecentRuns } from '@/components/RecentRuns'
+import { PlatformDrafts } from '@/components/PlatformDrafts'
+import {
+  DISCORD_MESSAGE_LIMIT,
+  DISCORD_NITRO_MESSAGE_LIMIT,
+  splitMessage,
+} from '@/utils/messageSplitter'
+import { buildNewsEmbeds } from '@/utils/discordEmbeds'
+import {
+  addDraftVersion,
+  recordDraftEdit,
+  type DraftVersion,
+  type DraftVersionPersona,
+} from '@/utils/draftHistory'
+import {
+  createDraftFile,
+  draftFileCuration,
+  serializeDraftFile,
+  type DraftFile,
+} from '@/utils/draftFile'
+import {
+  EXPORT_FORMATS,
+  exportBundle,
+  exportHtml,
+  exportMarkdown,
+  exportNewsCsv,
+  exportPlainText,
+  type BundleInput,
+  type ExportFormat,
+} from '@/utils/exporters'
+import {
+  DEFAULT_RANKING_WEIGHTS,
+  planVariants,
+  rankVariants,
+  variantPrompt,
+  type DraftVariantRun,
+  type RankingWeights,
+} from '@/utils/draftVariants'
+import {
+  createRunId,
+  deleteRun,
+  listRecentRuns,
+  openLastRun,
+  openRun,
+  saveRun,
+  type SavedRun,
+  type SavedRunSummary,
+} from '@/utils/runStore'
+import {
+  EXTRA_PLATFORM_IDS,
+  PLATFORMS,
+  platformStepId,
+  stepPlatform,
+  type PlatformId,
+} from '@/utils/platforms'
+import { analyzeDraft, compareWithReported, formatReadingTime } from '@/utils/draftAnalyzer'
+import type {
+  AgentStepRole,
+  AppConfig,
+  DraftResponse,
+  NewsItem,
+  NewsResponse,
+  Persona,
+  PersonalityProfile,
+  PersonalityResponse,
+} from '@/types'
 
 // Types
-interface NewsItem {
-  headline: string
-  source: string
-  date: string
-  summary: string
-  key_takeaway: string
-  url: string
-  relevance_score: number
-}
-
-interface SearchMetadata {
-  queries_executed: string[]
-  total_results_found: number
-  results_selected: number
-  search_timestamp: string
-}
-
-interface NewsResponse {
-  news_summary: NewsItem[]
-  search_metadata: SearchMetadata
-  confidence: number
-}
-
-interface PersonalityProfile {
-  tone: string
-  formality_level: 'formal' | 'semi-formal' | 'informal' | 'very casual'
-  vocabulary_style: string
-  emoji_usage: string
-  sentence_structure: string
-  humor_style: string
-  engagement_style: string
-  key_phrases: string[]
-  topic_angles: Record<string, string>
-}
-
-interface PersonalityResponse {
-  personality_profile: PersonalityProfile
-  confidence: number
-  analysis_summary: string
-}
-
-interface DraftMetadata {
-  character_count: number
-  emoji_count: number
-  tone_match: number
-  personality_alignment: number
-  engagement_potential: number
-  news_sources_used: string[]
-}
-
-interface DraftResponse {
-  draft_message: string
-  metadata: DraftMetadata
-  confidence: number
-  generation_notes: string
-}
-
 interface WorkflowResult {
   news: NewsResponse | null
   personality: PersonalityResponse | null
   draft: DraftResponse | null
+  /** Per-step state of the latest run, keyed by step id */
+  steps: Record<string, StepRun>
   loading: boolean
   error: string | null
 }
 
+// Step ids whose output is shown in a panel
+const RESULT_STEPS = ['news', 'personality', 'draft'] as const
+
+// What a published draft consists of
+type SendMode = 'text' | 'embeds' | 'both'
+
+// Options of the latest pipeline run, reused to retry a step
+interface PipelineOptions {
+  regenerate: boolean
+  /** Platforms drafted besides Discord */
+  platforms?: PlatformId[]
+  /** Prompt template bodies the run used, and their versions */
+  prompts?: PipelinePrompts
+  prompt_versions?: PromptVersionMap
+  /** Agents the run called, and the template each step was prompted with */
+  agent_ids?: PipelineAgentIds
+  templates?: Partial<Record<AgentStepRole, PromptTemplateId>>
+}
+
+// Voice select value for "ask the personality agent"
+const AGENT_VOICE = 'agent'
+
 // Main Component
 export default function HomePage() {
   const [result, setResult] = useState<WorkflowResult>({
     news: null,
     personality: null,
     draft: null,
+    steps: {},
     loading: false,
     error: null,
   })
-  const [copied, setCopied] = useState(false)
+  const [pipelineOptions, setPipelineOptions] = useState<PipelineOptions>({ regenerate: false })
+  // Index of the message part last copied, shown briefly on the button
+  const [copiedPart, setCopiedPart] = useState<number | null>(null)
+  const [copyIndex, setCopyIndex] = useState(0)
+  const [messageLimit, setMessageLimit] = useState(DISCORD_MESSAGE_LIMIT)
+  const [streamingDraft, setStreamingDraft] = useState('')
+  const [streamingNews, setStreamingNews] = useState<NewsItem[]>([])
+  const [personas, setPersonas] = useState<Persona[]>([])
+  const [voice, setVoice] = useState(AGENT_VOICE)
+  const [editingPersona, setEditingPersona] = useState(false)
+  const [curatedNews, setCuratedNews] = useState<CuratedNewsItem[]>([])
+  const [excludedNews, setExcludedNews] = useState<ExcludedNewsItem[]>([])
+  const [draftEdited, setDraftEdited] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [scheduling, setScheduling] = useState(false)
+  const [sendMode, setSendMode] = useState<SendMode>('text')
+  const [draftVersions, setDraftVersions] = useState<DraftVersion[]>([])
+  // Version in the editor; null follows the newest one
+  const [activeVersionId, setActiveVersionId] = useState<string | null>(null)
+  const [showHistory, setShowHistory] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [importNotice, setImportNotice] = useState<string | null>(null)
+  const [draftTab, setDraftTab] = useState('editor')
+  const [variantRuns, setVariantRuns] = useState<DraftVariantRun[]>([])
+  // News and voice shared by the current variant batch
+  const [variantBatch, setVariantBatch] = useState<{
+    news: NewsItem[]
+    persona: DraftVersionPersona | null
+  }>({ news: [], persona: null })
+  const [rankingWeights, setRankingWeights] = useState<RankingWeights>(DEFAULT_RANKING_WEIGHTS)
+  // Platforms to draft for besides Discord, and the drafts written for them
+  const [targetPlatforms, setTargetPlatforms] = useState<PlatformId[]>([])
+  const [platformDrafts, setPlatformDrafts] = useState<Partial<Record<PlatformId, DraftResponse>>>({})
+  // Prompt templates with their active versions, as saved on the server
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplateState[]>(builtInTemplates)
+  // Registered agents, and the ones picked for this run instead of the defaults
+  const [appConfig, setAppConfig] = useState<AppConfig>(DEFAULT_APP_CONFIG)
+  const [agentSelection, setAgentSelection] = useState<AgentSelection>({})
+  // Saved run the page state belongs to; null until a run starts
+  const [runId, setRunId] = useState<string | null>(null)
+  const [recentRuns, setRecentRuns] = useState<SavedRunSummary[]>([])
+  // Autosave waits until the last run has been reopened
+  const [hydrated, setHydrated] = useState(false)
 
-  const AGENT_IDS = {
-    news: '690443fbe26dd0e0368525c4',
-    personality: '6904440fe26dd0e0368525c5',
-    draft: '6904441bcb70cd01d307c50e',
-  }
+  const selectedPersona = personas.find((persona) => persona.id === voice) ?? null
+  const selectedAgents = resolveAgents(appConfig, agentSelection)
+  const editableProfile =
+    result.personality?.personality_profile ?? selectedPersona?.profile ?? null
+
+  const selectedNews = selectedNewsItems(curatedNews)
+  const activeVersion =
+    draftVersions.find((version) => version.id === activeVersionId) ??
+    draftVersions[draftVersions.length - 1] ??
+    null
+  const draftMessage = result.draft?.draft_message
+  const draftAnalysis = useMemo(
+    () => (draftMessage === undefined ? null : analyzeDraft(draftMessage)),
+    [draftMessage]
+  )
+  const draftParts = useMemo(
+    () => (draftMessage === undefined ? [] : splitMessage(draftMessage, { limit: messageLimit })),
+    [draftMessage, messageLimit]
+  )
+  // Webhooks cap content at 2000 characters whatever the account's limit
+  const webhookParts = useMemo(
+    () =>
+      messageLimit === DISCORD_MESSAGE_LIMIT || draftMessage === undefined
+        ? draftParts
+        : splitMessage(draftMessage, { limit: DISCORD_MESSAGE_LIMIT }),
+    [draftMessage, draftParts, messageLimit]
+  )
+  // Embeds describe the curated stories, or the ones an uncurated draft step used
+  const builtEmbeds = useMemo(() => {
+    if (sendMode === 'text') return { embeds: [], warnings: [] }
+    return buildNewsEmbeds(
+      curatedNews.length
+        ? selectedNewsItems(curatedNews)
+        : (result.news?.news_summary.slice(0, DRAFT_NEWS_LIMIT) ?? [])
+    )
+  }, [sendMode, curatedNews, result.news])
+  const rankedVariants = useMemo(
+    () =>
+      rankVariants(variantRuns, rankingWeights, { limit: messageLimit, news: variantBatch.news }),
+    [variantRuns, rankingWeights, messageLimit, variantBatch.news]
+  )
+  // Platforms with a draft or a draft step in the latest run, in picker order
+  const draftedPlatforms = EXTRA_PLATFORM_IDS.filter(
+    (id) => platformDrafts[id] || result.steps[platformStepId(id)]
+  )
+  const mismatches =
+    draftAnalysis && result.draft ? compareWithReported(draftAnalysis, result.draft.metadata) : []
+
+  // A changed draft or limit starts copying from the first part again
+  useEffect(() => {
+    setCopyIndex(0)
+  }, [draftParts])
+
+  useEffect(() => {
+    fetch('/api/prompts')
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error || 'Failed to load prompt templates')
+        setPromptTemplates(data.templates)
+      })
+      .catch((error) => console.error('Using the built-in prompts:', error))
+  }, [])
+
+  useEffect(() => {
+    fetch('/api/agents')
+      .then((response) => response.json())
+      .then((data) => {
+        if (!data.success) throw new Error(data.error || 'Failed to load agents')
+        setAppConfig(data.config)
+      })
+      .catch((error) => console.error('Using the built-in agents:', error))
+  }, [])
+
+  // Put saved workflow state back into all three panels, as if it had just
+  // been generated. Returns the saved persona it was written in, if it still exists.
+  const restoreWorkflow = useCallback(
+    (
+      state: Pick<
+        DraftFile,
+        'personality' | 'news' | 'curation' | 'persona' | 'message_limit' | 'send_mode'
+      > & { draft: DraftResponse | null },
+      savedPersonas: Persona[]
+    ) => {
+      const persona = state.persona
+        ? savedPersonas.find((entry) => entry.id === state.persona?.id)
+        : undefined
+      const personality = state.personality ?? (persona ? personaToResponse(persona) : null)
+      const curation = state.curation.length
+        ? draftFileCuration(state)
+        : state.news
+          ? curateNews(state.news.news_summary)
+          : []
+
+      setResult({
+        news: state.news,
+        personality,
+        draft: state.draft,
+        steps: {},
+        loading: false,
+        error: null,
+      })
+      setPipelineOptions({ regenerate: false })
+      setCuratedNews(curation)
+      setVoice(persona ? persona.id : AGENT_VOICE)
+      if (
+        state.message_limit === DISCORD_MESSAGE_LIMIT ||
+        state.message_limit === DISCORD_NITRO_MESSAGE_LIMIT
+      ) {
+        setMessageLimit(state.message_limit)
+      }
+      if (state.send_mode) setSendMode(state.send_mode)
+      setPlatformDrafts({})
+      setVariantRuns([])
+      setImportNotice(null)
+      return { persona, personality, curation }
+    },
+    []
+  )
 
-  async function callAgent(agentId: string, message: string) {
+  const restoreRun = useCallback(
+    (run: SavedRun, savedPersonas: Persona[]) => {
+      restoreWorkflow(run, savedPersonas)
+      setRunId(run.id)
+      setPipelineOptions({ regenerate: false, prompt_versions: run.prompt_versions })
+      setAgentSelection(run.agents ?? {})
+      setPlatformDrafts(run.platform_drafts ?? {})
+      setDraftVersions(run.versions)
+      setActiveVersionId(null)
+      setDraftEdited(run.versions[run.versions.length - 1]?.source === 'edited')
+    },
+    [restoreWorkflow]
+  )
+
+  useEffect(() => {
+    listExcludedNews().then(setExcludedNews)
+    // Personas load first so the reopened run's voice can be matched
+    Promise.all([listPersonas(), openLastRun()])
+      .then(([saved, run]) => {
+        setPersonas(saved)
+        if (run) restoreRun(run, saved)
+      })
+      .catch((error) => console.error('Failed to reopen the last run:', error))
+      .finally(() => {
+        setHydrated(true)
+        listRecentRuns()
+          .then(setRecentRuns)
+          .catch((error) => console.error('Failed to list saved runs:', error))
+      })
+  }, [restoreRun])
+
+  // Save the run shortly after it changes, so a refresh keeps the fetched news
+  const savedPersona = useMemo(
+    () => (selectedPersona ? { id: selectedPersona.id, name: selectedPersona.name } : null),
+    [selectedPersona]
+  )
+  useEffect(() => {
+    if (!hydrated || !runId || (!result.news && !result.draft)) return
+
+    const timer = setTimeout(() => {
+      saveRun(runId, {
+        news: result.news,
+        personality: result.personality,
+        draft: result.draft,
+        curation: curatedNews,
+        persona: savedPersona,
+        message_limit: messageLimit,
+        send_mode: sendMode,
+        versions: draftVersions,
+        platform_drafts: platformDrafts,
+        prompt_versions: pipelineOptions.prompt_versions,
+        agents: agentSelection,
+      })
+        .then(() => listRecentRuns())
+        .then(setRecentRuns)
+        .catch((error) => console.error('Failed to save run:', error))
+    }, 1000)
+    return () => clearTimeout(timer)
+  }, [
+    hydrated,
+    runId,
+    result.news,
+    result.personality,
+    result.draft,
+    curatedNews,
+    savedPersona,
+    messageLimit,
+    sendMode,
+    draftVersions,
+    platformDrafts,
+    pipelineOptions.prompt_versions,
+    agentSelection,
+  ])
+
+  async function callAgent(agentId: string, message: string, options?: { temperature?: number }) {
     const response = await fetch('/api/agent', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({
         message,
         agent_id: agentId,
+        temperature: options?.temperature,
       }),
     })
 
@@ -106,415 +456,1183 @@ export default function HomePage() {
     return data.response
   }
 
-  async function handleGenerateDraft() {
-    setResult((prev) => ({ ...prev, loading: true, error: null }))
+  // Stream an agent reply, reporting the partially parsed JSON as it grows
+  async function streamAgent(
+    agentId: string,
+    message: string,
+    onPartial: (snapshot: PartialJsonSnapshot) => void
+  ) {
+    const parser = createStreamingJsonParser()
+    const data = await streamAIAgent(message, agentId, (token) =>
+      onPartial(parser.push(token))
+    )
+    if (!data.success) throw new Error('Agent call failed')
+    return data.response
+  }
 
+  async function streamDraftAgent(agentId: string, message: string) {
+    setStreamingDraft('')
     try {
-      // Step 1: Get AI News
-      const newsData = await callAgent(
-        AGENT_IDS.news,
-        'Search for the latest AI and Lyzr news articles. Focus on recent developments, breakthroughs, and industry updates. Return structured JSON with headlines, sources, dates, summaries, key takeaways, URLs, and relevance scores.'
+      return await streamAgent(agentId, message, ({ value }) =>
+        setStreamingDraft(typeof value?.draft_message === 'string' ? value.draft_message : '')
       )
+    } finally {
+      setStreamingDraft('')
+    }
+  }
 
-      const newsResult: NewsResponse =
-        typeof newsData === 'string' ? JSON.parse(newsData) : newsData
-
-      // Step 2: Get Personality Profile
-      const personalityData = await callAgent(
-        AGENT_IDS.personality,
-        'Analyze the tone, style, and communication patterns for a Discord community manager sharing tech news. Create a comprehensive personality profile including formality, vocabulary, emoji usage, humor style, engagement approach, key phrases, and topic angles. Return structured JSON format.'
-      )
+  async function streamNewsAgent(agentId: string, message: string) {
+    setStreamingNews([])
+    try {
+      const excludedKeys = new Set(excludedNews.map((entry) => entry.key))
+      return await streamAgent(agentId, message, ({ value, complete }) => {
+        const items: NewsItem[] = Array.isArray(value?.news_summary) ? value.news_summary : []
+        // Only show cards whose item has fully closed
+        setStreamingNews(
+          items.filter(
+            (item, idx) =>
+              complete.includes(`news_summary[${idx}]`) && !excludedKeys.has(newsItemKey(item))
+          )
+        )
+      })
+    } finally {
+      setStreamingNews([])
+    }
+  }
 
-      const personalityResult: PersonalityResponse =
-        typeof personalityData === 'string'
-          ? JSON.parse(personalityData)
-          : personalityData
+  // Perform one agent call for a workflow step, streaming the steps whose
+  // partial output the panels can show
+  async function callStepAgent(step: WorkflowStep, prompt: string) {
+    if (step.id === 'news') {
+      const news = await streamNewsAgent(step.agentId, prompt)
+      return { response: applyNewsCuration(news, excludedNews, pinnedNewsItems(curatedNews)) }
+    }
+    if (step.id === 'draft') return { response: await streamDraftAgent(step.agentId, prompt) }
+    return { response: await callAgent(step.agentId, prompt) }
+  }
 
-      // Step 3: Generate Discord Draft
-      const newsContext = JSON.stringify(newsResult.news_summary.slice(0, 3))
-      const personalityContext = JSON.stringify(
-        personalityResult.personality_profile
-      )
+  // Run the pipeline, keeping each step's output as soon as it succeeds so a
+  // later failure does not discard what was already fetched
+  async function runPipeline(
+    options: PipelineOptions,
+    seed: Record<string, unknown>,
+    fallbackError: string,
+    inputOverrides?: Record<string, Record<string, unknown>>
+  ) {
+    // A retry reuses the prompts and agents of the run it retries; anything
+    // else uses the active templates and the agents picked in the Generator
+    const { prompts, versions } = activePrompts(promptTemplates)
+    const runOptions: PipelineOptions = options.prompts
+      ? options
+      : {
+          ...options,
+          prompts,
+          prompt_versions: versions,
+          agent_ids: selectedAgents.agent_ids,
+          templates: selectedAgents.templates,
+        }
+    setPipelineOptions(runOptions)
+    setImportNotice(null)
+    setRunId((prev) => prev ?? createRunId())
+    setResult((prev) => ({ ...prev, steps: {}, loading: true, error: null }))
 
-      const draftData = await callAgent(
-        AGENT_IDS.draft,
-        `Using this personality profile: ${personalityContext}\n\nAnd these news items: ${newsContext}\n\nGenerate an engaging Discord message that incorporates 2-3 news items. Match the personality profile exactly. Include appropriate markdown formatting and structure the message for maximum engagement in a Discord channel. Return JSON with the draft message and detailed metadata.`
+    try {
+      const pipeline = createDiscordDraftPipeline(
+        runOptions.agent_ids ?? selectedAgents.agent_ids,
+        runOptions
       )
+      const run = await runWorkflow(pipeline, {
+        callAgent: callStepAgent,
+        seed,
+        inputOverrides,
+        onStepUpdate: (id, step) => {
+          if (id === 'news' && step.status === 'succeeded' && !step.seeded) {
+            setCuratedNews((prev) => curateNews(step.output.news_summary, prev))
+          }
+          if (id === 'draft' && step.status === 'succeeded') {
+            setDraftEdited(false)
+            if (!step.seeded) recordGeneratedDraft(step, options.regenerate)
+          }
+          const platform = stepPlatform(id)
+          if (platform && platform !== 'discord' && step.status === 'succeeded') {
+            setPlatformDrafts((prev) => ({ ...prev, [platform]: step.output }))
+          }
+          setResult((prev) => ({
+            ...prev,
+            steps: { ...prev.steps, [id]: step },
+            ...(step.status === 'succeeded' && (RESULT_STEPS as readonly string[]).includes(id)
+              ? { [id]: step.output }
+              : {}),
+          }))
+        },
+      })
 
-      const draftResult: DraftResponse =
-        typeof draftData === 'string' ? JSON.parse(draftData) : draftData
-
-      setResult({
-        news: newsResult,
-        personality: personalityResult,
-        draft: draftResult,
+      const failed = Object.values(run.steps).find((step) => step.status === 'failed')
+      setResult((prev) => ({
+        ...prev,
         loading: false,
-        error: null,
-      })
+        error: run.status === 'succeeded' ? null : failed?.error || fallbackError,
+      }))
     } catch (err) {
       setResult((prev) => ({
         ...prev,
         loading: false,
-        error: err instanceof Error ? err.message : 'Failed to generate draft',
+        error: err instanceof Error ? err.message : fallbackError,
       }))
     }
   }
 
+  function versionPersona(profile: PersonalityProfile | undefined): DraftVersionPersona | null {
+    if (!profile) return null
+    return {
+      id: selectedPersona?.id ?? null,
+      name: selectedPersona?.name ?? 'Personality agent',
+      profile,
+    }
+  }
+
+  // Keep each agent draft as a version, with the prompt, voice and news it came from
+  function recordGeneratedDraft(step: StepRun, regenerate: boolean) {
+    setDraftVersions((prev) =>
+      addDraftVersion(prev, {
+        source: regenerate ? 'regenerated' : 'generated',
+        draft: step.output,
+        prompt: step.prompt,
+        persona: versionPersona(step.inputs?.persona as PersonalityProfile | undefined),
+        news: Array.isArray(step.inputs?.news) ? (step.inputs.news as NewsItem[]) : [],
+      })
+    )
+    setActiveVersionId(null)
+  }
+
+  async function handleGenerateDraft() {
+    setResult((prev) => ({ ...prev, news: null, personality: null, draft: null }))
+    setPlatformDrafts({})
+    // A fresh fetch is a new saved run with its own version history
+    setRunId(createRunId())
+    setDraftVersions([])
+    setActiveVersionId(null)
+
+    // A saved persona stands in for the personality agent
+    const seed = selectedPersona ? { personality: personaToResponse(selectedPersona) } : {}
+    await runPipeline(
+      { regenerate: false, platforms: targetPlatforms },
+      seed,
+      'Failed to generate draft'
+    )
+  }
+
+  // Send the curated stories to every draft step, once the user has a feed to curate
+  function curatedDraftInputs(platforms: PlatformId[] = targetPlatforms) {
+    if (!curatedNews.length) return undefined
+    const ids: PlatformId[] = ['discord', ...platforms]
+    return Object.fromEntries(ids.map((id) => [platformStepId(id), { news: selectedNews }]))
+  }
+
+  async function handleDraftFromSelected() {
+    if (!result.news || !selectedNews.length) return
+
+    const personality =
+      result.personality ?? (selectedPersona ? personaToResponse(selectedPersona) : null)
+    await runPipeline(
+      { regenerate: false, platforms: targetPlatforms },
+      personality ? { news: result.news, personality } : { news: result.news },
+      'Failed to draft from selected news',
+      curatedDraftInputs()
+    )
+  }
+
   async function handleRegenerateDraft() {
     if (!result.news || !result.personality) return
 
-    setResult((prev) => ({ ...prev, loading: true, error: null }))
+    await runPipeline(
+      { regenerate: true, platforms: targetPlatforms },
+      { news: result.news, personality: result.personality },
+      'Failed to regenerate draft',
+      curatedDraftInputs()
+    )
+  }
 
-    try {
-      const newsContext = JSON.stringify(result.news.news_summary.slice(0, 3))
-      const personalityContext = JSON.stringify(
-        result.personality.personality_profile
-      )
+  // Call the draft agent once per variant, in parallel, through the same
+  // pipeline (and schema checks) as a single draft
+  async function handleGenerateVariants(request: VariantRequest) {
+    const news = result.news
+    const personality = result.personality
+    if (!news || !personality) return
 
-      const draftData = await callAgent(
-        AGENT_IDS.draft,
-        `Using this personality profile: ${personalityContext}\n\nAnd these news items: ${newsContext}\n\nGenerate a NEW and DIFFERENT engaging Discord message. Use a fresh approach while maintaining the personality profile. Return JSON with the draft message and detailed metadata.`
-      )
+    const batch = Date.now()
+    const runs: DraftVariantRun[] = planVariants(request.count, request).map((spec, idx) => ({
+      id: `variant-${batch}-${idx}`,
+      spec,
+      status: 'running',
+    }))
+    setVariantRuns(runs)
+    setVariantBatch({
+      news: curatedNews.length ? selectedNews : news.news_summary.slice(0, DRAFT_NEWS_LIMIT),
+      persona: versionPersona(personality.personality_profile),
+    })
 
-      const draftResult: DraftResponse =
-        typeof draftData === 'string' ? JSON.parse(draftData) : draftData
+    const updateRun = (id: string, patch: Partial<DraftVariantRun>) =>
+      setVariantRuns((prev) => prev.map((run) => (run.id === id ? { ...run, ...patch } : run)))
 
-      setResult((prev) => ({
-        ...prev,
-        draft: draftResult,
-        loading: false,
-      }))
-    } catch (err) {
-      setResult((prev) => ({
-        ...prev,
-        loading: false,
-        error: err instanceof Error ? err.message : 'Failed to regenerate draft',
-      }))
+    await Promise.all(
+      runs.map(async (run) => {
+        let prompt: string | undefined
+        try {
+          const workflow = await runWorkflow(
+            createDiscordDraftPipeline(selectedAgents.agent_ids, {
+              prompts: activePrompts(promptTemplates).prompts,
+              templates: selectedAgents.templates,
+            }),
+            {
+              seed: { news, personality },
+              inputOverrides: curatedDraftInputs(),
+              callAgent: async (step, stepPrompt) => {
+                prompt = variantPrompt(stepPrompt, run.spec.angle)
+                return {
+                  response: await callAgent(step.agentId, prompt, { temperature: run.spec.temperature }),
+                }
+              },
+            }
+          )
+          const step = workflow.steps.draft
+          updateRun(
+            run.id,
+            step.status === 'succeeded'
+              ? { status: 'succeeded', draft: step.output, prompt }
+              : { status: 'failed', error: step.error || 'Variant failed', prompt }
+          )
+        } catch (err) {
+          updateRun(run.id, {
+            status: 'failed',
+            error: err instanceof Error ? err.message : 'Variant failed',
+            prompt,
+          })
+        }
+      })
+    )
+  }
+
+  function handlePromoteVariant(run: DraftVariantRun) {
+    const draft = run.draft
+    if (!draft) return
+    setResult((prev) => ({ ...prev, draft }))
+    setDraftVersions((prev) =>
+      addDraftVersion(prev, {
+        source: 'variant',
+        draft,
+        prompt: run.prompt,
+        persona: variantBatch.persona,
+        news: variantBatch.news,
+      })
+    )
+    setActiveVersionId(null)
+    setDraftEdited(false)
+    setDraftTab('editor')
+  }
+
+  // Resume from a failed step, reusing the output of every step that succeeded
+  async function handleRetryStep(stepId: string) {
+    const seed: Record<string, unknown> = {}
+    for (const [id, step] of Object.entries(result.steps)) {
+      if (id !== stepId && step.status === 'succeeded') seed[id] = step.output
     }
+
+    await runPipeline(
+      pipelineOptions,
+      seed,
+      `Failed to retry ${stepId}`,
+      'news' in seed ? curatedDraftInputs(pipelineOptions.platforms) : undefined
+    )
   }
 
-  async function handleSaveDraft() {
+  async function handleExcludeNews(entry: CuratedNewsItem) {
+    setExcludedNews(await excludeNewsItem(entry.item))
+    setCuratedNews((prev) => prev.filter((item) => item.key !== entry.key))
+  }
+
+  async function handleClearExcluded() {
+    await clearExcludedNews()
+    setExcludedNews([])
+  }
+
+  // Use an edited profile for this session; later regenerations and retries reuse it
+  function handleApplyProfile(profile: PersonalityProfile, summary = 'Edited by hand') {
+    const personality: PersonalityResponse = {
+      personality_profile: profile,
+      confidence: 1,
+      analysis_summary: summary,
+    }
+
+    setResult((prev) => ({
+      ...prev,
+      personality,
+      steps: prev.steps.personality
+        ? { ...prev.steps, personality: { ...prev.steps.personality, output: personality } }
+        : prev.steps,
+    }))
+    setEditingPersona(false)
+  }
+
+  async function handleSavePersona(name: string, profile: PersonalityProfile) {
+    const persona = await savePersona(name, profile)
+    setPersonas(await listPersonas())
+    setVoice(persona.id)
+    handleApplyProfile(persona.profile, personaToResponse(persona).analysis_summary)
+  }
+
+  async function handleDeletePersona() {
+    if (!selectedPersona) return
+    await deletePersona(selectedPersona.id)
+    setPersonas(await listPersonas())
+    setVoice(AGENT_VOICE)
+  }
+
+  // Metadata stays as the agent reported it; the Metrics tab measures the text itself
+  function handleDraftChange(text: string) {
+    const baseId = activeVersion?.id
+    if (baseId) {
+      setDraftVersions((prev) => recordDraftEdit(prev, baseId, text))
+      setActiveVersionId(null)
+    }
+    setDraftEdited(true)
+    setResult((prev) =>
+      prev.draft ? { ...prev, draft: { ...prev.draft, draft_message: text } } : prev
+    )
+  }
+
+  function handleRestoreVersion(version: DraftVersion) {
+    setResult((prev) => ({ ...prev, draft: version.draft }))
+    setActiveVersionId(version.id)
+    setDraftEdited(version.source === 'edited')
+  }
+
+  // News rows for the CSV: the curated feed in display order, else the fetched list
+  const exportNews = curatedNews.length
+    ? curatedNews.map((entry) => entry.item)
+    : (result.news?.news_summary ?? [])
+
+  function handleExport(format: ExportFormat) {
     if (!result.draft) return
 
-    const timestamp = new Date().toISOString()
-    const savedData = {
-      draft: result.draft.draft_message,
-      metadata: result.draft.metadata,
-      timestamp,
+    const input: BundleInput = {
+      draft: result.draft,
       personality: result.personality,
-      news: result.news?.news_summary,
+      news: result.news,
+      curation: curatedNews,
+      persona: selectedPersona ? { id: selectedPersona.id, name: selectedPersona.name } : null,
+      message_limit: messageLimit,
+      send_mode: sendMode,
+      limit: messageLimit,
+    }
+    const message = result.draft.draft_message
+    const content: Record<ExportFormat, () => BlobPart> = {
+      markdown: () => exportMarkdown(message),
+      html: () => exportHtml(message),
+      text: () => exportPlainText(message),
+      csv: () => exportNewsCsv(exportNews),
+      zip: () => exportBundle(input),
+      json: () => serializeDraftFile(createDraftFile(input)),
     }
 
-    const blob = new Blob([JSON.stringify(savedData, null, 2)], {
-      type: 'application/json',
-    })
+    const { extension, mime } = EXPORT_FORMATS[format]
+    const blob = new Blob([content[format]()], { type: mime })
     const url = URL.createObjectURL(blob)
     const a = document.createElement('a')
     a.href = url
-    a.download = `discord-draft-${Date.now()}.json`
+    a.download = `discord-draft-${Date.now()}.${extension}`
     a.click()
     URL.revokeObjectURL(url)
   }
 
+  async function handleOpenRun(id: string) {
+    if (id === runId) return
+    try {
+      const run = await openRun(id)
+      if (run) restoreRun(run, personas)
+      setRecentRuns(await listRecentRuns())
+    } catch (error) {
+      console.error('Failed to open run:', error)
+    }
+  }
+
+  async function handleDeleteRun(id: string) {
+    try {
+      await deleteRun(id)
+      // The page keeps showing a deleted run but stops saving it
+      if (id === runId) setRunId(null)
+      setRecentRuns(await listRecentRuns())
+    } catch (error) {
+      console.error('Failed to delete run:', error)
+    }
+  }
+
+  function handleNewRun() {
+    setResult({ news: null, personality: null, draft: null, steps: {}, loading: false, error: null })
+    setCuratedNews([])
+    setPlatformDrafts({})
+    setDraftVersions([])
+    setActiveVersionId(null)
+    setDraftEdited(false)
+    setVariantRuns([])
+    setImportNotice(null)
+    setRunId(null)
+  }
+
+  function handleImportDraft(file: DraftFile, migratedFrom: number | null) {
+    const { persona, personality, curation } = restoreWorkflow(file, personas)
+    // An imported draft is saved as a new run
+    setRunId(createRunId())
+    setDraftEdited(false)
+    setDraftVersions(
+      addDraftVersion([], {
+        source: 'imported',
+        draft: file.draft,
+        persona: personality
+          ? {
+              id: persona?.id ?? null,
+              name: persona?.name ?? file.persona?.name ?? 'Imported profile',
+              profile: personality.personality_profile,
+            }
+          : null,
+        news: selectedNewsItems(curation),
+      })
+    )
+    setActiveVersionId(null)
+
+    const notes = [
+      file.saved_at && `saved ${new Date(file.saved_at).toLocaleString()}`,
+      migratedFrom !== null && `upgraded from file version ${migratedFrom}`,
+      file.persona && !persona && `persona "${file.persona.name}" no longer exists`,
+    ].filter(Boolean)
+    setImportNotice(`Draft imported${notes.length ? ` (${notes.join('; ')})` : ''}`)
+  }
+
+  // Oversized drafts are copied one message at a time, in order
   function handleCopyDraft() {
-    if (!result.draft) return
-    navigator.clipboard.writeText(result.draft.draft_message)
-    setCopied(true)
-    setTimeout(() => setCopied(false), 2000)
+    if (!draftParts.length) return
+    const index = copyIndex % draftParts.length
+    navigator.clipboard.writeText(draftParts[index])
+    setCopiedPart(index)
+    setCopyIndex(index + 1)
+    setTimeout(() => setCopiedPart((current) => (current === index ? null : current)), 2000)
   }
 
   return (
-    <div className="min-h-screen bg-slate-950 text-white">
-      {/* Header */}
-      <div className="border-b border-purple-900/50 bg-gradient-to-r from-slate-900 to-slate-800">
-        <div className="mx-auto max-w-7xl px-8 py-8">
-          <h1 className="text-3xl font-bold text-white mb-2">
-            Content Coordinator Manager
-          </h1>
-          <p className="text-gray-400">
-            AI-powered Discord content generation with personality & news insights
-          </p>
+    <SidebarProvider defaultOpen={false}>
+      <RecentRuns
+        runs={recentRuns}
+        activeId={runId}
+        onOpen={handleOpenRun}
+        onDelete={handleDeleteRun}
+        onNew={handleNewRun}
+        disabled={result.loading}
+      />
+      <SidebarInset className="min-h-screen bg-slate-950 text-white">
+        {/* Header */}
+        <div className="border-b border-purple-900/50 bg-gradient-to-r from-slate-900 to-slate-800">
+          <div className="mx-auto flex max-w-7xl items-end justify-between px-8 py-8">
+            <div className="flex items-start gap-3">
+              <SidebarTrigger
+                title="Recent runs"
+                className="mt-1 text-purple-300 hover:bg-purple-900/30 hover:text-purple-200"
+              />
+              <div>
+                <h1 className="text-3xl font-bold text-white mb-2">
+                  Content Coordinator Manager
+                </h1>
+                <p className="text-gray-400">
+                  AI-powered Discord content generation with personality & news insights
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-6">
+              <Link
+                href="/prompts"
+                className="flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200"
+              >
+                <FileText className="h-4 w-4" />
+                Prompts
+              </Link>
+              <Link
+                href="/schedule"
+                className="flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200"
+              >
+                <CalendarClock className="h-4 w-4" />
+                Schedule
+              </Link>
+              <Link
+                href="/settings"
+                className="flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200"
+              >
+                <Settings className="h-4 w-4" />
+                Settings
+              </Link>
+            </div>
+          </div>
         </div>
-      </div>
 
-      {/* Main Content */}
-      <div className="mx-auto max-w-7xl px-8 py-8">
-        {/* Error Alert */}
-        {result.error && (
-          <div className="mb-8 flex items-start gap-4 rounded-lg border border-red-500/50 bg-red-950/20 p-4">
-            <AlertCircle className="mt-0.5 h-5 w-5 text-red-500 flex-shrink-0" />
-            <div>
-              <h3 className="font-semibold text-red-400">Error</h3>
-              <p className="text-sm text-red-300">{result.error}</p>
+        {/* Main Content */}
+        <div className="mx-auto max-w-7xl px-8 py-8">
+          {/* Error Alert */}
+          {result.error && (
+            <div className="mb-8 flex items-start gap-4 rounded-lg border border-red-500/50 bg-red-950/20 p-4">
+              <AlertCircle className="mt-0.5 h-5 w-5 text-red-500 flex-shrink-0" />
+              <div>
+                <h3 className="font-semibold text-red-400">Error</h3>
+                <p className="text-sm text-red-300">{result.error}</p>
+              </div>
             </div>
-          </div>
-        )}
-
-        {/* Three Column Layout */}
-        <div className="grid grid-cols-3 gap-8">
-          {/* Left: News Feed */}
-          <div className="col-span-1">
-            <Card className="border-purple-900/50 bg-slate-900 h-full">
-              <CardHeader className="border-b border-purple-900/30">
-                <CardTitle className="text-xl font-bold text-white">
-                  AI News Feed
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="p-0">
-                {result.loading && (
-                  <div className="flex items-center justify-center p-8">
-                    <Spinner className="h-6 w-6" />
-                  </div>
-                )}
-                {!result.loading && !result.news && (
-                  <div className="p-6 text-center text-gray-400">
-                    Click "Generate Draft" to fetch latest news
-                  </div>
-                )}
-                {result.news && (
-                  <ScrollArea className="h-[400px]">
-                    <div className="space-y-4 p-4">
-                      {result.news.news_summary.map((item, idx) => (
-                        <div
-                          key={idx}
-                          className="space-y-2 rounded-lg border border-purple-800/30 bg-slate-800/50 p-3"
+          )}
+
+          {/* Three Column Layout (the draft editor gets two grid columns) */}
+          <div className="grid grid-cols-4 gap-8">
+            {/* Left: News Feed */}
+            <div className="col-span-1">
+              <Card className="border-purple-900/50 bg-slate-900 h-full">
+                <CardHeader className="border-b border-purple-900/30">
+                  <CardTitle className="text-xl font-bold text-white">
+                    AI News Feed
+                  </CardTitle>
+                  {(curatedNews.length > 0 || excludedNews.length > 0) && (
+                    <div className="flex items-center justify-between text-xs text-gray-400">
+                      <span>
+                        {selectedNews.length} of {curatedNews.length} selected
+                      </span>
+                      {excludedNews.length > 0 && (
+                        <button
+                          type="button"
+                          onClick={handleClearExcluded}
+                          className="hover:text-purple-300"
                         >
-                          <div className="flex items-start justify-between gap-2">
-                            <h4 className="text-sm font-semibold text-purple-300 line-clamp-2">
-                              {item.headline}
-                            </h4>
-                            <span className="flex-shrink-0 rounded bg-purple-900/50 px-2 py-1 text-xs text-purple-200">
-                              {(item.relevance_score * 100).toFixed(0)}%
-                            </span>
+                          Clear {excludedNews.length} excluded
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </CardHeader>
+                <CardContent className="p-0">
+                  {result.steps.news?.status === 'running' && !streamingNews.length && (
+                    <div className="flex items-center justify-center p-8">
+                      <Spinner className="h-6 w-6" />
+                    </div>
+                  )}
+                  {result.steps.news?.status !== 'running' && !curatedNews.length && (
+                    <div className="p-6 text-center text-gray-400">
+                      Click "Generate Draft" to fetch latest news
+                    </div>
+                  )}
+                  {result.steps.news?.status !== 'running' && curatedNews.length > 0 && (
+                    <ScrollArea className="h-[400px]">
+                      <NewsCurator
+                        items={curatedNews}
+                        onChange={setCuratedNews}
+                        onExclude={handleExcludeNews}
+                        disabled={result.loading}
+                      />
+                    </ScrollArea>
+                  )}
+                  {result.steps.news?.status === 'running' && streamingNews.length > 0 && (
+                    <ScrollArea className="h-[400px]">
+                      <div className="space-y-4 p-4">
+                        {streamingNews.map((item, idx) => (
+                          <div
+                            key={idx}
+                            className="space-y-2 rounded-lg border border-purple-800/30 bg-slate-800/50 p-3"
+                          >
+                            <div className="flex items-start justify-between gap-2">
+                              <h4 className="text-sm font-semibold text-purple-300 line-clamp-2">
+                                {item.headline}
+                              </h4>
+                              <span className="flex-shrink-0 rounded bg-purple-900/50 px-2 py-1 text-xs text-purple-200">
+                                {(item.relevance_score * 100).toFixed(0)}%
+                              </span>
+                            </div>
+                            <p className="text-xs text-gray-400">{item.source}</p>
+                            <p className="text-xs text-gray-300 line-clamp-2">
+                              {item.summary}
+                            </p>
+                            <p className="text-xs font-semibold text-purple-400">
+                              {item.key_takeaway}
+                            </p>
                           </div>
-                          <p className="text-xs text-gray-400">{item.source}</p>
-                          <p className="text-xs text-gray-300 line-clamp-2">
-                            {item.summary}
-                          </p>
-                          <p className="text-xs font-semibold text-purple-400">
-                            {item.key_takeaway}
-                          </p>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            {/* Center: Generate Panel */}
+            <div className="col-span-1 flex flex-col gap-8">
+              {/* Generate Button Panel */}
+              <Card className="border-purple-900/50 bg-slate-900">
+                <CardHeader className="border-b border-purple-900/30">
+                  <CardTitle className="text-xl font-bold text-white">
+                    Generator
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4 pt-6">
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-500 uppercase">Voice</p>
+                    <div className="flex gap-2">
+                      <Select value={voice} onValueChange={setVoice} disabled={result.loading}>
+                        <SelectTrigger className="border-slate-700 bg-slate-800 text-white">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={AGENT_VOICE}>Personality agent</SelectItem>
+                          {personas.map((persona) => (
+                            <SelectItem key={persona.id} value={persona.id}>
+                              {persona.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        title="Edit profile"
+                        disabled={result.loading || !editableProfile}
+                        onClick={() => setEditingPersona(true)}
+                        className="flex-shrink-0 border-slate-700 text-gray-300 hover:bg-slate-800"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      {selectedPersona && (
+                        <Button
+                          size="icon"
+                          variant="outline"
+                          title="Delete persona"
+                          disabled={result.loading}
+                          onClick={handleDeletePersona}
+                          className="flex-shrink-0 border-red-800 text-red-300 hover:bg-red-900/20"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-500 uppercase">Agents</p>
+                    {AGENT_STEP_ROLES.map((role) => (
+                      <div key={role} className="flex items-center gap-2">
+                        <Label className="w-20 flex-shrink-0 text-xs text-gray-300">
+                          {AGENT_ROLES[role]}
+                        </Label>
+                        <Select
+                          value={selectedAgents.agents[role].id}
+                          onValueChange={(id) =>
+                            setAgentSelection((prev) => ({ ...prev, [role]: id }))
+                          }
+                          disabled={result.loading}
+                        >
+                          <SelectTrigger className="h-8 border-slate-700 bg-slate-800 text-xs text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {agentsForStep(appConfig, role).map((agent) => (
+                              <SelectItem key={agent.id} value={agent.id}>
+                                {agent.name}
+                                {agent.id === appConfig.default_agents[role] && ' (default)'}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    ))}
+                  </div>
+
+                  <div className="space-y-2">
+                    <p className="text-xs text-gray-500 uppercase">Platforms</p>
+                    <div className="grid grid-cols-2 gap-2">
+                      <div className="flex items-center gap-2">
+                        <Checkbox id="platform-discord" checked disabled />
+                        <Label htmlFor="platform-discord" className="text-xs text-gray-300">
+                          Discord
+                        </Label>
+                      </div>
+                      {EXTRA_PLATFORM_IDS.map((id) => (
+                        <div key={id} className="flex items-center gap-2">
+                          <Checkbox
+                            id={`platform-${id}`}
+                            checked={targetPlatforms.includes(id)}
+                            disabled={result.loading}
+                            onCheckedChange={(checked) =>
+                              setTargetPlatforms((prev) =>
+                                checked === true
+                                  ? EXTRA_PLATFORM_IDS.filter((entry) => entry === id || prev.includes(entry))
+                                  : prev.filter((entry) => entry !== id)
+                              )
+                            }
+                          />
+                          <Label htmlFor={`platform-${id}`} className="text-xs text-gray-300">
+                            {PLATFORMS[id].label}
+                          </Label>
                         </div>
                       ))}
                     </div>
-                  </ScrollArea>
-                )}
-              </CardContent>
-            </Card>
-          </div>
+                  </div>
 
-          {/* Center: Generate Panel */}
-          <div className="col-span-1 flex flex-col gap-8">
-            {/* Generate Button Panel */}
-            <Card className="border-purple-900/50 bg-slate-900">
-              <CardHeader className="border-b border-purple-900/30">
-                <CardTitle className="text-xl font-bold text-white">
-                  Generator
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-4 pt-6">
-                <Button
-                  onClick={handleGenerateDraft}
-                  disabled={result.loading}
-                  className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white font-semibold h-12"
-                >
-                  <Zap className="mr-2 h-5 w-5" />
-                  {result.loading ? 'Generating...' : 'Generate Draft'}
-                </Button>
-
-                {result.draft && (
-                  <>
+                  <Button
+                    onClick={handleGenerateDraft}
+                    disabled={result.loading}
+                    className="w-full bg-gradient-to-r from-purple-600 to-blue-600 hover:from-purple-700 hover:to-blue-700 text-white font-semibold h-12"
+                  >
+                    <Zap className="mr-2 h-5 w-5" />
+                    {result.loading ? 'Generating...' : 'Generate Draft'}
+                  </Button>
+
+                  <Button
+                    onClick={() => setImporting(true)}
+                    disabled={result.loading}
+                    variant="outline"
+                    className="w-full border-slate-700 text-gray-300 hover:bg-slate-800"
+                  >
+                    <Upload className="mr-2 h-4 w-4" />
+                    Import Draft
+                  </Button>
+                  {importNotice && <p className="text-xs text-green-400">{importNotice}</p>}
+
+                  {result.news && curatedNews.length > 0 && (
                     <Button
-                      onClick={handleRegenerateDraft}
-                      disabled={result.loading}
+                      onClick={handleDraftFromSelected}
+                      disabled={result.loading || !selectedNews.length}
                       variant="outline"
                       className="w-full border-purple-700 text-purple-300 hover:bg-purple-900/20"
                     >
-                      <RefreshCw className="mr-2 h-4 w-4" />
-                      Regenerate
-                    </Button>
-                    <Button
-                      onClick={handleCopyDraft}
-                      variant="outline"
-                      className="w-full border-blue-700 text-blue-300 hover:bg-blue-900/20"
-                    >
-                      <Copy className="mr-2 h-4 w-4" />
-                      {copied ? 'Copied!' : 'Copy Draft'}
+                      <ListChecks className="mr-2 h-4 w-4" />
+                      Draft from Selected ({selectedNews.length})
                     </Button>
+                  )}
+
+                  {result.draft && (
+                    <>
+                      <Button
+                        onClick={handleRegenerateDraft}
+                        disabled={result.loading}
+                        variant="outline"
+                        className="w-full border-purple-700 text-purple-300 hover:bg-purple-900/20"
+                      >
+                        <RefreshCw className="mr-2 h-4 w-4" />
+                        Regenerate
+                      </Button>
+                      <Button
+                        onClick={handleCopyDraft}
+                        variant="outline"
+                        className="w-full border-blue-700 text-blue-300 hover:bg-blue-900/20"
+                      >
+                        <Copy className="mr-2 h-4 w-4" />
+                        {draftParts.length > 1
+                          ? copiedPart !== null
+                            ? `Copied ${copiedPart + 1}/${draftParts.length}!`
+                            : `Copy Part ${(copyIndex % draftParts.length) + 1}/${draftParts.length}`
+                          : copiedPart !== null
+                            ? 'Copied!'
+                            : 'Copy Draft'}
+                      </Button>
+                      <ExportMenu
+                        onExport={handleExport}
+                        unavailable={exportNews.length ? [] : ['csv']}
+                      />
+                      <Button
+                        onClick={() => setPublishing(true)}
+                        disabled={result.loading}
+                        variant="outline"
+                        className="w-full border-indigo-700 text-indigo-300 hover:bg-indigo-900/20"
+                      >
+                        <Send className="mr-2 h-4 w-4" />
+                        Publish to Discord
+                      </Button>
+                      <Button
+                        onClick={() => setScheduling(true)}
+                        disabled={result.loading}
+                        variant="outline"
+                        className="w-full border-indigo-700 text-indigo-300 hover:bg-indigo-900/20"
+                      >
+                        <CalendarClock className="mr-2 h-4 w-4" />
+                        Schedule
+                      </Button>
+                    </>
+                  )}
+
+                  {Object.keys(result.steps).length > 0 && (
+                    <WorkflowStepper
+                      steps={
+                        createDiscordDraftPipeline(
+                          pipelineOptions.agent_ids ?? selectedAgents.agent_ids,
+                          pipelineOptions
+                        ).steps
+                      }
+                      runs={result.steps}
+                      onRetry={handleRetryStep}
+                      disabled={result.loading}
+                    />
+                  )}
+                  {pipelineOptions.prompt_versions && (
+                    <p className="text-xs text-gray-500">
+                      Prompts:{' '}
+                      {Object.entries(pipelineOptions.prompt_versions)
+                        .filter(([id]) => isPromptTemplateId(id))
+                        .map(([id, version]) => `${PROMPT_TEMPLATES[id as PromptTemplateId].label} v${version}`)
+                        .join(' · ')}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Personality Profile Panel */}
+              {result.personality && (
+                <Card className="border-purple-900/50 bg-slate-900">
+                  <CardHeader className="flex flex-row items-center justify-between space-y-0 border-b border-purple-900/30">
+                    <CardTitle className="text-lg font-bold text-white">
+                      Personality Profile
+                    </CardTitle>
                     <Button
-                      onClick={handleSaveDraft}
-                      variant="outline"
-                      className="w-full border-green-700 text-green-300 hover:bg-green-900/20"
+                      size="sm"
+                      variant="ghost"
+                      disabled={result.loading}
+                      onClick={() => setEditingPersona(true)}
+                      className="h-7 text-purple-300 hover:bg-purple-900/20"
                     >
-                      <Save className="mr-2 h-4 w-4" />
-                      Save JSON
+                      <Pencil className="mr-1 h-3 w-3" />
+                      Edit
                     </Button>
-                  </>
-                )}
-              </CardContent>
-            </Card>
+                  </CardHeader>
+                  <CardContent className="space-y-3 pt-4 text-sm">
+                    <div>
+                      <p className="text-xs text-gray-500 uppercase">Tone</p>
+                      <p className="text-gray-300">
+                        {result.personality.personality_profile.tone}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 uppercase">Formality</p>
+                      <p className="text-gray-300">
+                        {result.personality.personality_profile.formality_level}
+                      </p>
+                    </div>
+                    <div>
+                      <p className="text-xs text-gray-500 uppercase">
+                        Key Phrases
+                      </p>
+                      <div className="flex flex-wrap gap-2 mt-1">
+                        {result.personality.personality_profile.key_phrases.map(
+                          (phrase, idx) => (
+                            <span
+                              key={idx}
+                              className="px-2 py-1 rounded text-xs bg-purple-900/40 text-purple-300"
+                            >
+                              {phrase}
+                            </span>
+                          )
+                        )}
+                      </div>
+                    </div>
+                    {result.personality.analysis_summary && (
+                      <div>
+                        <p className="text-xs text-gray-500 uppercase">Source</p>
+                        <p className="text-gray-300">{result.personality.analysis_summary}</p>
+                      </div>
+                    )}
+                    <div>
+                      <p className="text-xs text-gray-500 uppercase">Confidence</p>
+                      <p className="text-purple-300 font-semibold">
+                        {(result.personality.confidence * 100).toFixed(0)}%
+                      </p>
+                    </div>
+                  </CardContent>
+                </Card>
+              )}
+            </div>
 
-            {/* Personality Profile Panel */}
-            {result.personality && (
-              <Card className="border-purple-900/50 bg-slate-900">
-                <CardHeader className="border-b border-purple-900/30">
-                  <CardTitle className="text-lg font-bold text-white">
-                    Personality Profile
+            {/* Right: Discord Draft Editor */}
+            <div className="col-span-2">
+              <Card className="border-blue-900/50 bg-slate-900 h-full flex flex-col">
+                <CardHeader className="flex flex-row items-center justify-between space-y-0 border-b border-blue-900/30">
+                  <CardTitle className="text-xl font-bold text-white">
+                    Discord Draft
                   </CardTitle>
-                </CardHeader>
-                <CardContent className="space-y-3 pt-4 text-sm">
-                  <div>
-                    <p className="text-xs text-gray-500 uppercase">Tone</p>
-                    <p className="text-gray-300">
-                      {result.personality.personality_profile.tone}
-                    </p>
-                  </div>
-                  <div>
-                    <p className="text-xs text-gray-500 uppercase">Formality</p>
-                    <p className="text-gray-300">
-                      {result.personality.personality_profile.formality_level}
-                    </p>
+                  <div className="flex gap-2">
+                    {draftVersions.length > 0 && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setShowHistory(true)}
+                        className="h-8 border-slate-700 bg-slate-800 text-xs text-gray-300 hover:bg-slate-700"
+                      >
+                        <History className="mr-1 h-3 w-3" />
+                        History ({draftVersions.length})
+                      </Button>
+                    )}
+                    <Select value={sendMode} onValueChange={(value) => setSendMode(value as SendMode)}>
+                      <SelectTrigger className="h-8 w-36 border-slate-700 bg-slate-800 text-xs text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="text">Text only</SelectItem>
+                        <SelectItem value="embeds">Embeds only</SelectItem>
+                        <SelectItem value="both">Text + embeds</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={String(messageLimit)}
+                      onValueChange={(value) => setMessageLimit(Number(value))}
+                    >
+                      <SelectTrigger className="h-8 w-44 border-slate-700 bg-slate-800 text-xs text-white">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={String(DISCORD_MESSAGE_LIMIT)}>
+                          {DISCORD_MESSAGE_LIMIT} chars (standard)
+                        </SelectItem>
+                        <SelectItem value={String(DISCORD_NITRO_MESSAGE_LIMIT)}>
+                          {DISCORD_NITRO_MESSAGE_LIMIT} chars (Nitro)
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
                   </div>
-                  <div>
-                    <p className="text-xs text-gray-500 uppercase">
-                      Key Phrases
-                    </p>
-                    <div className="flex flex-wrap gap-2 mt-1">
-                      {result.personality.personality_profile.key_phrases.map(
-                        (phrase, idx) => (
-                          <span
-                            key={idx}
-                            className="px-2 py-1 rounded text-xs bg-purple-900/40 text-purple-300"
-                          >
-                            {phrase}
-                          </span>
-                        )
-                      )}
+                </CardHeader>
+                <CardContent className="flex-1 p-0 flex flex-col">
+                  {result.steps.draft?.status === 'running' && streamingDraft && (
+                    <div className="p-4">
+                      <div className="rounded-lg bg-[#313338] p-4 border border-slate-700">
+                        <DiscordMarkdown content={streamingDraft} />
+                      </div>
                     </div>
-                  </div>
-                  <div>
-                    <p className="text-xs text-gray-500 uppercase">Confidence</p>
-                    <p className="text-purple-300 font-semibold">
-                      {(result.personality.confidence * 100).toFixed(0)}%
-                    </p>
-                  </div>
-                </CardContent>
-              </Card>
-            )}
-          </div>
+                  )}
+                  {result.steps.draft?.status === 'running' && !streamingDraft && (
+                    <div className="flex items-center justify-center p-8">
+                      <Spinner className="h-6 w-6" />
+                    </div>
+                  )}
+                  {result.steps.draft?.status !== 'running' && !result.draft && (
+                    <div className="flex-1 flex items-center justify-center p-6 text-center text-gray-400">
+                      Draft preview will appear here
+                    </div>
+                  )}
+                  {result.draft && result.steps.draft?.status !== 'running' && (
+                    <Tabs value={draftTab} onValueChange={setDraftTab} className="flex-1 flex flex-col">
+                      <TabsList className="mx-4 mt-4 bg-slate-800 border border-slate-700">
+                        <TabsTrigger value="editor">Editor</TabsTrigger>
+                        <TabsTrigger value="metrics">Metrics</TabsTrigger>
+                        <TabsTrigger value="variants">
+                          Variants{variantRuns.length > 0 && ` (${variantRuns.length})`}
+                        </TabsTrigger>
+                        <TabsTrigger value="platforms">
+                          Platforms{draftedPlatforms.length > 0 && ` (${draftedPlatforms.length})`}
+                        </TabsTrigger>
+                      </TabsList>
 
-          {/* Right: Discord Draft Preview */}
-          <div className="col-span-1">
-            <Card className="border-blue-900/50 bg-slate-900 h-full flex flex-col">
-              <CardHeader className="border-b border-blue-900/30">
-                <CardTitle className="text-xl font-bold text-white">
-                  Discord Draft
-                </CardTitle>
-              </CardHeader>
-              <CardContent className="flex-1 p-0 flex flex-col">
-                {result.loading && (
-                  <div className="flex items-center justify-center p-8">
-                    <Spinner className="h-6 w-6" />
-                  </div>
-                )}
-                {!result.loading && !result.draft && (
-                  <div className="flex-1 flex items-center justify-center p-6 text-center text-gray-400">
-                    Draft preview will appear here
-                  </div>
-                )}
-                {result.draft && (
-                  <Tabs defaultValue="preview" className="flex-1 flex flex-col">
-                    <TabsList className="mx-4 mt-4 bg-slate-800 border border-slate-700">
-                      <TabsTrigger value="preview">Preview</TabsTrigger>
-                      <TabsTrigger value="metrics">Metrics</TabsTrigger>
-                    </TabsList>
-
-                    <TabsContent value="preview" className="flex-1 p-4">
-                      <ScrollArea className="h-full">
-                        <div className="rounded-lg bg-slate-800 p-4 border border-slate-700 space-y-4">
-                          <div className="space-y-3 text-sm text-white leading-relaxed whitespace-pre-wrap">
-                            {result.draft.draft_message}
-                          </div>
-                          <div className="border-t border-slate-700 pt-3 text-xs text-gray-400">
-                            <p className="font-semibold text-gray-300 mb-1">
-                              Notes:
-                            </p>
-                            <p>{result.draft.generation_notes}</p>
-                          </div>
+                      <TabsContent value="editor" className="flex-1 p-4 space-y-4">
+                        <DraftEditor
+                          value={result.draft.draft_message}
+                          onChange={handleDraftChange}
+                          limit={messageLimit}
+                          embeds={builtEmbeds.embeds}
+                          showText={sendMode !== 'embeds'}
+                          disabled={result.loading}
+                        />
+                        {builtEmbeds.warnings.map((warning, idx) => (
+                          <p key={idx} className="text-xs text-amber-400">
+                            {warning}
+                          </p>
+                        ))}
+                        <div className="rounded-lg bg-slate-800 p-3 border border-slate-700 text-xs text-gray-400">
+                          <p className="font-semibold text-gray-300 mb-1">
+                            Notes:
+                          </p>
+                          <p>{result.draft.generation_notes}</p>
                         </div>
-                      </ScrollArea>
-                    </TabsContent>
-
-                    <TabsContent value="metrics" className="flex-1 p-4">
-                      <ScrollArea className="h-full">
-                        <div className="space-y-3">
-                          <MetricItem
-                            label="Characters"
-                            value={result.draft.metadata.character_count}
-                          />
-                          <MetricItem
-                            label="Emoji Count"
-                            value={result.draft.metadata.emoji_count}
-                          />
-                          <MetricBar
-                            label="Tone Match"
-                            value={result.draft.metadata.tone_match}
-                          />
-                          <MetricBar
-                            label="Personality Alignment"
-                            value={result.draft.metadata.personality_alignment}
-                          />
-                          <MetricBar
-                            label="Engagement Potential"
-                            value={result.draft.metadata.engagement_potential}
-                          />
-                          <MetricBar
-                            label="Overall Confidence"
-                            value={result.draft.confidence}
-                          />
-                          <div className="rounded-lg bg-slate-800 p-3 border border-slate-700">
-                            <p className="text-xs text-gray-500 uppercase mb-2">
-                              Sources
-                            </p>
-                            <div className="flex flex-wrap gap-2">
-                              {result.draft.metadata.news_sources_used.map(
-                                (source, idx) => (
-                                  <span
-                                    key={idx}
-                                    className="px-2 py-1 rounded text-xs bg-blue-900/40 text-blue-300"
-                                  >
-                                    {source}
-                                  </span>
-                                )
-                              )}
+                      </TabsContent>
+
+                      <TabsContent value="variants" className="flex-1 p-4">
+                        <DraftVariants
+                          runs={variantRuns}
+                          ranked={rankedVariants}
+                          weights={rankingWeights}
+                          onWeightsChange={setRankingWeights}
+                          onGenerate={handleGenerateVariants}
+                          onPromote={handlePromoteVariant}
+                          disabled={result.loading || !result.news || !result.personality}
+                        />
+                      </TabsContent>
+
+                      <TabsContent value="platforms" className="flex-1 p-4">
+                        <PlatformDrafts
+                          platforms={draftedPlatforms}
+                          drafts={platformDrafts}
+                          steps={result.steps}
+                        />
+                      </TabsContent>
+
+                      <TabsContent value="metrics" className="flex-1 p-4">
+                        <ScrollArea className="h-full">
+                          <div className="space-y-3">
+                            {draftEdited && (
+                              <p className="text-xs text-gray-500">
+                                Edited by hand: reported values and scores describe the
+                                generated draft.
+                              </p>
+                            )}
+                            {mismatches.length > 0 && (
+                              <div className="flex items-start gap-2 rounded-lg border border-amber-600/50 bg-amber-950/20 p-3 text-xs text-amber-300">
+                                <AlertTriangle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                                <p>
+                                  The agent&apos;s reported{' '}
+                                  {mismatches.map((m) => m.field.replace('_', ' ')).join(' and ')}{' '}
+                                  {mismatches.length > 1 ? "don't" : "doesn't"} match the draft.
+                                </p>
+                              </div>
+                            )}
+                            {draftAnalysis && (
+                              <div className="grid grid-cols-2 gap-3">
+                                <MetricItem
+                                  label="Characters"
+                                  value={draftAnalysis.character_count}
+                                  reported={result.draft.metadata.character_count}
+                                />
+                                <MetricItem
+                                  label="Emoji Count"
+                                  value={draftAnalysis.emoji_count}
+                                  reported={result.draft.metadata.emoji_count}
+                                />
+                                <MetricItem label="Links" value={draftAnalysis.link_count} />
+                                <MetricItem label="Mentions" value={draftAnalysis.mention_count} />
+                                <MetricItem label="Lines" value={draftAnalysis.line_count} />
+                                <MetricItem
+                                  label="Reading Time"
+                                  value={formatReadingTime(draftAnalysis.reading_time_seconds)}
+                                />
+                              </div>
+                            )}
+                            <MetricBar
+                              label="Tone Match"
+                              value={result.draft.metadata.tone_match}
+                            />
+                            <MetricBar
+                              label="Personality Alignment"
+                              value={result.draft.metadata.personality_alignment}
+                            />
+                            <MetricBar
+                              label="Engagement Potential"
+                              value={result.draft.metadata.engagement_potential}
+                            />
+                            <MetricBar
+                              label="Overall Confidence"
+                              value={result.draft.confidence}
+                            />
+                            <div className="rounded-lg bg-slate-800 p-3 border border-slate-700">
+                              <p className="text-xs text-gray-500 uppercase mb-2">
+                                Sources
+                              </p>
+                              <div className="flex flex-wrap gap-2">
+                                {result.draft.metadata.news_sources_used.map(
+                                  (source, idx) => (
+                                    <span
+                                      key={idx}
+                                      className="px-2 py-1 rounded text-xs bg-blue-900/40 text-blue-300"
+                                    >
+                                      {source}
+                                    </span>
+                                  )
+                                )}
+                              </div>
                             </div>
                           </div>
-                        </div>
-                      </ScrollArea>
-                    </TabsContent>
-                  </Tabs>
-                )}
-              </CardContent>
-            </Card>
+                        </ScrollArea>
+                      </TabsContent>
+                    </Tabs>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
           </div>
         </div>
-      </div>
-    </div>
+
+        {/* Publish */}
+        <PublishDialog
+          open={publishing}
+          onOpenChange={setPublishing}
+          messages={sendMode === 'embeds' ? [] : webhookParts}
+          embeds={builtEmbeds.embeds}
+        />
+
+        {/* Import */}
+        <DraftImport open={importing} onOpenChange={setImporting} onImport={handleImportDraft} />
+
+        {/* Draft History */}
+        <DraftHistory
+          open={showHistory}
+          onOpenChange={setShowHistory}
+          versions={draftVersions}
+          activeId={activeVersion?.id ?? null}
+          onRestore={handleRestoreVersion}
+          disabled={result.loading}
+        />
+
+        {/* Schedule */}
+        <ScheduleDialog
+          open={scheduling}
+          onOpenChange={setScheduling}
+          messages={sendMode === 'embeds' ? [] : webhookParts}
+          embeds={builtEmbeds.embeds}
+          persona={selectedPersona}
+        />
+
+        {/* Persona Editor */}
+        <Dialog open={editingPersona} onOpenChange={setEditingPersona}>
+          <DialogContent className="max-h-[90vh] max-w-2xl overflow-y-auto border-purple-900/50 bg-slate-900 text-white">
+            <DialogHeader>
+              <DialogTitle>Edit Personality Profile</DialogTitle>
+              <DialogDescription>
+                Use the edited profile for this draft, or save it as a persona to skip the
+                personality agent next time.
+              </DialogDescription>
+            </DialogHeader>
+            {editableProfile && (
+              <PersonaEditor
+                key={voice}
+                profile={editableProfile}
+                name={selectedPersona?.name}
+                onApply={(profile) => handleApplyProfile(profile)}
+                onSave={handleSavePersona}
+              />
+            )}
+          </DialogContent>
+        </Dialog>
+      </SidebarInset>
+    </SidebarProvider>
   )
 }
 
-// Metric Item Component
+// Metric Item Component (with the agent's self-reported value when it has one)
 function MetricItem({
   label,
   value,
+  reported,
 }: {
   label: string
   value: string | number
+  reported?: number
 }) {
+  const mismatch = reported !== undefined && reported !== value
+
   return (
-    <div className="rounded-lg bg-slate-800 p-3 border border-slate-700">
+    <div
+      className={`rounded-lg bg-slate-800 p-3 border ${
+        mismatch ? 'border-amber-600/60' : 'border-slate-700'
+      }`}
+    >
       <p className="text-xs text-gray-500 uppercase">{label}</p>
       <p className="text-lg font-semibold text-white mt-1">{value}</p>
+      {reported !== undefined && (
+        <p className={`text-xs ${mismatch ? 'text-amber-400' : 'text-gray-500'}`}>
+          Agent reported {reported}
+        </p>
+      )}
     </div>
   )
 }
@@ -0,0 +1,393 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, ArrowLeft, FileText, RotateCcw, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { Textarea } from '@/components/ui/textarea'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { diffStats, diffWords } from '@/utils/draftHistory'
+import { PLATFORMS, PLATFORM_IDS, type PlatformId } from '@/utils/platforms'
+import {
+  PROMPT_VARIABLES,
+  activeVersion,
+  builtInTemplates,
+  renderPromptPreview,
+  validatePromptTemplate,
+  type PromptTemplateId,
+  type PromptTemplateState,
+} from '@/utils/promptTemplates'
+
+export default function PromptsPage() {
+  const [templates, setTemplates] = useState<PromptTemplateState[]>(builtInTemplates)
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>('draft')
+  // Editor text per template, kept while switching between templates
+  const [drafts, setDrafts] = useState<Partial<Record<PromptTemplateId, string>>>({})
+  const [note, setNote] = useState('')
+  const [previewPlatform, setPreviewPlatform] = useState<PlatformId>('discord')
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const editorRef = useRef<HTMLTextAreaElement>(null)
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      const response = await fetch('/api/prompts')
+      const data = await response.json()
+      if (!data.success) throw new Error(data.error || 'Failed to load prompt templates')
+      setTemplates(data.templates)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load prompt templates')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadTemplates()
+  }, [loadTemplates])
+
+  const template = templates.find((entry) => entry.id === selectedId) ?? templates[0]
+  const active = activeVersion(template)
+  const body = drafts[template.id] ?? active.body
+  const edited = body !== active.body
+  const issues = validatePromptTemplate(template.id, body)
+  const preview = useMemo(
+    () => renderPromptPreview(body, { platform: previewPlatform }),
+    [body, previewPlatform]
+  )
+  const changes = useMemo(() => diffWords(active.body, body), [active.body, body])
+  const stats = diffStats(changes)
+
+  function setBody(text: string) {
+    setDrafts((prev) => ({ ...prev, [template.id]: text }))
+  }
+
+  function discardEdits() {
+    setDrafts((prev) => {
+      const next = { ...prev }
+      delete next[template.id]
+      return next
+    })
+  }
+
+  // Insert {{name}} at the cursor, keeping the cursor after it
+  function insertVariable(name: string) {
+    const editor = editorRef.current
+    const token = `{{${name}}}`
+    const start = editor?.selectionStart ?? body.length
+    const end = editor?.selectionEnd ?? body.length
+    setBody(body.slice(0, start) + token + body.slice(end))
+    requestAnimationFrame(() => {
+      editor?.focus()
+      editor?.setSelectionRange(start + token.length, start + token.length)
+    })
+  }
+
+  function replaceTemplate(updated: PromptTemplateState) {
+    setTemplates((prev) => prev.map((entry) => (entry.id === updated.id ? updated : entry)))
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/prompts', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ template_id: template.id, body, note }),
+      })
+      const data = await response.json()
+      if (!data.success) throw new Error(data.error || 'Failed to save template')
+      replaceTemplate(data.template)
+      discardEdits()
+      setNote('')
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save template')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  async function handleActivate(version: number) {
+    try {
+      const response = await fetch(`/api/prompts/${template.id}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ active_version: version }),
+      })
+      const data = await response.json()
+      if (!data.success) throw new Error(data.error || 'Failed to activate version')
+      replaceTemplate(data.template)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to activate version')
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      {/* Header */}
+      <div className="border-b border-purple-900/50 bg-gradient-to-r from-slate-900 to-slate-800">
+        <div className="mx-auto flex max-w-7xl items-end justify-between px-8 py-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">Prompt Templates</h1>
+            <p className="text-gray-400">
+              The prompts sent to each agent. Saving creates a new version; runs use the active one.
+            </p>
+          </div>
+          <Link href="/" className="flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200">
+            <ArrowLeft className="h-4 w-4" />
+            Back to generator
+          </Link>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-8 py-8">
+        {error && (
+          <div className="mb-8 flex items-start gap-4 rounded-lg border border-red-500/50 bg-red-950/20 p-4">
+            <AlertCircle className="mt-0.5 h-5 w-5 text-red-500 flex-shrink-0" />
+            <div>
+              <h3 className="font-semibold text-red-400">Error</h3>
+              <p className="text-sm text-red-300">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-4 gap-8">
+          {/* Left: Templates */}
+          <Card className="col-span-1 h-fit border-purple-900/50 bg-slate-900">
+            <CardHeader className="border-b border-purple-900/30">
+              <CardTitle className="text-xl font-bold text-white">Templates</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 pt-6">
+              {templates.map((entry) => (
+                <button
+                  key={entry.id}
+                  type="button"
+                  onClick={() => setSelectedId(entry.id)}
+                  className={cn(
+                    'w-full rounded-lg border p-3 text-left transition-colors',
+                    entry.id === template.id
+                      ? 'border-purple-600 bg-purple-900/30'
+                      : 'border-slate-700 bg-slate-800/50 hover:border-purple-800'
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-semibold text-white">{entry.label}</span>
+                    <span className="text-xs text-gray-400">v{entry.active_version}</span>
+                  </div>
+                  <p className="mt-1 text-xs text-gray-400">{entry.description}</p>
+                  {drafts[entry.id] !== undefined && drafts[entry.id] !== activeVersion(entry).body && (
+                    <p className="mt-1 text-xs text-amber-400">Unsaved changes</p>
+                  )}
+                </button>
+              ))}
+            </CardContent>
+          </Card>
+
+          {/* Center: Editor and preview */}
+          <Card className="col-span-2 border-purple-900/50 bg-slate-900">
+            <CardHeader className="border-b border-purple-900/30">
+              <CardTitle className="flex items-center gap-2 text-xl font-bold text-white">
+                <FileText className="h-5 w-5" />
+                {template.label}
+                <span className="text-sm font-normal text-gray-400">
+                  editing from v{active.version}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 pt-6">
+              {loading && <p className="text-sm text-gray-500">Loading...</p>}
+
+              <div className="flex flex-wrap gap-2">
+                {template.variables.map((name) => (
+                  <button
+                    key={name}
+                    type="button"
+                    title={PROMPT_VARIABLES[name].description}
+                    onClick={() => insertVariable(name)}
+                    className={cn(
+                      'rounded border px-2 py-0.5 font-mono text-xs',
+                      template.required.includes(name)
+                        ? 'border-purple-700 text-purple-300 hover:bg-purple-900/30'
+                        : 'border-slate-700 text-gray-300 hover:bg-slate-800'
+                    )}
+                  >
+                    {`{{${name}}}`}
+                  </button>
+                ))}
+              </div>
+
+              <Textarea
+                ref={editorRef}
+                value={body}
+                onChange={(event) => setBody(event.target.value)}
+                rows={10}
+                spellCheck={false}
+                className="border-slate-700 bg-slate-800 font-mono text-sm text-white"
+              />
+
+              {issues.length > 0 && (
+                <ul className="space-y-1 text-xs text-red-400">
+                  {issues.map((issue) => (
+                    <li key={issue} className="flex items-center gap-2">
+                      <AlertCircle className="h-3.5 w-3.5" />
+                      {issue}
+                    </li>
+                  ))}
+                </ul>
+              )}
+
+              <div className="flex gap-2">
+                <Input
+                  value={note}
+                  onChange={(event) => setNote(event.target.value)}
+                  placeholder="What changed (optional)"
+                  className="border-slate-700 bg-slate-800 text-white"
+                />
+                <Button
+                  onClick={handleSave}
+                  disabled={!edited || issues.length > 0 || saving}
+                  className="flex-shrink-0 bg-purple-600 text-white hover:bg-purple-700"
+                >
+                  <Save className="mr-2 h-4 w-4" />
+                  Save as v{template.versions.length + 1}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={discardEdits}
+                  disabled={!edited}
+                  className="flex-shrink-0 border-slate-700 text-gray-300 hover:bg-slate-800"
+                >
+                  Discard
+                </Button>
+              </div>
+
+              <Tabs defaultValue="preview">
+                <div className="flex items-center justify-between gap-2">
+                  <TabsList className="bg-slate-800 border border-slate-700">
+                    <TabsTrigger value="preview">Preview</TabsTrigger>
+                    <TabsTrigger value="changes">
+                      Changes{edited && ` (+${stats.added} -${stats.removed})`}
+                    </TabsTrigger>
+                  </TabsList>
+                  <Select
+                    value={previewPlatform}
+                    onValueChange={(value) => setPreviewPlatform(value as PlatformId)}
+                  >
+                    <SelectTrigger className="h-8 w-36 border-slate-700 bg-slate-800 text-xs text-white">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {PLATFORM_IDS.map((id) => (
+                        <SelectItem key={id} value={id}>
+                          {PLATFORMS[id].label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <TabsContent value="preview">
+                  <ScrollArea className="h-72 rounded-lg border border-slate-700 bg-slate-800 p-3">
+                    <p className="whitespace-pre-wrap break-words text-sm text-gray-200">{preview}</p>
+                  </ScrollArea>
+                  <p className="mt-2 text-xs text-gray-500">
+                    Rendered with example news and profile; runs fill in the real step inputs.
+                  </p>
+                </TabsContent>
+                <TabsContent value="changes">
+                  <ScrollArea className="h-72 rounded-lg border border-slate-700 bg-slate-800 p-3">
+                    {edited ? (
+                      <p className="whitespace-pre-wrap break-words text-sm text-gray-200">
+                        {changes.map((segment, idx) => (
+                          <span
+                            key={idx}
+                            className={cn(
+                              segment.type === 'added' && 'bg-green-900/60 text-green-200',
+                              segment.type === 'removed' && 'bg-red-900/50 text-red-300 line-through'
+                            )}
+                          >
+                            {segment.text}
+                          </span>
+                        ))}
+                      </p>
+                    ) : (
+                      <p className="text-sm text-gray-500">No changes from v{active.version}.</p>
+                    )}
+                  </ScrollArea>
+                </TabsContent>
+              </Tabs>
+            </CardContent>
+          </Card>
+
+          {/* Right: Versions */}
+          <Card className="col-span-1 h-fit border-purple-900/50 bg-slate-900">
+            <CardHeader className="border-b border-purple-900/30">
+              <CardTitle className="text-xl font-bold text-white">Versions</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 pt-6">
+              {[...template.versions].reverse().map((version) => {
+                const isActive = version.version === template.active_version
+                return (
+                  <div
+                    key={version.version}
+                    className={cn(
+                      'rounded-lg border p-3 text-sm',
+                      isActive ? 'border-purple-700 bg-purple-900/20' : 'border-slate-700 bg-slate-800/50'
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="font-semibold text-white">v{version.version}</span>
+                      {isActive && (
+                        <Badge className="border-purple-700 bg-purple-900/40 text-purple-300">Active</Badge>
+                      )}
+                    </div>
+                    <p className="mt-1 text-xs text-gray-400">
+                      {version.created_at ? new Date(version.created_at).toLocaleString() : 'Built in'}
+                    </p>
+                    {version.note && <p className="mt-1 text-xs text-gray-300">{version.note}</p>}
+                    <div className="mt-2 flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => setBody(version.body)}
+                        className="h-7 px-2 text-xs text-gray-300 hover:bg-slate-800 hover:text-white"
+                      >
+                        Load
+                      </Button>
+                      {!isActive && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleActivate(version.version)}
+                          className="h-7 px-2 text-xs text-purple-300 hover:bg-purple-900/30"
+                        >
+                          <RotateCcw className="mr-1 h-3 w-3" />
+                          {version.version < template.active_version ? 'Roll back' : 'Activate'}
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
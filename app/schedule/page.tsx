@@ -0,0 +1,239 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, ArrowLeft, CalendarClock, RefreshCw, X } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { Calendar } from '@/components/ui/calendar'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { cn } from '@/lib/utils'
+import { dayKeyInTimeZone, formatInTimeZone, getLocalTimeZone } from '@/utils/timezone'
+import type { ScheduledPost, ScheduledPostStatus } from '@/utils/scheduler'
+
+const REFRESH_INTERVAL_MS = 30_000
+
+const STATUS_STYLES: Record<ScheduledPostStatus, string> = {
+  scheduled: 'border-purple-700 bg-purple-900/40 text-purple-300',
+  publishing: 'border-blue-700 bg-blue-900/40 text-blue-300',
+  published: 'border-green-700 bg-green-900/40 text-green-300',
+  failed: 'border-red-700 bg-red-900/40 text-red-300',
+  missed: 'border-amber-700 bg-amber-900/40 text-amber-300',
+  cancelled: 'border-slate-600 bg-slate-800 text-gray-400',
+}
+
+function keyToDate(key: string): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+export default function SchedulePage() {
+  const [posts, setPosts] = useState<ScheduledPost[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [selectedDay, setSelectedDay] = useState<Date | undefined>(undefined)
+  const [timeZone, setTimeZone] = useState('UTC')
+
+  const loadPosts = useCallback(async () => {
+    try {
+      const response = await fetch('/api/schedule')
+      const data = await response.json()
+      if (!data.success) throw new Error(data.error || 'Failed to load scheduled posts')
+      setPosts(data.posts)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load scheduled posts')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    setTimeZone(getLocalTimeZone())
+    loadPosts()
+    const timer = setInterval(loadPosts, REFRESH_INTERVAL_MS)
+    return () => clearInterval(timer)
+  }, [loadPosts])
+
+  // Calendar days are the viewer's own, whatever zone a post was scheduled in
+  const postDays = useMemo(
+    () => Array.from(new Set(posts.map((post) => dayKeyInTimeZone(post.scheduled_for, timeZone)))),
+    [posts, timeZone]
+  )
+
+  const visiblePosts = selectedDay
+    ? posts.filter(
+        (post) =>
+          dayKeyInTimeZone(post.scheduled_for, timeZone) === dayKeyInTimeZone(selectedDay, timeZone)
+      )
+    : posts
+  const upcoming = visiblePosts.filter(
+    (post) => post.status === 'scheduled' || post.status === 'publishing'
+  )
+  const past = visiblePosts
+    .filter((post) => post.status !== 'scheduled' && post.status !== 'publishing')
+    .reverse()
+
+  async function handleCancel(id: string) {
+    try {
+      const response = await fetch(`/api/schedule/${id}`, { method: 'DELETE' })
+      const data = await response.json()
+      if (!data.success) throw new Error(data.error || 'Failed to cancel post')
+      setPosts((current) => current.map((post) => (post.id === id ? data.post : post)))
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to cancel post')
+    }
+  }
+
+  function renderPost(post: ScheduledPost) {
+    const preview = post.messages[0] || post.embeds[0]?.title || ''
+
+    return (
+      <div key={post.id} className="rounded-lg border border-slate-700 bg-slate-800/50 p-4">
+        <div className="flex items-start justify-between gap-4">
+          <div className="space-y-1">
+            <p className="font-semibold text-white">
+              {formatInTimeZone(post.scheduled_for, timeZone)}
+            </p>
+            {post.timezone !== timeZone && (
+              <p className="text-xs text-gray-500">
+                {formatInTimeZone(post.scheduled_for, post.timezone)} {post.timezone}
+              </p>
+            )}
+            <p className="text-xs text-gray-400">
+              {post.channel.label}
+              {post.channel.thread_id && ` (thread ${post.channel.thread_id})`}
+              {post.persona && ` - as ${post.persona.name}`}
+              {' - '}
+              {post.messages.length} message(s)
+              {post.embeds.length > 0 && `, ${post.embeds.length} embed(s)`}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Badge className={cn('capitalize', STATUS_STYLES[post.status])}>{post.status}</Badge>
+            {post.status === 'scheduled' && (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => handleCancel(post.id)}
+                className="h-7 px-2 text-gray-400 hover:bg-red-900/20 hover:text-red-300"
+              >
+                <X className="mr-1 h-3 w-3" />
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+        {preview && <p className="mt-2 line-clamp-2 text-sm text-gray-300">{preview}</p>}
+        {post.error && <p className="mt-2 text-xs text-red-400">{post.error}</p>}
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      {/* Header */}
+      <div className="border-b border-purple-900/50 bg-gradient-to-r from-slate-900 to-slate-800">
+        <div className="mx-auto flex max-w-7xl items-end justify-between px-8 py-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">Scheduled Posts</h1>
+            <p className="text-gray-400">
+              Drafts queued for Discord, shown in your time zone ({timeZone})
+            </p>
+          </div>
+          <Link href="/" className="flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200">
+            <ArrowLeft className="h-4 w-4" />
+            Back to generator
+          </Link>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-8 py-8">
+        {error && (
+          <div className="mb-8 flex items-start gap-4 rounded-lg border border-red-500/50 bg-red-950/20 p-4">
+            <AlertCircle className="mt-0.5 h-5 w-5 text-red-500 flex-shrink-0" />
+            <div>
+              <h3 className="font-semibold text-red-400">Error</h3>
+              <p className="text-sm text-red-300">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-8">
+          {/* Left: Calendar */}
+          <Card className="col-span-1 h-fit border-purple-900/50 bg-slate-900">
+            <CardHeader className="border-b border-purple-900/30">
+              <CardTitle className="text-xl font-bold text-white">Calendar</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 pt-6">
+              <Calendar
+                mode="single"
+                selected={selectedDay}
+                onSelect={setSelectedDay}
+                modifiers={{ hasPosts: postDays.map(keyToDate) }}
+                modifiersClassNames={{ hasPosts: 'font-bold text-purple-300' }}
+                className="rounded-md border border-slate-700 bg-slate-800"
+              />
+              {selectedDay && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setSelectedDay(undefined)}
+                  className="w-full border-slate-700 text-gray-300 hover:bg-slate-800"
+                >
+                  Show all days
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          {/* Right: Agenda */}
+          <Card className="col-span-2 border-purple-900/50 bg-slate-900">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 border-b border-purple-900/30">
+              <CardTitle className="flex items-center gap-2 text-xl font-bold text-white">
+                <CalendarClock className="h-5 w-5" />
+                {selectedDay ? formatInTimeZone(selectedDay, timeZone, { dateStyle: 'full' }) : 'Agenda'}
+              </CardTitle>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={loadPosts}
+                className="h-8 px-2 text-gray-400 hover:text-white"
+              >
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-6 pt-6">
+              {loading ? (
+                <p className="text-sm text-gray-500">Loading...</p>
+              ) : (
+                <>
+                  <section className="space-y-3">
+                    <h2 className="text-sm font-semibold uppercase text-gray-400">
+                      Upcoming ({upcoming.length})
+                    </h2>
+                    {upcoming.length ? (
+                      upcoming.map(renderPost)
+                    ) : (
+                      <p className="text-sm text-gray-500">Nothing scheduled.</p>
+                    )}
+                  </section>
+                  <section className="space-y-3">
+                    <h2 className="text-sm font-semibold uppercase text-gray-400">
+                      Past ({past.length})
+                    </h2>
+                    {past.length ? (
+                      past.map(renderPost)
+                    ) : (
+                      <p className="text-sm text-gray-500">No past posts.</p>
+                    )}
+                  </section>
+                </>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
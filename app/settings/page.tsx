@@ -0,0 +1,384 @@
+'use client'
+
+import { useCallback, useEffect, useState } from 'react'
+import Link from 'next/link'
+import { AlertCircle, ArrowLeft, Plus, Save, Trash2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  AGENT_ROLES,
+  AGENT_STEP_ROLES,
+  DEFAULT_APP_CONFIG,
+  PROVIDER_LABELS,
+  agentsForStep,
+  parseAppConfig,
+  type AppConfigIssue,
+} from '@/utils/agentRegistry'
+import { PROMPT_TEMPLATES, PROMPT_TEMPLATE_IDS, type PromptTemplateId } from '@/utils/promptTemplates'
+import type { AgentRole, AppConfig, RegisteredAgent } from '@/types'
+import type { ProviderName } from '@/utils/providers/types'
+
+// Provider select value for "use the server default"
+const DEFAULT_PROVIDER = 'default'
+
+export default function SettingsPage() {
+  const [config, setConfig] = useState<AppConfig>(DEFAULT_APP_CONFIG)
+  const [saved, setSaved] = useState<AppConfig>(DEFAULT_APP_CONFIG)
+  const [loading, setLoading] = useState(true)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [serverIssues, setServerIssues] = useState<AppConfigIssue[]>([])
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const loadConfig = useCallback(async () => {
+    try {
+      const response = await fetch('/api/agents')
+      const data = await response.json()
+      if (!data.success) throw new Error(data.error || 'Failed to load agents')
+      setConfig(data.config)
+      setSaved(data.config)
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load agents')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadConfig()
+  }, [loadConfig])
+
+  const parsed = parseAppConfig(config)
+  const issues = parsed.success ? serverIssues : parsed.issues
+  const changed = JSON.stringify(config) !== JSON.stringify(saved)
+
+  // Issues for one agent's fields, e.g. "agents.2.agent_id" for index 2
+  function agentIssues(idx: number) {
+    return issues.filter((issue) => issue.path.startsWith(`agents.${idx}.`))
+  }
+
+  function updateAgent(idx: number, patch: Partial<RegisteredAgent>) {
+    setConfig((prev) => ({
+      ...prev,
+      agents: prev.agents.map((agent, i) => (i === idx ? { ...agent, ...patch } : agent)),
+    }))
+    setNotice(null)
+  }
+
+  function handleAddAgent() {
+    setConfig((prev) => ({
+      ...prev,
+      agents: [
+        ...prev.agents,
+        {
+          id: `agent-${Date.now().toString(36)}`,
+          name: 'New agent',
+          role: 'custom',
+          agent_id: '',
+          prompt_template: 'draft',
+        },
+      ],
+    }))
+    setNotice(null)
+  }
+
+  function handleRemoveAgent(idx: number) {
+    setConfig((prev) => ({ ...prev, agents: prev.agents.filter((_, i) => i !== idx) }))
+    setNotice(null)
+  }
+
+  async function handleSave() {
+    setSaving(true)
+    try {
+      const response = await fetch('/api/agents', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(config),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        setServerIssues(data.issues ?? [])
+        throw new Error(data.error || 'Failed to save agents')
+      }
+      setConfig(data.config)
+      setSaved(data.config)
+      setServerIssues([])
+      setError(null)
+      setNotice('Saved. New runs use these agents.')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save agents')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-950 text-white">
+      {/* Header */}
+      <div className="border-b border-purple-900/50 bg-gradient-to-r from-slate-900 to-slate-800">
+        <div className="mx-auto flex max-w-7xl items-end justify-between px-8 py-8">
+          <div>
+            <h1 className="text-3xl font-bold text-white mb-2">Settings</h1>
+            <p className="text-gray-400">
+              The agents the pipeline calls. Each step uses its default unless a run picks another.
+            </p>
+          </div>
+          <Link href="/" className="flex items-center gap-2 text-sm text-purple-300 hover:text-purple-200">
+            <ArrowLeft className="h-4 w-4" />
+            Back to generator
+          </Link>
+        </div>
+      </div>
+
+      <div className="mx-auto max-w-7xl px-8 py-8">
+        {error && (
+          <div className="mb-8 flex items-start gap-4 rounded-lg border border-red-500/50 bg-red-950/20 p-4">
+            <AlertCircle className="mt-0.5 h-5 w-5 text-red-500 flex-shrink-0" />
+            <div>
+              <h3 className="font-semibold text-red-400">Error</h3>
+              <p className="text-sm text-red-300">{error}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-8">
+          {/* Left: Registered agents */}
+          <Card className="col-span-2 border-purple-900/50 bg-slate-900">
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 border-b border-purple-900/30">
+              <CardTitle className="text-xl font-bold text-white">Agents</CardTitle>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={handleAddAgent}
+                className="border-purple-700 text-purple-300 hover:bg-purple-900/20"
+              >
+                <Plus className="mr-2 h-4 w-4" />
+                Add agent
+              </Button>
+            </CardHeader>
+            <CardContent className="space-y-4 pt-6">
+              {loading && <p className="text-sm text-gray-500">Loading...</p>}
+              {config.agents.map((agent, idx) => {
+                const isDefault = AGENT_STEP_ROLES.some(
+                  (role) => config.default_agents[role] === agent.id
+                )
+                const fieldIssues = agentIssues(idx)
+
+                return (
+                  <div
+                    key={idx}
+                    className="space-y-3 rounded-lg border border-slate-700 bg-slate-800/50 p-4"
+                  >
+                    <div className="flex items-center gap-2">
+                      <Input
+                        value={agent.name}
+                        onChange={(event) => updateAgent(idx, { name: event.target.value })}
+                        placeholder="Name"
+                        className="border-slate-700 bg-slate-800 font-semibold text-white"
+                      />
+                      <span className="flex-shrink-0 font-mono text-xs text-gray-500">{agent.id}</span>
+                      <Button
+                        size="icon"
+                        variant="outline"
+                        title={isDefault ? 'A step uses this agent by default' : 'Remove agent'}
+                        disabled={isDefault}
+                        onClick={() => handleRemoveAgent(idx)}
+                        className="flex-shrink-0 border-red-800 text-red-300 hover:bg-red-900/20"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-3">
+                      <div className="space-y-1">
+                        <Label className="text-xs text-gray-400">Role</Label>
+                        <Select
+                          value={agent.role}
+                          onValueChange={(role) => updateAgent(idx, { role: role as AgentRole })}
+                        >
+                          <SelectTrigger className="border-slate-700 bg-slate-800 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(AGENT_ROLES).map(([role, label]) => (
+                              <SelectItem key={role} value={role}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-gray-400">Agent id</Label>
+                        <Input
+                          value={agent.agent_id}
+                          onChange={(event) => updateAgent(idx, { agent_id: event.target.value })}
+                          placeholder="Upstream agent id"
+                          className="border-slate-700 bg-slate-800 font-mono text-sm text-white"
+                        />
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-gray-400">Provider</Label>
+                        <Select
+                          value={agent.provider ?? DEFAULT_PROVIDER}
+                          onValueChange={(provider) =>
+                            updateAgent(idx, {
+                              provider:
+                                provider === DEFAULT_PROVIDER ? undefined : (provider as ProviderName),
+                            })
+                          }
+                        >
+                          <SelectTrigger className="border-slate-700 bg-slate-800 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={DEFAULT_PROVIDER}>Server default</SelectItem>
+                            {Object.entries(PROVIDER_LABELS).map(([provider, label]) => (
+                              <SelectItem key={provider} value={provider}>
+                                {label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-gray-400">Prompt template</Label>
+                        <Select
+                          value={agent.prompt_template}
+                          onValueChange={(id) =>
+                            updateAgent(idx, { prompt_template: id as PromptTemplateId })
+                          }
+                        >
+                          <SelectTrigger className="border-slate-700 bg-slate-800 text-white">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {PROMPT_TEMPLATE_IDS.map((id) => (
+                              <SelectItem key={id} value={id}>
+                                {PROMPT_TEMPLATES[id].label}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-1">
+                        <Label className="text-xs text-gray-400">Timeout (seconds)</Label>
+                        <Input
+                          type="number"
+                          min={1}
+                          value={agent.timeout_ms ? agent.timeout_ms / 1000 : ''}
+                          onChange={(event) => {
+                            const seconds = Number(event.target.value)
+                            updateAgent(idx, {
+                              timeout_ms: event.target.value && seconds > 0 ? Math.round(seconds * 1000) : undefined,
+                            })
+                          }}
+                          placeholder="Server default"
+                          className="border-slate-700 bg-slate-800 text-white"
+                        />
+                      </div>
+                    </div>
+
+                    {fieldIssues.length > 0 && (
+                      <ul className="space-y-1 text-xs text-red-400">
+                        {fieldIssues.map((issue) => (
+                          <li key={issue.path + issue.message} className="flex items-center gap-2">
+                            <AlertCircle className="h-3.5 w-3.5" />
+                            {issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )
+              })}
+            </CardContent>
+          </Card>
+
+          {/* Right: Defaults */}
+          <Card className="col-span-1 h-fit border-purple-900/50 bg-slate-900">
+            <CardHeader className="border-b border-purple-900/30">
+              <CardTitle className="text-xl font-bold text-white">Defaults</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4 pt-6">
+              {AGENT_STEP_ROLES.map((role) => {
+                const issue = issues.find((entry) => entry.path === `default_agents.${role}`)
+                return (
+                  <div key={role} className="space-y-1">
+                    <Label className="text-xs text-gray-400">{AGENT_ROLES[role]} step</Label>
+                    <Select
+                      value={config.default_agents[role]}
+                      onValueChange={(id) => {
+                        setConfig((prev) => ({
+                          ...prev,
+                          default_agents: { ...prev.default_agents, [role]: id },
+                        }))
+                        setNotice(null)
+                      }}
+                    >
+                      <SelectTrigger className="border-slate-700 bg-slate-800 text-white">
+                        <SelectValue placeholder="Pick an agent" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {agentsForStep(config, role).map((agent) => (
+                          <SelectItem key={agent.id} value={agent.id}>
+                            {agent.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {issue && <p className="text-xs text-red-400">{issue.message}</p>}
+                  </div>
+                )
+              })}
+
+              {issues
+                .filter((issue) => !/^(agents\.\d+\.|default_agents\.)/.test(issue.path))
+                .map((issue) => (
+                  <p key={issue.path + issue.message} className="text-xs text-red-400">
+                    {issue.message}
+                  </p>
+                ))}
+
+              <Button
+                onClick={handleSave}
+                disabled={!changed || !parsed.success || saving}
+                className="w-full bg-purple-600 text-white hover:bg-purple-700"
+              >
+                <Save className="mr-2 h-4 w-4" />
+                {saving ? 'Saving...' : 'Save agents'}
+              </Button>
+              <Button
+                variant="outline"
+                onClick={() => {
+                  setConfig(saved)
+                  setServerIssues([])
+                }}
+                disabled={!changed}
+                className="w-full border-slate-700 text-gray-300 hover:bg-slate-800"
+              >
+                Discard changes
+              </Button>
+              {notice && <p className="text-xs text-green-400">{notice}</p>}
+              {saved.updated_at && (
+                <p className="text-xs text-gray-500">
+                  Last saved {new Date(saved.updated_at).toLocaleString()}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,10 @@
+/**
+ * Next.js server startup hook: starts the scheduled-post dispatcher
+ * (see src/utils/scheduler.ts). Skipped in the Edge runtime.
+ */
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startScheduler } = await import('@/utils/scheduler')
+    startScheduler()
+  }
+}
@@ -0,0 +1,57 @@
+import React from 'react'
+import { DiscordMarkdown } from '@/components/DiscordMarkdown'
+import { DEFAULT_EMBED_COLOR } from '@/utils/discordEmbeds'
+import type { DiscordEmbed } from '@/utils/discordWebhook'
+
+function toHexColor(color: number): string {
+  return `#${color.toString(16).padStart(6, '0')}`
+}
+
+function formatEmbedTimestamp(timestamp: string): string {
+  return new Intl.DateTimeFormat(undefined, { dateStyle: 'short', timeStyle: 'short' }).format(
+    new Date(timestamp)
+  )
+}
+
+/**
+ * Render an embed the way the Discord client lays it out.
+ */
+export function DiscordEmbedPreview({ embed }: { embed: DiscordEmbed }) {
+  const footer = [embed.footer?.text, embed.timestamp && formatEmbedTimestamp(embed.timestamp)]
+    .filter(Boolean)
+    .join(' • ')
+
+  return (
+    <div
+      className="max-w-[520px] space-y-2 rounded border-l-4 bg-[#2b2d31] p-3"
+      style={{ borderLeftColor: toHexColor(embed.color ?? DEFAULT_EMBED_COLOR) }}
+    >
+      {embed.author && <p className="text-xs font-semibold text-white">{embed.author.name}</p>}
+      {embed.title &&
+        (embed.url ? (
+          <a
+            href={embed.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="block text-sm font-semibold text-sky-400 hover:underline"
+          >
+            {embed.title}
+          </a>
+        ) : (
+          <p className="text-sm font-semibold text-white">{embed.title}</p>
+        ))}
+      {embed.description && (
+        <DiscordMarkdown content={embed.description} className="text-xs text-gray-300" />
+      )}
+      {embed.fields?.map((field, idx) => (
+        <div key={idx}>
+          <p className="text-xs font-semibold text-white">{field.name}</p>
+          <DiscordMarkdown content={field.value} className="text-xs text-gray-300" />
+        </div>
+      ))}
+      {footer && <p className="text-[11px] text-gray-400">{footer}</p>}
+    </div>
+  )
+}
+
+export default DiscordEmbedPreview
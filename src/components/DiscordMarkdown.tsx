@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react'
+import { cn } from '@/lib/utils'
+import {
+  formatDiscordTimestamp,
+  parseDiscordMarkdown,
+  type DiscordBlock,
+  type DiscordInline,
+} from '@/utils/discordMarkdown'
+
+/** Display names for mention ids; unknown ids are shown as the raw id */
+export interface MentionNames {
+  users?: Record<string, string>
+  roles?: Record<string, string>
+  channels?: Record<string, string>
+}
+
+interface DiscordMarkdownProps {
+  content: string
+  mentions?: MentionNames
+  className?: string
+}
+
+/**
+ * Render a message the way the Discord client would.
+ */
+export function DiscordMarkdown({ content, mentions = {}, className }: DiscordMarkdownProps) {
+  const blocks = useMemo(() => parseDiscordMarkdown(content), [content])
+
+  return (
+    <div className={cn('space-y-1 text-sm leading-relaxed text-gray-100 break-words', className)}>
+      {blocks.map((block, idx) => (
+        <Block key={idx} block={block} mentions={mentions} />
+      ))}
+    </div>
+  )
+}
+
+function Block({ block, mentions }: { block: DiscordBlock; mentions: MentionNames }) {
+  switch (block.type) {
+    case 'heading': {
+      const size = { 1: 'text-2xl', 2: 'text-xl', 3: 'text-base' }[block.level]
+      return (
+        <p className={cn('mt-2 font-bold text-white', size)}>
+          <Inlines nodes={block.children} mentions={mentions} />
+        </p>
+      )
+    }
+    case 'subtext':
+      return (
+        <p className="text-xs text-gray-400">
+          <Inlines nodes={block.children} mentions={mentions} />
+        </p>
+      )
+    case 'blockquote':
+      return (
+        <div className="space-y-1 border-l-4 border-gray-500 pl-3">
+          {block.children.map((child, idx) => (
+            <Block key={idx} block={child} mentions={mentions} />
+          ))}
+        </div>
+      )
+    case 'code_block':
+      return (
+        <pre className="relative overflow-x-auto rounded border border-slate-950 bg-slate-900 p-2 font-mono text-xs text-gray-200">
+          {block.language && (
+            <span className="absolute right-2 top-1 text-[10px] uppercase text-gray-500">
+              {block.language}
+            </span>
+          )}
+          <code>{block.code}</code>
+        </pre>
+      )
+    case 'list': {
+      const items = block.items.map((item, idx) => (
+        <li key={idx}>
+          <Inlines nodes={item} mentions={mentions} />
+        </li>
+      ))
+      return block.ordered ? (
+        <ol start={block.start} className="list-decimal space-y-0.5 pl-6">
+          {items}
+        </ol>
+      ) : (
+        <ul className="list-disc space-y-0.5 pl-6">{items}</ul>
+      )
+    }
+    default:
+      return (
+        <p>
+          <Inlines nodes={block.children} mentions={mentions} />
+        </p>
+      )
+  }
+}
+
+function Inlines({ nodes, mentions }: { nodes: DiscordInline[]; mentions: MentionNames }) {
+  return (
+    <>
+      {nodes.map((node, idx) => (
+        <Inline key={idx} node={node} mentions={mentions} />
+      ))}
+    </>
+  )
+}
+
+function Inline({ node, mentions }: { node: DiscordInline; mentions: MentionNames }) {
+  switch (node.type) {
+    case 'text':
+      return <>{node.text}</>
+    case 'br':
+      return <br />
+    case 'bold':
+      return (
+        <strong className="font-bold">
+          <Inlines nodes={node.children} mentions={mentions} />
+        </strong>
+      )
+    case 'italic':
+      return (
+        <em>
+          <Inlines nodes={node.children} mentions={mentions} />
+        </em>
+      )
+    case 'underline':
+      return (
+        <u>
+          <Inlines nodes={node.children} mentions={mentions} />
+        </u>
+      )
+    case 'strike':
+      return (
+        <s>
+          <Inlines nodes={node.children} mentions={mentions} />
+        </s>
+      )
+    case 'spoiler':
+      return <Spoiler nodes={node.children} mentions={mentions} />
+    case 'code':
+      return (
+        <code className="rounded bg-slate-900 px-1 py-0.5 font-mono text-[0.85em]">{node.text}</code>
+      )
+    case 'link':
+      return (
+        <a
+          href={node.url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sky-400 hover:underline"
+        >
+          <Inlines nodes={node.children} mentions={mentions} />
+        </a>
+      )
+    case 'timestamp':
+      return (
+        <span
+          title={formatDiscordTimestamp(node.unix, 'F')}
+          className="rounded bg-slate-700/80 px-1"
+        >
+          {formatDiscordTimestamp(node.unix, node.style)}
+        </span>
+      )
+    case 'mention': {
+      const names = { user: mentions.users, role: mentions.roles, channel: mentions.channels }[
+        node.kind
+      ]
+      const prefix = node.kind === 'channel' ? '#' : '@'
+      return (
+        <span className="rounded bg-indigo-500/30 px-0.5 font-medium text-indigo-200">
+          {prefix}
+          {names?.[node.id] ?? node.id}
+        </span>
+      )
+    }
+    case 'everyone':
+      return (
+        <span className="rounded bg-indigo-500/30 px-0.5 font-medium text-indigo-200">
+          @{node.target}
+        </span>
+      )
+    case 'emoji':
+      return (
+        // eslint-disable-next-line @next/next/no-img-element
+        <img
+          src={`https://cdn.discordapp.com/emojis/${node.id}.${node.animated ? 'gif' : 'png'}`}
+          alt={`:${node.name}:`}
+          title={`:${node.name}:`}
+          className="inline h-5 w-5 align-text-bottom"
+        />
+      )
+  }
+}
+
+function Spoiler({ nodes, mentions }: { nodes: DiscordInline[]; mentions: MentionNames }) {
+  const [revealed, setRevealed] = useState(false)
+
+  return (
+    <span
+      role="button"
+      tabIndex={0}
+      onClick={() => setRevealed(true)}
+      onKeyDown={(event) => event.key === 'Enter' && setRevealed(true)}
+      className={cn(
+        'rounded px-0.5 transition-colors',
+        revealed ? 'bg-slate-600/60' : 'cursor-pointer bg-slate-950 text-transparent [&_*]:invisible'
+      )}
+    >
+      <Inlines nodes={nodes} mentions={mentions} />
+    </span>
+  )
+}
+
+export default DiscordMarkdown
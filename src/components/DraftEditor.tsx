@@ -0,0 +1,88 @@
+import React, { useMemo } from 'react'
+import { Textarea } from '@/components/ui/textarea'
+import { cn } from '@/lib/utils'
+import { DiscordMarkdown, type MentionNames } from '@/components/DiscordMarkdown'
+import { DiscordEmbedPreview } from '@/components/DiscordEmbedPreview'
+import type { DiscordEmbed } from '@/utils/discordWebhook'
+import { splitMessage, validateMessageLength } from '@/utils/messageSplitter'
+
+interface DraftEditorProps {
+  value: string
+  onChange: (value: string) => void
+  /** Discord message length limit; longer drafts preview as a numbered series */
+  limit: number
+  /** Embeds sent with the last message */
+  embeds?: DiscordEmbed[]
+  /** False when only the embeds are sent (default true) */
+  showText?: boolean
+  mentions?: MentionNames
+  disabled?: boolean
+}
+
+/**
+ * Markdown source on the left, the message(s) and embeds as Discord renders
+ * them on the right.
+ */
+export function DraftEditor({
+  value,
+  onChange,
+  limit,
+  embeds = [],
+  showText = true,
+  mentions,
+  disabled,
+}: DraftEditorProps) {
+  const check = validateMessageLength(value, limit)
+  const splitParts = useMemo(() => splitMessage(value, { limit }), [value, limit])
+  const parts = showText ? splitParts : []
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="flex flex-col gap-1">
+        <p className="text-xs text-gray-500 uppercase">Markdown</p>
+        <Textarea
+          value={value}
+          onChange={(event) => onChange(event.target.value)}
+          disabled={disabled}
+          spellCheck
+          className="min-h-[360px] flex-1 resize-none border-slate-700 bg-slate-800 font-mono text-xs text-gray-200"
+        />
+        <p className={cn('text-right text-xs tabular-nums', check.ok ? 'text-gray-500' : 'text-amber-400')}>
+          {check.length} / {limit}
+          {!check.ok && showText && ` - sends as ${parts.length} messages`}
+        </p>
+      </div>
+      <div className="flex flex-col gap-1">
+        <p className="text-xs text-gray-500 uppercase">Discord Preview</p>
+        <div className="min-h-[360px] flex-1 space-y-3 rounded-md border border-slate-700 bg-[#313338] p-3">
+          {parts.map((part, idx) => (
+            <div key={idx} className={cn(parts.length > 1 && 'border-b border-slate-600/60 pb-3 last:border-0')}>
+              {parts.length > 1 && (
+                <p className="mb-1 text-[10px] uppercase text-gray-500">
+                  Message {idx + 1} of {parts.length}
+                </p>
+              )}
+              <DiscordMarkdown content={part} mentions={mentions} />
+              {idx === parts.length - 1 && embeds.length > 0 && (
+                <div className="mt-2 space-y-2">
+                  {embeds.map((embed, embedIdx) => (
+                    <DiscordEmbedPreview key={embedIdx} embed={embed} />
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+          {!parts.length && (
+            <div className="space-y-2">
+              {embeds.map((embed, idx) => (
+                <DiscordEmbedPreview key={idx} embed={embed} />
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default DraftEditor
@@ -0,0 +1,217 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { GitCompare, RotateCcw } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from '@/components/ui/sheet'
+import { cn } from '@/lib/utils'
+import { diffStats, diffWords, type DraftVersion } from '@/utils/draftHistory'
+
+interface DraftHistoryProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Oldest first */
+  versions: DraftVersion[]
+  /** Version shown in the editor */
+  activeId: string | null
+  onRestore: (version: DraftVersion) => void
+  disabled?: boolean
+}
+
+const SOURCE_LABELS: Record<DraftVersion['source'], string> = {
+  generated: 'Generated',
+  regenerated: 'Regenerated',
+  variant: 'Variant',
+  imported: 'Imported',
+  edited: 'Edited',
+}
+
+function formatTime(iso: string): string {
+  return new Date(iso).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * Session draft versions, newest first, with a word-level diff between any
+ * two of them and a restore button per version.
+ */
+export function DraftHistory({
+  open,
+  onOpenChange,
+  versions,
+  activeId,
+  onRestore,
+  disabled,
+}: DraftHistoryProps) {
+  const [fromId, setFromId] = useState<string | null>(null)
+  const [toId, setToId] = useState<string | null>(null)
+  const [detailsId, setDetailsId] = useState<string | null>(null)
+
+  // Default comparison: the active version against the one before it
+  useEffect(() => {
+    if (!open) return
+    const activeIndex = versions.findIndex((version) => version.id === activeId)
+    const to = versions[activeIndex] ?? versions[versions.length - 1]
+    setToId(to?.id ?? null)
+    setFromId(versions[versions.indexOf(to) - 1]?.id ?? to?.id ?? null)
+  }, [open, versions, activeId])
+
+  const from = versions.find((version) => version.id === fromId)
+  const to = versions.find((version) => version.id === toId)
+  const segments = useMemo(
+    () => (from && to ? diffWords(from.draft.draft_message, to.draft.draft_message) : []),
+    [from, to]
+  )
+  const stats = diffStats(segments)
+
+  const versionSelect = (value: string | null, onChange: (id: string) => void) => (
+    <Select value={value ?? undefined} onValueChange={onChange}>
+      <SelectTrigger className="h-8 border-slate-700 bg-slate-800 text-xs text-white">
+        <SelectValue placeholder="Version" />
+      </SelectTrigger>
+      <SelectContent>
+        {versions.map((version) => (
+          <SelectItem key={version.id} value={version.id}>
+            v{version.number} - {SOURCE_LABELS[version.source]}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex w-full flex-col border-purple-900/50 bg-slate-900 text-white sm:max-w-xl">
+        <SheetHeader>
+          <SheetTitle className="text-white">Draft History</SheetTitle>
+          <SheetDescription>
+            {versions.length} version{versions.length === 1 ? '' : 's'} this session. Versions
+            are lost when the page is closed.
+          </SheetDescription>
+        </SheetHeader>
+
+        {versions.length > 1 && (
+          <div className="space-y-2 rounded-lg border border-slate-700 bg-slate-800/50 p-3">
+            <div className="flex items-center gap-2">
+              <GitCompare className="h-4 w-4 flex-shrink-0 text-purple-300" />
+              {versionSelect(fromId, setFromId)}
+              <span className="text-xs text-gray-500">to</span>
+              {versionSelect(toId, setToId)}
+            </div>
+            <p className="text-xs text-gray-500">
+              <span className="text-green-400">+{stats.added}</span>{' '}
+              <span className="text-red-400">-{stats.removed}</span> words
+            </p>
+            <ScrollArea className="h-48 rounded-md bg-[#313338] p-3">
+              <p className="whitespace-pre-wrap text-sm text-gray-200">
+                {segments.map((segment, idx) => (
+                  <span
+                    key={idx}
+                    className={cn(
+                      segment.type === 'added' && 'bg-green-900/60 text-green-200',
+                      segment.type === 'removed' && 'bg-red-900/50 text-red-300 line-through'
+                    )}
+                  >
+                    {segment.text}
+                  </span>
+                ))}
+              </p>
+            </ScrollArea>
+          </div>
+        )}
+
+        <ScrollArea className="flex-1">
+          <div className="space-y-3 pr-3">
+            {[...versions].reverse().map((version) => {
+              const active = version.id === activeId
+              const parent = versions.find((candidate) => candidate.id === version.parent_id)
+
+              return (
+                <div
+                  key={version.id}
+                  className={cn(
+                    'space-y-2 rounded-lg border bg-slate-800/50 p-3',
+                    active ? 'border-purple-500/60' : 'border-slate-700'
+                  )}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-sm font-semibold text-white">
+                        v{version.number} - {SOURCE_LABELS[version.source]}
+                        {parent && ` from v${parent.number}`}
+                        {active && <span className="ml-2 text-xs text-purple-300">(current)</span>}
+                      </p>
+                      <p className="text-xs text-gray-500">
+                        {formatTime(version.updated_at)}
+                        {version.persona && ` - ${version.persona.name}`}
+                        {` - ${version.news.length} news item${version.news.length === 1 ? '' : 's'}`}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={disabled || active}
+                      onClick={() => onRestore(version)}
+                      className="h-7 px-2 text-purple-300 hover:bg-purple-900/20"
+                    >
+                      <RotateCcw className="mr-1 h-3 w-3" />
+                      Restore
+                    </Button>
+                  </div>
+                  <p className="line-clamp-2 text-xs text-gray-300">{version.draft.draft_message}</p>
+                  <button
+                    type="button"
+                    onClick={() => setDetailsId(detailsId === version.id ? null : version.id)}
+                    className="text-xs text-gray-500 hover:text-purple-300"
+                  >
+                    {detailsId === version.id ? 'Hide details' : 'Details'}
+                  </button>
+                  {detailsId === version.id && (
+                    <div className="space-y-2 text-xs text-gray-400">
+                      <p>
+                        Tone match {(version.draft.metadata.tone_match * 100).toFixed(0)}% - personality
+                        alignment {(version.draft.metadata.personality_alignment * 100).toFixed(0)}% -
+                        engagement {(version.draft.metadata.engagement_potential * 100).toFixed(0)}%
+                      </p>
+                      {version.persona && (
+                        <p>
+                          Persona: {version.persona.name} ({version.persona.profile.tone},{' '}
+                          {version.persona.profile.formality_level})
+                        </p>
+                      )}
+                      {version.news.length > 0 && (
+                        <ul className="list-inside list-disc">
+                          {version.news.map((item, idx) => (
+                            <li key={idx}>{item.headline}</li>
+                          ))}
+                        </ul>
+                      )}
+                      {version.prompt && (
+                        <pre className="max-h-40 overflow-auto whitespace-pre-wrap rounded bg-slate-950 p-2 font-mono text-[11px] text-gray-400">
+                          {version.prompt}
+                        </pre>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  )
+}
+
+export default DraftHistory
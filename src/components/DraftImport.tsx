@@ -0,0 +1,117 @@
+import React, { useRef, useState } from 'react'
+import { AlertCircle, Upload } from 'lucide-react'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { cn } from '@/lib/utils'
+import { parseDraftFile, type DraftFile, type DraftFileIssue } from '@/utils/draftFile'
+
+interface DraftImportProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** Called with a validated (and, for old files, migrated) draft file */
+  onImport: (file: DraftFile, migratedFrom: number | null) => void
+}
+
+/**
+ * Load a file exported as Draft JSON, dropped onto the dialog or picked
+ * with the file browser.
+ */
+export function DraftImport({ open, onOpenChange, onImport }: DraftImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null)
+  const [dragging, setDragging] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [issues, setIssues] = useState<DraftFileIssue[]>([])
+
+  async function handleFile(file: File | undefined) {
+    if (!file) return
+    setError(null)
+    setIssues([])
+
+    const parsed = parseDraftFile(await file.text())
+    if (!parsed.success) {
+      setError(`${file.name}: ${parsed.error}`)
+      setIssues(parsed.issues)
+      return
+    }
+    onImport(parsed.file, parsed.migrated_from)
+    onOpenChange(false)
+  }
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        if (!next) {
+          setError(null)
+          setIssues([])
+        }
+        onOpenChange(next)
+      }}
+    >
+      <DialogContent className="max-w-lg border-purple-900/50 bg-slate-900 text-white">
+        <DialogHeader>
+          <DialogTitle>Import Draft</DialogTitle>
+          <DialogDescription>
+            Load a draft exported as Draft JSON. The news feed, personality and draft are
+            restored so it can be edited or regenerated.
+          </DialogDescription>
+        </DialogHeader>
+
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          onDragOver={(event) => {
+            event.preventDefault()
+            setDragging(true)
+          }}
+          onDragLeave={() => setDragging(false)}
+          onDrop={(event) => {
+            event.preventDefault()
+            setDragging(false)
+            handleFile(event.dataTransfer.files[0])
+          }}
+          className={cn(
+            'flex flex-col items-center gap-2 rounded-lg border-2 border-dashed p-8 text-sm transition-colors',
+            dragging
+              ? 'border-purple-400 bg-purple-900/20 text-purple-200'
+              : 'border-slate-700 text-gray-400 hover:border-purple-700'
+          )}
+        >
+          <Upload className="h-6 w-6" />
+          Drop a discord-draft-*.json file here or click to browse
+        </button>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(event) => {
+            handleFile(event.target.files?.[0])
+            event.target.value = ''
+          }}
+        />
+
+        {error && (
+          <div className="space-y-1 rounded-lg border border-red-500/50 bg-red-950/20 p-3 text-xs text-red-300">
+            <p className="flex items-center gap-2 font-semibold text-red-400">
+              <AlertCircle className="h-4 w-4" />
+              {error}
+            </p>
+            {issues.map((issue, idx) => (
+              <p key={idx}>
+                <span className="font-mono">{issue.path}</span>: {issue.message}
+              </p>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default DraftImport
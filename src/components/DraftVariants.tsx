@@ -0,0 +1,262 @@
+import React, { useState } from 'react'
+import { AlertCircle, Crown, Layers, Trophy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Label } from '@/components/ui/label'
+import { Slider } from '@/components/ui/slider'
+import { Spinner } from '@/components/ui/spinner'
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+} from '@/components/ui/carousel'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import { cn } from '@/lib/utils'
+import { DiscordMarkdown } from '@/components/DiscordMarkdown'
+import { formatReadingTime } from '@/utils/draftAnalyzer'
+import {
+  describeVariantSpec,
+  MAX_VARIANTS,
+  type DraftVariantRun,
+  type RankedVariant,
+  type RankingWeights,
+} from '@/utils/draftVariants'
+
+export interface VariantRequest {
+  count: number
+  angles: boolean
+  temperatures: boolean
+}
+
+interface DraftVariantsProps {
+  runs: DraftVariantRun[]
+  /** Succeeded runs, best first */
+  ranked: RankedVariant<DraftVariantRun>[]
+  weights: RankingWeights
+  onWeightsChange: (weights: RankingWeights) => void
+  onGenerate: (request: VariantRequest) => void
+  /** Make a variant the main draft */
+  onPromote: (run: DraftVariantRun) => void
+  disabled?: boolean
+}
+
+const WEIGHT_LABELS: Record<keyof RankingWeights, string> = {
+  tone_match: 'Tone match',
+  personality_alignment: 'Personality',
+  engagement_potential: 'Engagement',
+  local_checks: 'Local checks',
+}
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+/**
+ * Generate several drafts at once, compare their metrics side by side in a
+ * carousel and promote the best one.
+ */
+export function DraftVariants({
+  runs,
+  ranked,
+  weights,
+  onWeightsChange,
+  onGenerate,
+  onPromote,
+  disabled,
+}: DraftVariantsProps) {
+  const [count, setCount] = useState(3)
+  const [angles, setAngles] = useState(true)
+  const [temperatures, setTemperatures] = useState(false)
+
+  const rankedById = new Map(ranked.map((entry) => [entry.variant.id, entry]))
+  const running = runs.some((run) => run.status === 'running')
+  // Ranked variants first, then the ones still running or failed
+  const ordered = [
+    ...ranked.map((entry) => entry.variant),
+    ...runs.filter((run) => !rankedById.has(run.id)),
+  ]
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-4 rounded-lg border border-slate-700 bg-slate-800 p-3">
+        <Select value={String(count)} onValueChange={(value) => setCount(Number(value))}>
+          <SelectTrigger className="h-8 w-32 border-slate-700 bg-slate-900 text-xs text-white">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Array.from({ length: MAX_VARIANTS - 1 }, (_, idx) => idx + 2).map((n) => (
+              <SelectItem key={n} value={String(n)}>
+                {n} variants
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="variant-angles"
+            checked={angles}
+            onCheckedChange={(checked) => setAngles(checked === true)}
+          />
+          <Label htmlFor="variant-angles" className="text-xs text-gray-300">
+            Angle hints
+          </Label>
+        </div>
+        <div className="flex items-center gap-2">
+          <Checkbox
+            id="variant-temperatures"
+            checked={temperatures}
+            onCheckedChange={(checked) => setTemperatures(checked === true)}
+          />
+          <Label htmlFor="variant-temperatures" className="text-xs text-gray-300">
+            Vary temperature
+          </Label>
+        </div>
+        <Button
+          size="sm"
+          onClick={() => onGenerate({ count, angles, temperatures })}
+          disabled={disabled || running}
+          className="ml-auto h-8 bg-purple-600 text-white hover:bg-purple-700"
+        >
+          <Layers className="mr-2 h-4 w-4" />
+          {running ? 'Generating...' : 'Generate Variants'}
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-4 gap-3">
+        {(Object.keys(WEIGHT_LABELS) as (keyof RankingWeights)[]).map((key) => (
+          <div key={key} className="space-y-2">
+            <p className="flex justify-between text-xs text-gray-400">
+              <span>{WEIGHT_LABELS[key]}</span>
+              <span className="tabular-nums">{weights[key].toFixed(2)}</span>
+            </p>
+            <Slider
+              min={0}
+              max={1}
+              step={0.05}
+              value={[weights[key]]}
+              onValueChange={([value]) => onWeightsChange({ ...weights, [key]: value })}
+            />
+          </div>
+        ))}
+      </div>
+
+      {!runs.length && (
+        <p className="py-8 text-center text-sm text-gray-400">
+          Ask the draft agent for several takes on the same news and persona, ranked by a
+          weighted mix of its scores and our own checks.
+        </p>
+      )}
+
+      {runs.length > 0 && (
+        <Carousel opts={{ align: 'start' }} className="mx-10">
+          <CarouselContent>
+            {ordered.map((run) => {
+              const entry = rankedById.get(run.id)
+              const winner = entry?.rank === 1
+
+              return (
+                <CarouselItem key={run.id} className="basis-1/2">
+                  <div
+                    className={cn(
+                      'flex h-full flex-col gap-3 rounded-lg border bg-slate-800/50 p-3',
+                      winner ? 'border-amber-500/60' : 'border-slate-700'
+                    )}
+                  >
+                    <div className="flex items-start justify-between gap-2">
+                      <p className="text-xs text-gray-400">{describeVariantSpec(run.spec)}</p>
+                      {entry && (
+                        <span
+                          className={cn(
+                            'flex flex-shrink-0 items-center gap-1 rounded px-2 py-0.5 text-xs font-semibold',
+                            winner ? 'bg-amber-900/40 text-amber-300' : 'bg-slate-700 text-gray-300'
+                          )}
+                        >
+                          {winner && <Trophy className="h-3 w-3" />}#{entry.rank} - {percent(entry.score)}
+                        </span>
+                      )}
+                    </div>
+
+                    {run.status === 'running' && (
+                      <div className="flex flex-1 items-center justify-center p-8">
+                        <Spinner className="h-6 w-6" />
+                      </div>
+                    )}
+                    {run.status === 'failed' && (
+                      <p className="flex items-start gap-2 text-xs text-red-400">
+                        <AlertCircle className="mt-0.5 h-4 w-4 flex-shrink-0" />
+                        {run.error}
+                      </p>
+                    )}
+                    {run.draft && entry && (
+                      <>
+                        <div className="h-56 overflow-y-auto rounded-md border border-slate-700 bg-[#313338] p-3">
+                          <DiscordMarkdown content={run.draft.draft_message} />
+                        </div>
+                        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                          <Metric label="Tone match" value={percent(run.draft.metadata.tone_match)} />
+                          <Metric
+                            label="Personality"
+                            value={percent(run.draft.metadata.personality_alignment)}
+                          />
+                          <Metric
+                            label="Engagement"
+                            value={percent(run.draft.metadata.engagement_potential)}
+                          />
+                          <Metric label="Local checks" value={percent(entry.local_score)} />
+                          <Metric label="Characters" value={String(entry.analysis.character_count)} />
+                          <Metric
+                            label="Reading time"
+                            value={formatReadingTime(entry.analysis.reading_time_seconds)}
+                          />
+                        </div>
+                        <ul className="space-y-0.5 text-xs">
+                          {entry.checks.map((check) => (
+                            <li
+                              key={check.id}
+                              className={check.score < 1 ? 'text-amber-400' : 'text-gray-500'}
+                            >
+                              {check.label}: {check.detail}
+                            </li>
+                          ))}
+                        </ul>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => onPromote(run)}
+                          disabled={disabled}
+                          className="mt-auto border-purple-700 text-purple-300 hover:bg-purple-900/20"
+                        >
+                          <Crown className="mr-2 h-3 w-3" />
+                          Use as Draft
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                </CarouselItem>
+              )
+            })}
+          </CarouselContent>
+          <CarouselPrevious className="border-slate-700 bg-slate-800 text-white" />
+          <CarouselNext className="border-slate-700 bg-slate-800 text-white" />
+        </Carousel>
+      )}
+    </div>
+  )
+}
+
+function Metric({ label, value }: { label: string; value: string }) {
+  return (
+    <p className="flex justify-between">
+      <span className="text-gray-500">{label}</span>
+      <span className="font-semibold tabular-nums text-gray-200">{value}</span>
+    </p>
+  )
+}
+
+export default DraftVariants
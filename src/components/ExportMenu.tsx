@@ -0,0 +1,64 @@
+import React from 'react'
+import { ChevronDown, Download } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuShortcut,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { EXPORT_FORMATS, type ExportFormat } from '@/utils/exporters'
+
+interface ExportMenuProps {
+  onExport: (format: ExportFormat) => void
+  /** Formats to show greyed out, e.g. the CSV when there is no news */
+  unavailable?: ExportFormat[]
+  disabled?: boolean
+}
+
+const DRAFT_FORMATS: ExportFormat[] = ['markdown', 'html', 'text']
+const RUN_FORMATS: ExportFormat[] = ['csv', 'json', 'zip']
+
+/**
+ * Download the draft or the whole run in one of the export formats.
+ */
+export function ExportMenu({ onExport, unavailable = [], disabled }: ExportMenuProps) {
+  const item = (format: ExportFormat) => (
+    <DropdownMenuItem
+      key={format}
+      disabled={unavailable.includes(format)}
+      onSelect={() => onExport(format)}
+    >
+      {EXPORT_FORMATS[format].label}
+      <DropdownMenuShortcut>.{EXPORT_FORMATS[format].extension}</DropdownMenuShortcut>
+    </DropdownMenuItem>
+  )
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          className="w-full border-green-700 text-green-300 hover:bg-green-900/20"
+        >
+          <Download className="mr-2 h-4 w-4" />
+          Export
+          <ChevronDown className="ml-auto h-4 w-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent className="w-56">
+        <DropdownMenuLabel>Draft</DropdownMenuLabel>
+        {DRAFT_FORMATS.map(item)}
+        <DropdownMenuSeparator />
+        <DropdownMenuLabel>Full run</DropdownMenuLabel>
+        {RUN_FORMATS.map(item)}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+export default ExportMenu
@@ -0,0 +1,101 @@
+import React, { useState } from 'react'
+import { EyeOff, GripVertical, Pin, PinOff } from 'lucide-react'
+import { Checkbox } from '@/components/ui/checkbox'
+import { cn } from '@/lib/utils'
+import {
+  moveNewsItem,
+  toggleNewsPinned,
+  toggleNewsSelected,
+  type CuratedNewsItem,
+} from '@/utils/newsCuration'
+
+interface NewsCuratorProps {
+  items: CuratedNewsItem[]
+  onChange: (items: CuratedNewsItem[]) => void
+  /** Hide a story now and in later fetches */
+  onExclude: (entry: CuratedNewsItem) => void
+  disabled?: boolean
+}
+
+/**
+ * News cards with selection checkboxes, pinning and drag-to-reorder.
+ */
+export function NewsCurator({ items, onChange, onExclude, disabled }: NewsCuratorProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null)
+  const [overIndex, setOverIndex] = useState<number | null>(null)
+
+  const endDrag = () => {
+    setDragIndex(null)
+    setOverIndex(null)
+  }
+
+  return (
+    <div className="space-y-4 p-4">
+      {items.map((entry, idx) => (
+        <div
+          key={entry.key}
+          draggable={!disabled}
+          onDragStart={() => setDragIndex(idx)}
+          onDragOver={(event) => {
+            event.preventDefault()
+            setOverIndex(idx)
+          }}
+          onDrop={(event) => {
+            event.preventDefault()
+            if (dragIndex !== null) onChange(moveNewsItem(items, dragIndex, idx))
+            endDrag()
+          }}
+          onDragEnd={endDrag}
+          className={cn(
+            'space-y-2 rounded-lg border bg-slate-800/50 p-3 transition-opacity',
+            entry.pinned ? 'border-purple-500/60' : 'border-purple-800/30',
+            !entry.selected && 'opacity-60',
+            overIndex === idx && dragIndex !== idx && 'ring-1 ring-purple-400'
+          )}
+        >
+          <div className="flex items-start gap-2">
+            <GripVertical className="mt-0.5 h-4 w-4 flex-shrink-0 cursor-grab text-gray-600" />
+            <Checkbox
+              checked={entry.selected}
+              disabled={disabled || entry.pinned}
+              onCheckedChange={() => onChange(toggleNewsSelected(items, entry.key))}
+              aria-label={`Use "${entry.item.headline}" in the draft`}
+              className="mt-0.5 border-purple-400"
+            />
+            <h4 className="flex-1 text-sm font-semibold text-purple-300 line-clamp-2">
+              {entry.item.headline}
+            </h4>
+            <span className="flex-shrink-0 rounded bg-purple-900/50 px-2 py-1 text-xs text-purple-200">
+              {(entry.item.relevance_score * 100).toFixed(0)}%
+            </span>
+          </div>
+          <p className="text-xs text-gray-400">{entry.item.source}</p>
+          <p className="text-xs text-gray-300 line-clamp-2">{entry.item.summary}</p>
+          <p className="text-xs font-semibold text-purple-400">{entry.item.key_takeaway}</p>
+          <div className="flex justify-end gap-3 text-xs">
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onChange(toggleNewsPinned(items, entry.key))}
+              className="flex items-center gap-1 text-gray-400 hover:text-purple-300 disabled:opacity-50"
+            >
+              {entry.pinned ? <PinOff className="h-3 w-3" /> : <Pin className="h-3 w-3" />}
+              {entry.pinned ? 'Unpin' : 'Pin'}
+            </button>
+            <button
+              type="button"
+              disabled={disabled}
+              onClick={() => onExclude(entry)}
+              className="flex items-center gap-1 text-gray-400 hover:text-red-300 disabled:opacity-50"
+            >
+              <EyeOff className="h-3 w-3" />
+              Exclude
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default NewsCurator
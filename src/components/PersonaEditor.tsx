@@ -0,0 +1,259 @@
+import React, { useState } from 'react'
+import { useForm } from 'react-hook-form'
+import { zodResolver } from '@hookform/resolvers/zod'
+import { z } from 'zod'
+import { Check, Save } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from '@/components/ui/form'
+import type { PersonalityProfile } from '@/types'
+
+const FORMALITY_LEVELS = ['formal', 'semi-formal', 'informal', 'very casual'] as const
+
+// Lists are edited as text: one key phrase per line, one "topic: angle" per line
+const personaFormSchema = z.object({
+  name: z.string(),
+  tone: z.string().trim().min(1, 'Tone is required'),
+  formality_level: z.enum(FORMALITY_LEVELS),
+  vocabulary_style: z.string(),
+  emoji_usage: z.string(),
+  sentence_structure: z.string(),
+  humor_style: z.string(),
+  engagement_style: z.string(),
+  key_phrases: z.string(),
+  topic_angles: z.string().refine(
+    (text) => splitLines(text).every((line) => line.includes(':')),
+    'Write each angle as "topic: angle"'
+  ),
+})
+
+type PersonaFormValues = z.infer<typeof personaFormSchema>
+
+function splitLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+}
+
+function toFormValues(profile: PersonalityProfile, name: string): PersonaFormValues {
+  return {
+    name,
+    tone: profile.tone,
+    formality_level: profile.formality_level,
+    vocabulary_style: profile.vocabulary_style,
+    emoji_usage: profile.emoji_usage,
+    sentence_structure: profile.sentence_structure,
+    humor_style: profile.humor_style,
+    engagement_style: profile.engagement_style,
+    key_phrases: profile.key_phrases.join('\n'),
+    topic_angles: Object.entries(profile.topic_angles)
+      .map(([topic, angle]) => `${topic}: ${angle}`)
+      .join('\n'),
+  }
+}
+
+function toProfile(values: PersonaFormValues): PersonalityProfile {
+  const topicAngles: Record<string, string> = {}
+  for (const line of splitLines(values.topic_angles)) {
+    const split = line.indexOf(':')
+    topicAngles[line.slice(0, split).trim()] = line.slice(split + 1).trim()
+  }
+
+  return {
+    tone: values.tone.trim(),
+    formality_level: values.formality_level,
+    vocabulary_style: values.vocabulary_style.trim(),
+    emoji_usage: values.emoji_usage.trim(),
+    sentence_structure: values.sentence_structure.trim(),
+    humor_style: values.humor_style.trim(),
+    engagement_style: values.engagement_style.trim(),
+    key_phrases: splitLines(values.key_phrases),
+    topic_angles: topicAngles,
+  }
+}
+
+const TEXT_FIELDS: { name: keyof PersonaFormValues; label: string; placeholder: string }[] = [
+  { name: 'tone', label: 'Tone', placeholder: 'Enthusiastic and knowledgeable' },
+  { name: 'vocabulary_style', label: 'Vocabulary', placeholder: 'Technical but accessible' },
+  { name: 'emoji_usage', label: 'Emoji usage', placeholder: 'Moderate, 2-4 per message' },
+  { name: 'sentence_structure', label: 'Sentence structure', placeholder: 'Short, punchy sentences' },
+  { name: 'humor_style', label: 'Humor', placeholder: 'Light, self-aware' },
+  { name: 'engagement_style', label: 'Engagement', placeholder: 'Ends with a question' },
+]
+
+interface PersonaEditorProps {
+  profile: PersonalityProfile
+  /** Pre-filled persona name, e.g. when editing a saved persona */
+  name?: string
+  /** Use the edited profile for the current session without saving it */
+  onApply: (profile: PersonalityProfile) => void
+  /** Save the edited profile as a named persona */
+  onSave: (name: string, profile: PersonalityProfile) => Promise<void>
+}
+
+/**
+ * Form for editing every field of a personality profile and saving it as a
+ * named persona.
+ */
+export function PersonaEditor({ profile, name = '', onApply, onSave }: PersonaEditorProps) {
+  const form = useForm<PersonaFormValues>({
+    resolver: zodResolver(personaFormSchema),
+    defaultValues: toFormValues(profile, name),
+  })
+  const [saving, setSaving] = useState(false)
+  const [saveError, setSaveError] = useState<string | null>(null)
+
+  const handleApply = form.handleSubmit((values) => onApply(toProfile(values)))
+
+  const handleSave = form.handleSubmit(async (values) => {
+    if (!values.name.trim()) {
+      form.setError('name', { message: 'Name the persona to save it' })
+      return
+    }
+
+    setSaving(true)
+    setSaveError(null)
+    try {
+      await onSave(values.name, toProfile(values))
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'Failed to save persona')
+    } finally {
+      setSaving(false)
+    }
+  })
+
+  const inputClass = 'border-slate-700 bg-slate-800 text-white'
+
+  return (
+    <Form {...form}>
+      <form onSubmit={handleApply} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Persona name</FormLabel>
+              <FormControl>
+                <Input placeholder="launch day" className={inputClass} {...field} />
+              </FormControl>
+              <FormDescription>Needed only when saving to the persona library.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="formality_level"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Formality</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className={inputClass}>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {FORMALITY_LEVELS.map((level) => (
+                    <SelectItem key={level} value={level}>
+                      {level}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          {TEXT_FIELDS.map((textField) => (
+            <FormField
+              key={textField.name}
+              control={form.control}
+              name={textField.name}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>{textField.label}</FormLabel>
+                  <FormControl>
+                    <Input placeholder={textField.placeholder} className={inputClass} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          ))}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="key_phrases"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Key phrases</FormLabel>
+              <FormControl>
+                <Textarea rows={3} className={inputClass} {...field} />
+              </FormControl>
+              <FormDescription>One phrase per line.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="topic_angles"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Topic angles</FormLabel>
+              <FormControl>
+                <Textarea rows={3} className={inputClass} {...field} />
+              </FormControl>
+              <FormDescription>One per line, as "topic: angle".</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {saveError && <p className="text-sm text-red-400">{saveError}</p>}
+
+        <div className="flex justify-end gap-2">
+          <Button
+            type="button"
+            variant="outline"
+            disabled={saving}
+            onClick={handleSave}
+            className="border-green-700 text-green-300 hover:bg-green-900/20"
+          >
+            <Save className="mr-2 h-4 w-4" />
+            {saving ? 'Saving...' : 'Save Persona'}
+          </Button>
+          <Button type="submit" className="bg-purple-600 text-white hover:bg-purple-700">
+            <Check className="mr-2 h-4 w-4" />
+            Use Profile
+          </Button>
+        </div>
+      </form>
+    </Form>
+  )
+}
+
+export default PersonaEditor
@@ -0,0 +1,94 @@
+import React, { useState } from 'react'
+import { AlertCircle, Check, Copy } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { PlatformPreview } from '@/components/PlatformPreview'
+import { PLATFORMS, platformStepId, type PlatformId } from '@/utils/platforms'
+import type { StepRun } from '@/utils/workflow'
+import type { DraftResponse } from '@/types'
+
+interface PlatformDraftsProps {
+  /** Platforms to show, in tab order */
+  platforms: PlatformId[]
+  drafts: Partial<Record<PlatformId, DraftResponse>>
+  /** Step state of the latest run, keyed by step id */
+  steps: Record<string, StepRun>
+}
+
+/**
+ * The drafts written for platforms other than Discord, one tab each, with
+ * the platform preview and a copy button.
+ */
+export function PlatformDrafts({ platforms, drafts, steps }: PlatformDraftsProps) {
+  const [copied, setCopied] = useState<PlatformId | null>(null)
+
+  function handleCopy(id: PlatformId, text: string) {
+    navigator.clipboard.writeText(text)
+    setCopied(id)
+    setTimeout(() => setCopied((current) => (current === id ? null : current)), 2000)
+  }
+
+  if (!platforms.length) {
+    return (
+      <p className="p-6 text-center text-sm text-gray-400">
+        Pick more platforms in the Generator to draft for them in the same run.
+      </p>
+    )
+  }
+
+  return (
+    <Tabs defaultValue={platforms[0]}>
+      <TabsList className="bg-slate-800 border border-slate-700">
+        {platforms.map((id) => (
+          <TabsTrigger key={id} value={id}>
+            {PLATFORMS[id].label}
+          </TabsTrigger>
+        ))}
+      </TabsList>
+
+      {platforms.map((id) => {
+        const step = steps[platformStepId(id)]
+        const draft = drafts[id]
+
+        return (
+          <TabsContent key={id} value={id} className="space-y-3 pt-2">
+            {step?.status === 'running' && (
+              <div className="flex items-center gap-2 text-xs text-gray-400">
+                <Spinner className="h-4 w-4" />
+                Writing the {PLATFORMS[id].label} draft...
+              </div>
+            )}
+            {(step?.status === 'failed' || step?.status === 'skipped') && (
+              <p className="flex items-start gap-2 text-xs text-red-400">
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+                {step.error}
+              </p>
+            )}
+            {draft ? (
+              <>
+                <PlatformPreview content={draft.draft_message} platform={id} />
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleCopy(id, draft.draft_message)}
+                  className="border-blue-700 text-blue-300 hover:bg-blue-900/20"
+                >
+                  {copied === id ? <Check className="mr-2 h-4 w-4" /> : <Copy className="mr-2 h-4 w-4" />}
+                  {copied === id ? 'Copied' : `Copy ${PLATFORMS[id].label} draft`}
+                </Button>
+              </>
+            ) : (
+              step?.status !== 'running' &&
+              !step?.error && (
+                <p className="text-xs text-gray-400">No {PLATFORMS[id].label} draft in this run yet.</p>
+              )
+            )}
+          </TabsContent>
+        )
+      })}
+    </Tabs>
+  )
+}
+
+export default PlatformDrafts
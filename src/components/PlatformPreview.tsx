@@ -0,0 +1,215 @@
+import React, { useMemo } from 'react'
+import { AlertCircle, AlertTriangle } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { DiscordMarkdown } from '@/components/DiscordMarkdown'
+import {
+  PLATFORMS,
+  splitForPlatform,
+  validatePlatformDraft,
+  type MarkupDialect,
+  type PlatformId,
+} from '@/utils/platforms'
+
+interface PlatformPreviewProps {
+  content: string
+  platform: PlatformId
+  /** Overrides the platform limit (e.g. Discord Nitro) */
+  limit?: number
+  className?: string
+}
+
+interface InlineRule {
+  pattern: RegExp
+  render: (match: RegExpExecArray, key: number) => React.ReactNode
+}
+
+const linkClass = 'text-sky-400 hover:underline'
+
+const link = (url: string, label: string, key: number) => (
+  <a key={key} href={url} target="_blank" rel="noopener noreferrer" className={linkClass}>
+    {label}
+  </a>
+)
+
+const code = (text: string, key: number) => (
+  <code key={key} className="rounded bg-slate-900 px-1 font-mono text-xs">
+    {text}
+  </code>
+)
+
+const bareUrl: InlineRule = {
+  pattern: /https?:\/\/[^\s<>)]+/,
+  render: (match, key) => link(match[0], match[0], key),
+}
+
+// Inline markup per dialect; at each position the earliest match wins
+const INLINE_RULES: Record<Exclude<MarkupDialect, 'discord'>, InlineRule[]> = {
+  slack: [
+    {
+      pattern: /<(https?:\/\/[^|>\s]+)(?:\|([^>]+))?>/,
+      render: (match, key) => link(match[1], match[2] ?? match[1], key),
+    },
+    {
+      pattern: /<!(here|channel|everyone)>/,
+      render: (match, key) => (
+        <span key={key} className="rounded bg-amber-900/40 px-1 text-amber-200">
+          @{match[1]}
+        </span>
+      ),
+    },
+    { pattern: /`([^`\n]+)`/, render: (match, key) => code(match[1], key) },
+    { pattern: /\*([^*\n]+)\*/, render: (match, key) => <strong key={key}>{match[1]}</strong> },
+    { pattern: /(?<!\w)_([^_\n]+)_(?!\w)/, render: (match, key) => <em key={key}>{match[1]}</em> },
+    { pattern: /~([^~\n]+)~/, render: (match, key) => <s key={key}>{match[1]}</s> },
+    bareUrl,
+  ],
+  telegram: [
+    {
+      pattern: /\[([^\]\n]+)\]\((https?:\/\/[^\s)]+)\)/,
+      render: (match, key) => link(match[2], match[1], key),
+    },
+    { pattern: /`([^`\n]+)`/, render: (match, key) => code(match[1], key) },
+    { pattern: /\*\*(.+?)\*\*/, render: (match, key) => <strong key={key}>{match[1]}</strong> },
+    { pattern: /__(.+?)__/, render: (match, key) => <em key={key}>{match[1]}</em> },
+    { pattern: /~~(.+?)~~/, render: (match, key) => <s key={key}>{match[1]}</s> },
+    {
+      pattern: /\|\|(.+?)\|\|/,
+      render: (match, key) => (
+        <span key={key} className="rounded bg-slate-600 text-slate-600 hover:text-gray-100">
+          {match[1]}
+        </span>
+      ),
+    },
+    bareUrl,
+  ],
+  plain: [
+    bareUrl,
+    {
+      pattern: /(?<![\w/])[#@][\p{L}\d_]+/u,
+      render: (match, key) => (
+        <span key={key} className="text-sky-400">
+          {match[0]}
+        </span>
+      ),
+    },
+  ],
+}
+
+function renderInline(text: string, rules: InlineRule[]): React.ReactNode[] {
+  const nodes: React.ReactNode[] = []
+  let rest = text
+  let key = 0
+
+  while (rest) {
+    let best: { rule: InlineRule; match: RegExpExecArray } | null = null
+    for (const rule of rules) {
+      const match = rule.pattern.exec(rest)
+      if (match && (!best || match.index < best.match.index)) best = { rule, match }
+    }
+    if (!best) {
+      nodes.push(rest)
+      break
+    }
+    if (best.match.index) nodes.push(rest.slice(0, best.match.index))
+    nodes.push(best.rule.render(best.match, key++))
+    rest = rest.slice(best.match.index + best.match[0].length)
+  }
+  return nodes
+}
+
+/** Render a Slack, Telegram or plain text post: code fences, quotes and lines */
+function LightMarkup({ content, dialect }: { content: string; dialect: Exclude<MarkupDialect, 'discord'> }) {
+  const rules = INLINE_RULES[dialect]
+  // Odd segments are inside ``` fences (plain text has none)
+  const segments = dialect === 'plain' ? [content] : content.split('```')
+
+  return (
+    <div className="space-y-1 text-sm leading-relaxed text-gray-100 break-words">
+      {segments.map((segment, idx) =>
+        idx % 2 === 1 ? (
+          <pre
+            key={idx}
+            className="overflow-x-auto rounded border border-slate-950 bg-slate-900 p-2 font-mono text-xs text-gray-200"
+          >
+            {segment.replace(/^\n/, '')}
+          </pre>
+        ) : (
+          segment.split('\n').map((line, lineIdx) => {
+            const quoted = dialect === 'slack' && /^(>|&gt;) ?/.test(line)
+            const text = quoted ? line.replace(/^(>|&gt;) ?/, '') : line
+            return (
+              <p
+                key={`${idx}-${lineIdx}`}
+                className={cn('min-h-[1em] whitespace-pre-wrap', quoted && 'border-l-4 border-gray-500 pl-3')}
+              >
+                {renderInline(text, rules)}
+              </p>
+            )
+          })
+        )
+      )}
+    </div>
+  )
+}
+
+/**
+ * Preview a draft as it would post on a platform: split into the posts it
+ * goes out as, rendered in the platform's markup, with its length and the
+ * validator's warnings.
+ */
+export function PlatformPreview({ content, platform, limit, className }: PlatformPreviewProps) {
+  const { label, dialect } = PLATFORMS[platform]
+  const check = useMemo(() => validatePlatformDraft(content, platform, { limit }), [content, platform, limit])
+  const parts = useMemo(() => splitForPlatform(content, platform, { limit }), [content, platform, limit])
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>
+          {label} · {parts.length} {parts.length === 1 ? 'post' : 'posts'}
+        </span>
+        <span
+          className={cn(
+            'tabular-nums',
+            check.length > check.limit && (parts.length > 1 ? 'text-amber-400' : 'text-red-400')
+          )}
+        >
+          {check.length} / {check.limit}
+        </span>
+      </div>
+
+      {check.issues.length > 0 && (
+        <ul className="space-y-1 text-xs">
+          {check.issues.map((issue, idx) => (
+            <li
+              key={idx}
+              className={cn(
+                'flex items-start gap-2',
+                issue.level === 'error' ? 'text-red-400' : 'text-amber-400'
+              )}
+            >
+              {issue.level === 'error' ? (
+                <AlertCircle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+              ) : (
+                <AlertTriangle className="mt-0.5 h-3.5 w-3.5 flex-shrink-0" />
+              )}
+              {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {parts.map((part, idx) => (
+        <div key={idx} className="rounded-lg border border-slate-700 bg-slate-800 p-3">
+          {dialect === 'discord' ? (
+            <DiscordMarkdown content={part} />
+          ) : (
+            <LightMarkup content={part} dialect={dialect} />
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export default PlatformPreview
@@ -0,0 +1,168 @@
+import React, { useEffect, useState } from 'react'
+import { CheckCircle2, Send } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import type { DiscordEmbed } from '@/utils/discordWebhook'
+
+interface PublishDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The draft as it will be sent, already split to DISCORD_MESSAGE_LIMIT */
+  messages: string[]
+  embeds?: DiscordEmbed[]
+}
+
+/**
+ * Confirm and send a draft to the configured Discord webhook.
+ */
+export function PublishDialog({ open, onOpenChange, messages, embeds = [] }: PublishDialogProps) {
+  const [configured, setConfigured] = useState<boolean | null>(null)
+  const [username, setUsername] = useState('')
+  const [avatarUrl, setAvatarUrl] = useState('')
+  const [threadId, setThreadId] = useState('')
+  const [allowEveryone, setAllowEveryone] = useState(false)
+  const [publishing, setPublishing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [sentCount, setSentCount] = useState<number | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setError(null)
+    setSentCount(null)
+    fetch('/api/discord/publish')
+      .then((response) => response.json())
+      .then((data) => setConfigured(Boolean(data.configured)))
+      .catch(() => setConfigured(false))
+  }, [open])
+
+  async function handlePublish() {
+    setPublishing(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/discord/publish', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          messages,
+          embeds,
+          username: username.trim() || undefined,
+          avatar_url: avatarUrl.trim() || undefined,
+          thread_id: threadId.trim() || undefined,
+          allow_everyone: allowEveryone,
+        }),
+      })
+      const data = await response.json()
+      if (!data.success) {
+        const partial = data.sent?.length ? ` (${data.sent.length} sent before the failure)` : ''
+        throw new Error((data.error || 'Publish failed') + partial)
+      }
+      setSentCount(data.sent.length)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Publish failed')
+    } finally {
+      setPublishing(false)
+    }
+  }
+
+  const fieldClass = 'border-slate-700 bg-slate-800 text-white'
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="border-purple-900/50 bg-slate-900 text-white">
+        <DialogHeader>
+          <DialogTitle>Publish to Discord</DialogTitle>
+          <DialogDescription>
+            {messages.length > 1
+              ? `The draft goes out as ${messages.length} messages, in order.`
+              : messages.length === 1
+                ? 'The draft goes out as one message.'
+                : 'Only the embeds are sent.'}
+            {embeds.length > 0 &&
+              messages.length > 0 &&
+              ` ${embeds.length} embed(s) are attached to the last message.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {configured === false && (
+          <p className="rounded-md border border-amber-600/50 bg-amber-950/20 p-3 text-sm text-amber-300">
+            No webhook configured. Set DISCORD_WEBHOOK_URL in .env.local (or point it at
+            /api/discord/mock-webhook to try it locally).
+          </p>
+        )}
+
+        <div className="space-y-3">
+          <div className="space-y-1">
+            <Label htmlFor="publish-username">Username override</Label>
+            <Input
+              id="publish-username"
+              placeholder="Webhook default"
+              value={username}
+              onChange={(event) => setUsername(event.target.value)}
+              className={fieldClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="publish-avatar">Avatar URL override</Label>
+            <Input
+              id="publish-avatar"
+              placeholder="https://..."
+              value={avatarUrl}
+              onChange={(event) => setAvatarUrl(event.target.value)}
+              className={fieldClass}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="publish-thread">Thread id</Label>
+            <Input
+              id="publish-thread"
+              placeholder="Post to the channel"
+              value={threadId}
+              onChange={(event) => setThreadId(event.target.value)}
+              className={fieldClass}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="publish-everyone"
+              checked={allowEveryone}
+              onCheckedChange={(checked) => setAllowEveryone(checked === true)}
+              className="border-purple-400"
+            />
+            <Label htmlFor="publish-everyone">Let @everyone and @here ping</Label>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {sentCount !== null && (
+          <p className="flex items-center gap-2 text-sm text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            Posted {sentCount} message{sentCount === 1 ? '' : 's'}.
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handlePublish}
+            disabled={publishing || !configured || sentCount !== null}
+            className="bg-indigo-600 text-white hover:bg-indigo-700"
+          >
+            <Send className="mr-2 h-4 w-4" />
+            {publishing ? 'Publishing...' : 'Publish'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default PublishDialog
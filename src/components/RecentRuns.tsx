@@ -0,0 +1,106 @@
+import React from 'react'
+import { History, Plus, Trash2 } from 'lucide-react'
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarFooter,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+} from '@/components/ui/sidebar'
+import type { SavedRunSummary } from '@/utils/runStore'
+
+interface RecentRunsProps {
+  /** Most recently used first */
+  runs: SavedRunSummary[]
+  /** Run shown on the page */
+  activeId: string | null
+  onOpen: (id: string) => void
+  onDelete: (id: string) => void
+  onNew: () => void
+  disabled?: boolean
+}
+
+function describeRun(run: SavedRunSummary): string {
+  const parts = [
+    new Date(run.created_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }),
+    `${run.news_count} news`,
+  ]
+  if (run.version_count) parts.push(`${run.version_count} version${run.version_count === 1 ? '' : 's'}`)
+  return parts.join(' · ')
+}
+
+/**
+ * Runs saved in the browser, most recent first. Opening one puts its news,
+ * personality and draft back on the page.
+ */
+export function RecentRuns({ runs, activeId, onOpen, onDelete, onNew, disabled }: RecentRunsProps) {
+  return (
+    <Sidebar className="border-purple-900/50 [&>[data-sidebar=sidebar]]:bg-slate-900 text-gray-200">
+      <SidebarHeader className="border-b border-purple-900/30">
+        <div className="flex items-center gap-2 px-2 py-1 text-sm font-semibold text-white">
+          <History className="h-4 w-4 text-purple-400" />
+          Recent runs
+        </div>
+      </SidebarHeader>
+      <SidebarContent>
+        <SidebarGroup>
+          <SidebarGroupLabel className="text-gray-500">Saved in this browser</SidebarGroupLabel>
+          <SidebarGroupContent>
+            {runs.length === 0 ? (
+              <p className="px-2 text-xs text-gray-500">
+                Runs are saved here as news and drafts come in.
+              </p>
+            ) : (
+              <SidebarMenu>
+                {runs.map((run) => (
+                  <SidebarMenuItem key={run.id}>
+                    <SidebarMenuButton
+                      isActive={run.id === activeId}
+                      disabled={disabled}
+                      onClick={() => onOpen(run.id)}
+                      className="h-auto flex-col items-start gap-0.5 py-2 hover:bg-purple-900/30 hover:text-white data-[active=true]:bg-purple-900/40 data-[active=true]:text-white"
+                    >
+                      <span className="w-full truncate pr-5 text-sm">{run.title}</span>
+                      <span className="text-xs text-gray-500">{describeRun(run)}</span>
+                    </SidebarMenuButton>
+                    <SidebarMenuAction
+                      showOnHover
+                      disabled={disabled}
+                      onClick={() => onDelete(run.id)}
+                      className="text-gray-500 hover:bg-red-950/40 hover:text-red-400"
+                      title="Delete run"
+                    >
+                      <Trash2 />
+                    </SidebarMenuAction>
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            )}
+          </SidebarGroupContent>
+        </SidebarGroup>
+      </SidebarContent>
+      <SidebarFooter className="border-t border-purple-900/30">
+        <SidebarMenu>
+          <SidebarMenuItem>
+            <SidebarMenuButton
+              disabled={disabled}
+              onClick={onNew}
+              className="text-purple-300 hover:bg-purple-900/30 hover:text-purple-200"
+            >
+              <Plus />
+              New run
+            </SidebarMenuButton>
+          </SidebarMenuItem>
+        </SidebarMenu>
+      </SidebarFooter>
+    </Sidebar>
+  )
+}
+
+export default RecentRuns
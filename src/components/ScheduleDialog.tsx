@@ -0,0 +1,200 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import Link from 'next/link'
+import { CalendarClock, CheckCircle2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Calendar } from '@/components/ui/calendar'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select'
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog'
+import { formatInTimeZone, getLocalTimeZone, listTimeZones } from '@/utils/timezone'
+import type { DiscordEmbed } from '@/utils/discordWebhook'
+import type { Persona } from '@/types'
+
+interface ScheduleDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  /** The draft as it will be sent, already split to DISCORD_MESSAGE_LIMIT */
+  messages: string[]
+  embeds?: DiscordEmbed[]
+  /** Persona the draft was written in, recorded with the post */
+  persona?: Persona | null
+}
+
+function toDateKey(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0')
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+/**
+ * Pick a date, time and time zone and queue the draft for publishing.
+ */
+export function ScheduleDialog({
+  open,
+  onOpenChange,
+  messages,
+  embeds = [],
+  persona,
+}: ScheduleDialogProps) {
+  const [date, setDate] = useState<Date | undefined>(undefined)
+  const [time, setTime] = useState('09:00')
+  const [timeZone, setTimeZone] = useState('UTC')
+  const [channel, setChannel] = useState('')
+  const [threadId, setThreadId] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [scheduledFor, setScheduledFor] = useState<string | null>(null)
+  const timeZones = useMemo(() => listTimeZones(), [])
+
+  useEffect(() => {
+    if (!open) return
+    setTimeZone(getLocalTimeZone())
+    setError(null)
+    setScheduledFor(null)
+  }, [open])
+
+  async function handleSchedule() {
+    if (!date) {
+      setError('Pick a date')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch('/api/schedule', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          local_time: `${toDateKey(date)}T${time}`,
+          timezone: timeZone,
+          messages,
+          embeds,
+          channel: { label: channel.trim(), thread_id: threadId.trim() || undefined },
+          persona: persona ? { id: persona.id, name: persona.name } : null,
+        }),
+      })
+      const data = await response.json()
+      if (!data.success) throw new Error(data.error || 'Failed to schedule post')
+      setScheduledFor(data.post.scheduled_for)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to schedule post')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const today = new Date()
+  today.setHours(0, 0, 0, 0)
+  const fieldClass = 'border-slate-700 bg-slate-800 text-white'
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl border-purple-900/50 bg-slate-900 text-white">
+        <DialogHeader>
+          <DialogTitle>Schedule Post</DialogTitle>
+          <DialogDescription>
+            {messages.length > 1 ? `${messages.length} messages` : 'The draft'}
+            {embeds.length > 0 && ` with ${embeds.length} embed(s)`} will be published to the
+            configured webhook at the chosen time
+            {persona ? `, written as "${persona.name}"` : ''}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-4">
+          <Calendar
+            mode="single"
+            selected={date}
+            onSelect={setDate}
+            disabled={{ before: today }}
+            className="rounded-md border border-slate-700 bg-slate-800"
+          />
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor="schedule-time">Time</Label>
+              <Input
+                id="schedule-time"
+                type="time"
+                value={time}
+                onChange={(event) => setTime(event.target.value)}
+                className={fieldClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Time zone</Label>
+              <Select value={timeZone} onValueChange={setTimeZone}>
+                <SelectTrigger className={fieldClass}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-72">
+                  {timeZones.map((zone) => (
+                    <SelectItem key={zone} value={zone}>
+                      {zone}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-channel">Channel</Label>
+              <Input
+                id="schedule-channel"
+                placeholder="#announcements"
+                value={channel}
+                onChange={(event) => setChannel(event.target.value)}
+                className={fieldClass}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="schedule-thread">Thread id</Label>
+              <Input
+                id="schedule-thread"
+                placeholder="Optional"
+                value={threadId}
+                onChange={(event) => setThreadId(event.target.value)}
+                className={fieldClass}
+              />
+            </div>
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-400">{error}</p>}
+        {scheduledFor && (
+          <p className="flex items-center gap-2 text-sm text-green-400">
+            <CheckCircle2 className="h-4 w-4" />
+            Scheduled for {formatInTimeZone(scheduledFor, timeZone)} ({timeZone}).{' '}
+            <Link href="/schedule" className="underline">
+              View schedule
+            </Link>
+          </p>
+        )}
+
+        <DialogFooter>
+          <Button
+            onClick={handleSchedule}
+            disabled={saving || scheduledFor !== null}
+            className="bg-purple-600 text-white hover:bg-purple-700"
+          >
+            <CalendarClock className="mr-2 h-4 w-4" />
+            {saving ? 'Scheduling...' : 'Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+export default ScheduleDialog
@@ -0,0 +1,95 @@
+import React, { useEffect, useState } from 'react'
+import { CheckCircle2, Circle, MinusCircle, RotateCcw, XCircle } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Spinner } from '@/components/ui/spinner'
+import type { StepRun } from '@/utils/workflow'
+
+interface WorkflowStepperProps {
+  /** Steps in pipeline order */
+  steps: { id: string; label: string }[]
+  runs: Record<string, StepRun>
+  /** Shown on failed steps when given; resumes the workflow from that step */
+  onRetry?: (stepId: string) => void
+  disabled?: boolean
+}
+
+function formatElapsed(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`
+}
+
+/**
+ * Vertical stepper showing the status and elapsed time of each workflow step.
+ */
+export function WorkflowStepper({ steps, runs, onRetry, disabled }: WorkflowStepperProps) {
+  const anyRunning = steps.some((step) => runs[step.id]?.status === 'running')
+  const [now, setNow] = useState(() => Date.now())
+
+  // Tick while something is running so elapsed times stay live
+  useEffect(() => {
+    if (!anyRunning) return
+    const timer = setInterval(() => setNow(Date.now()), 200)
+    return () => clearInterval(timer)
+  }, [anyRunning])
+
+  return (
+    <ol className="space-y-2">
+      {steps.map((step) => {
+        const run = runs[step.id]
+        const status = run?.status ?? 'pending'
+        const elapsed =
+          run?.startedAt !== undefined ? (run.finishedAt ?? now) - run.startedAt : null
+
+        return (
+          <li
+            key={step.id}
+            className="rounded-lg border border-slate-700 bg-slate-800/60 p-3 text-sm"
+          >
+            <div className="flex items-center gap-3">
+              <StepIcon status={status} />
+              <span className="flex-1 font-medium text-white">{step.label}</span>
+              {run?.seeded && <span className="text-xs text-gray-500">reused</span>}
+              {elapsed !== null && (
+                <span className="text-xs tabular-nums text-gray-400">{formatElapsed(elapsed)}</span>
+              )}
+              {status === 'failed' && onRetry && (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={disabled}
+                  onClick={() => onRetry(step.id)}
+                  className="h-7 border-red-700 text-red-300 hover:bg-red-900/20"
+                >
+                  <RotateCcw className="mr-1 h-3 w-3" />
+                  Retry
+                </Button>
+              )}
+            </div>
+            {run?.attempts > 1 && status === 'running' && (
+              <p className="mt-1 pl-7 text-xs text-gray-500">Attempt {run.attempts}</p>
+            )}
+            {run?.error && status !== 'succeeded' && (
+              <p className="mt-1 pl-7 text-xs text-red-300 break-words">{run.error}</p>
+            )}
+          </li>
+        )
+      })}
+    </ol>
+  )
+}
+
+function StepIcon({ status }: { status: StepRun['status'] }) {
+  switch (status) {
+    case 'running':
+      return <Spinner className="h-4 w-4 text-purple-300" />
+    case 'succeeded':
+      return <CheckCircle2 className="h-4 w-4 text-green-400" />
+    case 'failed':
+      return <XCircle className="h-4 w-4 text-red-400" />
+    case 'skipped':
+      return <MinusCircle className="h-4 w-4 text-gray-500" />
+    default:
+      return <Circle className="h-4 w-4 text-gray-600" />
+  }
+}
+
+export default WorkflowStepper
@@ -1,5 +1,8 @@
 // Common TypeScript types for your application
 
+import type { ProviderName } from '@/utils/providers/types'
+import type { PromptTemplateId } from '@/utils/promptTemplates'
+
 export interface User {
   id: string
   name: string
@@ -14,7 +17,99 @@ export interface ApiResponse<T> {
 
 export type Theme = 'light' | 'dark'
 
+// Agent registry (edited on the settings page, stored server-side)
+
+export type AgentRole = 'news' | 'personality' | 'draft' | 'custom'
+
+/** Pipeline steps an agent can run; custom agents can run any of them */
+export type AgentStepRole = Exclude<AgentRole, 'custom'>
+
+export interface RegisteredAgent {
+  /** Registry key, e.g. "draft-staging" */
+  id: string
+  name: string
+  role: AgentRole
+  /** Upstream agent id sent to the provider */
+  agent_id: string
+  /** Provider that serves the agent; the server default (AGENT_PROVIDER) when unset */
+  provider?: ProviderName
+  /** Template the agent's step is prompted with (regenerations use regenerate_draft) */
+  prompt_template: PromptTemplateId
+  /** Per-attempt timeout; the server default (AGENT_TIMEOUT_MS) when unset */
+  timeout_ms?: number
+}
+
 export interface AppConfig {
-  apiUrl: string
-  theme: Theme
-}
\ No newline at end of file
+  agents: RegisteredAgent[]
+  /** Registry id of the agent each step uses unless a run picks another */
+  default_agents: Record<AgentStepRole, string>
+  updated_at?: string
+}
+
+// Content workflow types (news -> personality -> draft)
+
+export interface NewsItem {
+  headline: string
+  source: string
+  date: string
+  summary: string
+  key_takeaway: string
+  url: string
+  relevance_score: number
+}
+
+export interface SearchMetadata {
+  queries_executed: string[]
+  total_results_found: number
+  results_selected: number
+  search_timestamp: string
+}
+
+export interface NewsResponse {
+  news_summary: NewsItem[]
+  search_metadata: SearchMetadata
+  confidence: number
+}
+
+export interface PersonalityProfile {
+  tone: string
+  formality_level: 'formal' | 'semi-formal' | 'informal' | 'very casual'
+  vocabulary_style: string
+  emoji_usage: string
+  sentence_structure: string
+  humor_style: string
+  engagement_style: string
+  key_phrases: string[]
+  topic_angles: Record<string, string>
+}
+
+export interface PersonalityResponse {
+  personality_profile: PersonalityProfile
+  confidence: number
+  analysis_summary: string
+}
+
+export interface DraftMetadata {
+  character_count: number
+  emoji_count: number
+  tone_match: number
+  personality_alignment: number
+  engagement_potential: number
+  news_sources_used: string[]
+}
+
+export interface DraftResponse {
+  draft_message: string
+  metadata: DraftMetadata
+  confidence: number
+  generation_notes: string
+}
+
+/** A named, hand-edited personality profile (e.g. "launch day") */
+export interface Persona {
+  id: string
+  name: string
+  profile: PersonalityProfile
+  created_at: string
+  updated_at: string
+}
@@ -0,0 +1,197 @@
+/**
+ * Agent Registry
+ *
+ * The agents the pipeline can call, as edited on the settings page: a name,
+ * a role, the upstream agent id, the provider that serves it, the prompt
+ * template its step uses and a timeout. Each step has a default agent and a
+ * run can pick another one of the same role (or a custom agent), e.g. a
+ * staging draft agent, without a code change.
+ *
+ * This module is shared by the browser and the server; the configuration is
+ * stored by configStore.ts.
+ *
+ * @example
+ * ```ts
+ * const parsed = parseAppConfig(body)
+ * if (!parsed.success) console.log(parsed.issues)
+ *
+ * const { agent_ids, templates } = resolveAgents(config, { draft: 'draft-staging' })
+ * const pipeline = createDiscordDraftPipeline(agent_ids, { templates })
+ * ```
+ */
+
+import { z } from 'zod'
+import { DEFAULT_AGENT_IDS, type PipelineAgentIds } from '@/utils/pipelines'
+import { PROMPT_TEMPLATE_IDS, type PromptTemplateId } from '@/utils/promptTemplates'
+import type { AgentProviderConfig, ProviderName } from '@/utils/providers/types'
+import type { AgentRole, AgentStepRole, AppConfig, RegisteredAgent } from '@/types'
+
+export const AGENT_ROLES: Record<AgentRole, string> = {
+  news: 'News',
+  personality: 'Personality',
+  draft: 'Draft',
+  custom: 'Custom',
+}
+
+export const AGENT_STEP_ROLES: AgentStepRole[] = ['news', 'personality', 'draft']
+
+export const PROVIDER_LABELS: Record<ProviderName, string> = {
+  lyzr: 'Lyzr',
+  openai: 'OpenAI-compatible',
+  fixture: 'Fixtures',
+}
+
+export const MIN_AGENT_TIMEOUT_MS = 1000
+export const MAX_AGENT_TIMEOUT_MS = 10 * 60 * 1000
+
+/** Registry id of the agent to use for some steps of a run */
+export type AgentSelection = Partial<Record<AgentStepRole, string>>
+
+export interface AppConfigIssue {
+  path: string
+  message: string
+}
+
+export type AppConfigParseResult =
+  | { success: true; config: AppConfig }
+  | { success: false; error: string; issues: AppConfigIssue[] }
+
+/** The built-in agents, used until a configuration is saved */
+export const DEFAULT_APP_CONFIG: AppConfig = {
+  agents: AGENT_STEP_ROLES.map((role) => ({
+    id: role,
+    name: `${AGENT_ROLES[role]} agent`,
+    role,
+    agent_id: DEFAULT_AGENT_IDS[role],
+    prompt_template: role,
+  })),
+  default_agents: { news: 'news', personality: 'personality', draft: 'draft' },
+}
+
+const RegisteredAgentSchema: z.ZodType<RegisteredAgent> = z.object({
+  id: z.string().regex(/^[\w-]+$/, 'Use letters, digits, _ and - only'),
+  name: z.string().trim().min(1, 'Name is required'),
+  role: z.enum(Object.keys(AGENT_ROLES) as [AgentRole, ...AgentRole[]]),
+  agent_id: z.string().trim().min(1, 'Agent id is required'),
+  provider: z.enum(Object.keys(PROVIDER_LABELS) as [ProviderName, ...ProviderName[]]).optional(),
+  prompt_template: z.enum(PROMPT_TEMPLATE_IDS as [PromptTemplateId, ...PromptTemplateId[]]),
+  timeout_ms: z.number().int().min(MIN_AGENT_TIMEOUT_MS).max(MAX_AGENT_TIMEOUT_MS).optional(),
+})
+
+const AppConfigSchema = z
+  .object({
+    agents: z.array(RegisteredAgentSchema).min(1, 'Register at least one agent'),
+    default_agents: z.object({ news: z.string(), personality: z.string(), draft: z.string() }),
+    updated_at: z.string().optional(),
+  })
+  .superRefine((config, ctx) => {
+    const seen = { ids: new Set<string>(), agent_ids: new Set<string>() }
+    config.agents.forEach((agent, idx) => {
+      if (seen.ids.has(agent.id)) {
+        ctx.addIssue({ code: 'custom', path: ['agents', idx, 'id'], message: `Duplicate id "${agent.id}"` })
+      }
+      // /api/agent only receives the upstream id, so it must name one entry
+      if (seen.agent_ids.has(agent.agent_id)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['agents', idx, 'agent_id'],
+          message: `Agent id ${agent.agent_id} is registered twice`,
+        })
+      }
+      seen.ids.add(agent.id)
+      seen.agent_ids.add(agent.agent_id)
+    })
+
+    for (const role of AGENT_STEP_ROLES) {
+      const agent = config.agents.find((entry) => entry.id === config.default_agents[role])
+      if (!agent || !canRunStep(agent, role)) {
+        ctx.addIssue({
+          code: 'custom',
+          path: ['default_agents', role],
+          message: `Pick a ${AGENT_ROLES[role].toLowerCase()} or custom agent`,
+        })
+      }
+    }
+  })
+
+/**
+ * Validate a configuration, e.g. the body of PUT /api/agents.
+ */
+export function parseAppConfig(value: unknown): AppConfigParseResult {
+  const parsed = AppConfigSchema.safeParse(value)
+  if (parsed.success) return { success: true, config: parsed.data }
+  return {
+    success: false,
+    error: 'Invalid agent configuration',
+    issues: parsed.error.issues.map((issue) => ({
+      path: issue.path.join('.') || '(root)',
+      message: issue.message,
+    })),
+  }
+}
+
+export function canRunStep(agent: Pick<RegisteredAgent, 'role'>, role: AgentStepRole): boolean {
+  return agent.role === role || agent.role === 'custom'
+}
+
+/** Agents a run can pick for a step */
+export function agentsForStep(config: AppConfig, role: AgentStepRole): RegisteredAgent[] {
+  return config.agents.filter((agent) => canRunStep(agent, role))
+}
+
+/**
+ * The agent each step uses: the selected one when it can run the step, else
+ * the step's default.
+ */
+export function resolveAgents(
+  config: AppConfig,
+  selection: AgentSelection = {}
+): {
+  agents: Record<AgentStepRole, RegisteredAgent>
+  agent_ids: PipelineAgentIds
+  templates: Record<AgentStepRole, PromptTemplateId>
+} {
+  const pick = (role: AgentStepRole): RegisteredAgent => {
+    const eligible = agentsForStep(config, role)
+    return (
+      eligible.find((agent) => agent.id === selection[role]) ??
+      eligible.find((agent) => agent.id === config.default_agents[role]) ??
+      DEFAULT_APP_CONFIG.agents[AGENT_STEP_ROLES.indexOf(role)]
+    )
+  }
+  const agents = { news: pick('news'), personality: pick('personality'), draft: pick('draft') }
+
+  return {
+    agents,
+    agent_ids: {
+      news: agents.news.agent_id,
+      personality: agents.personality.agent_id,
+      draft: agents.draft.agent_id,
+    },
+    templates: {
+      news: agents.news.prompt_template,
+      personality: agents.personality.prompt_template,
+      draft: agents.draft.prompt_template,
+    },
+  }
+}
+
+/** Registry ids in a selection that no agent of the right role has */
+export function unknownSelections(config: AppConfig, selection: AgentSelection): string[] {
+  return AGENT_STEP_ROLES.filter(
+    (role) =>
+      selection[role] !== undefined &&
+      !agentsForStep(config, role).some((agent) => agent.id === selection[role])
+  ).map((role) => `${role}: ${selection[role]}`)
+}
+
+/** Provider settings the registry sets for an agent, layered over the environment's */
+export function agentProviderOverrides(
+  agent: RegisteredAgent | null | undefined
+): Partial<AgentProviderConfig> {
+  if (!agent) return {}
+  return {
+    ...(agent.provider ? { provider: agent.provider } : {}),
+    ...(agent.timeout_ms ? { timeoutMs: agent.timeout_ms } : {}),
+  }
+}
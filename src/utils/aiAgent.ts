@@ -21,17 +21,21 @@ export interface AIAgentRequest {
   agent_id: string
   user_id?: string
   session_id?: string
+  temperature?: number
 }
 
 export interface AIAgentResponse {
   success: boolean
   response?: any
+  raw_response?: any
   agent_id?: string
   user_id?: string
   session_id?: string
   timestamp?: string
   error?: string
   details?: string
+  /** One entry per upstream attempt: HTTP status (null on success) and duration */
+  attempts?: { attempt: number; status: number | null; duration_ms: number; error?: string }[]
 }
 
 /**
@@ -50,7 +54,8 @@ function generateUUID(): string {
  *
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required, e.g., '68eba8c8bc2960ccbdf1b1a0')
- * @param options - Optional user_id and session_id (auto-generated if not provided)
+ * @param options - Optional user_id and session_id (auto-generated if not provided), and a
+ *   sampling temperature for providers that support one
  * @returns Promise with AI agent response
  *
  * @example
@@ -69,7 +74,7 @@ function generateUUID(): string {
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string }
+  options?: { user_id?: string; session_id?: string; temperature?: number }
 ): Promise<AIAgentResponse> {
   try {
     // Auto-generate IDs if not provided
@@ -87,6 +92,7 @@ export async function callAIAgent(
         agent_id,
         user_id,
         session_id,
+        temperature: options?.temperature,
       }),
     })
 
@@ -111,6 +117,105 @@ export async function callAIAgent(
   }
 }
 
+/**
+ * Stream the AI Agent reply as Server-Sent Events (SECURE - via Next.js API route)
+ *
+ * @param message - Your query or prompt for the AI agent
+ * @param agent_id - Agent ID (required)
+ * @param onToken - Called with each text chunk and the text received so far
+ * @param options - Optional user_id and session_id (auto-generated if not provided)
+ * @returns Promise with the final AI agent response (same shape as callAIAgent)
+ *
+ * @example
+ * ```tsx
+ * const result = await streamAIAgent('Write a haiku', agentId, (token, text) => {
+ *   console.log(text)
+ * })
+ * ```
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  onToken: (token: string, text: string) => void,
+  options?: { user_id?: string; session_id?: string }
+): Promise<AIAgentResponse> {
+  try {
+    const user_id = options?.user_id || `user-${generateUUID()}`
+    const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+
+    const response = await fetch(API_ROUTE, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream',
+      },
+      body: JSON.stringify({
+        message,
+        agent_id,
+        user_id,
+        session_id,
+        stream: true,
+      }),
+    })
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }))
+      return {
+        success: false,
+        error: errorData.error || `API returned status ${response.status}`,
+        details: errorData.details,
+      }
+    }
+
+    const reader = response.body.getReader()
+    const decoder = new TextDecoder()
+    let buffer = ''
+    let text = ''
+
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1) {
+        const frame = buffer.slice(0, boundary)
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
+
+        let event = 'message'
+        let data = ''
+        for (const line of frame.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim()
+          else if (line.startsWith('data:')) data += line.slice(5).trim()
+        }
+        if (!data) continue
+
+        const payload = JSON.parse(data)
+        if (event === 'token') {
+          text += payload.content
+          onToken(payload.content, text)
+        } else if (event === 'done' || event === 'error') {
+          return payload
+        }
+      }
+    }
+
+    return {
+      success: false,
+      error: 'Stream ended without a final response',
+      details: text,
+    }
+  } catch (error) {
+    console.error('AI Agent stream failed:', error)
+    return {
+      success: false,
+      error: 'Failed to stream AI agent',
+      details: error instanceof Error ? error.message : String(error),
+    }
+  }
+}
+
 /**
  * Hook for using AI Agent in React components
  *
@@ -170,6 +275,68 @@ export function useAIAgent() {
   }
 }
 
+/**
+ * Hook for streaming AI Agent replies in React components
+ *
+ * @example
+ * ```tsx
+ * function MyComponent() {
+ *   const { streamAgent, loading, error, text, response } = useAIAgentStream()
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={() => streamAgent('Write a haiku', agentId)} disabled={loading}>
+ *         Ask AI
+ *       </button>
+ *       <pre>{text}</pre>
+ *       {error && <p>Error: {error}</p>}
+ *     </div>
+ *   )
+ * }
+ * ```
+ */
+export function useAIAgentStream() {
+  const [loading, setLoading] = React.useState(false)
+  const [error, setError] = React.useState<string | null>(null)
+  const [text, setText] = React.useState('')
+  const [response, setResponse] = React.useState<any>(null)
+
+  const streamAgent = async (
+    message: string,
+    agent_id: string,
+    options?: { user_id?: string; session_id?: string }
+  ) => {
+    setLoading(true)
+    setError(null)
+    setText('')
+    setResponse(null)
+
+    const result = await streamAIAgent(
+      message,
+      agent_id,
+      (_token, fullText) => setText(fullText),
+      options
+    )
+
+    if (result.success) {
+      setResponse(result.response)
+    } else {
+      setError(result.error || 'Unknown error')
+    }
+
+    setLoading(false)
+    return result
+  }
+
+  return {
+    streamAgent,
+    loading,
+    error,
+    text,
+    response,
+  }
+}
+
 // React import for the hook
 import React from 'react'
 
@@ -0,0 +1,39 @@
+/**
+ * App Configuration Store
+ *
+ * The agent registry, stored as `<DATA_DIR>/config/app.json`. Until a
+ * configuration is saved the built-in agents are used. Server-side only.
+ */
+
+import { createJsonFileStore } from '@/utils/jsonFileStore'
+import { DEFAULT_APP_CONFIG, parseAppConfig } from '@/utils/agentRegistry'
+import type { AppConfig, RegisteredAgent } from '@/types'
+
+const CONFIG_ID = 'app'
+
+const configStore = createJsonFileStore<AppConfig>('config')
+
+export async function getAppConfig(): Promise<AppConfig> {
+  return (await configStore.get(CONFIG_ID)) ?? DEFAULT_APP_CONFIG
+}
+
+/**
+ * Replace the configuration.
+ * @throws Error listing the problems when the configuration is invalid
+ */
+export async function saveAppConfig(value: unknown): Promise<AppConfig> {
+  const parsed = parseAppConfig(value)
+  if (!parsed.success) {
+    throw new Error(parsed.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; '))
+  }
+
+  const config: AppConfig = { ...parsed.config, updated_at: new Date().toISOString() }
+  await configStore.put(CONFIG_ID, config)
+  return config
+}
+
+/** The registered agent with this upstream agent id, if any */
+export async function findRegisteredAgent(agent_id: string): Promise<RegisteredAgent | null> {
+  const config = await getAppConfig()
+  return config.agents.find((agent) => agent.agent_id === agent_id) ?? null
+}
@@ -0,0 +1,207 @@
+/**
+ * Discord Embed Builder
+ *
+ * Turns NewsItems into Discord embeds: headline as the linked title, summary
+ * as the description, source in the footer, the article date as the embed
+ * timestamp and the key takeaway as a field. Text is trimmed to Discord's
+ * embed limits and embeds that would push a message past the 6000-character
+ * total are dropped, with a warning for each adjustment.
+ *
+ * @example
+ * ```ts
+ * const { embeds, warnings } = buildNewsEmbeds(selectedNewsItems(curated))
+ * await publishMessages(parts, { webhookUrl, embeds })
+ * ```
+ */
+
+import type { DiscordEmbed } from '@/utils/discordWebhook'
+import type { NewsItem } from '@/types'
+
+/** Discord's documented embed limits */
+export const EMBED_LIMITS = {
+  title: 256,
+  description: 4096,
+  fields: 25,
+  fieldName: 256,
+  fieldValue: 1024,
+  footerText: 2048,
+  authorName: 256,
+  /** Combined text of every embed in one message */
+  total: 6000,
+  embedsPerMessage: 10,
+} as const
+
+/** Accent colour of the app (Tailwind purple-500) */
+export const DEFAULT_EMBED_COLOR = 0x8b5cf6
+
+export interface EmbedIssue {
+  /** Index of the embed, or null for message-wide problems */
+  index: number | null
+  field: string
+  message: string
+}
+
+export interface BuiltEmbeds {
+  embeds: DiscordEmbed[]
+  /** What was trimmed or dropped to fit the limits */
+  warnings: string[]
+}
+
+function length(text: string | undefined): number {
+  return text ? Array.from(text).length : 0
+}
+
+function truncate(text: string, max: number): string {
+  const chars = Array.from(text)
+  return chars.length <= max ? text : chars.slice(0, max - 1).join('') + '…'
+}
+
+function isHttpUrl(url: string): boolean {
+  try {
+    const parsed = new URL(url)
+    return parsed.protocol === 'http:' || parsed.protocol === 'https:'
+  } catch (e) {
+    return false
+  }
+}
+
+/** Characters Discord counts toward the 6000 total for one embed */
+export function embedLength(embed: DiscordEmbed): number {
+  return (
+    length(embed.title) +
+    length(embed.description) +
+    length(embed.footer?.text) +
+    length(embed.author?.name) +
+    (embed.fields || []).reduce((sum, field) => sum + length(field.name) + length(field.value), 0)
+  )
+}
+
+/**
+ * One embed for one news item, trimmed to the per-field limits.
+ */
+export function newsItemToEmbed(item: NewsItem, options: { color?: number } = {}): DiscordEmbed {
+  const embed: DiscordEmbed = {
+    title: truncate(item.headline.trim(), EMBED_LIMITS.title),
+    color: options.color ?? DEFAULT_EMBED_COLOR,
+  }
+
+  if (isHttpUrl(item.url)) embed.url = item.url
+  if (item.summary.trim()) embed.description = truncate(item.summary.trim(), EMBED_LIMITS.description)
+  if (item.source.trim()) embed.footer = { text: truncate(item.source.trim(), EMBED_LIMITS.footerText) }
+
+  const date = item.date ? new Date(item.date) : null
+  if (date && !Number.isNaN(date.getTime())) embed.timestamp = date.toISOString()
+
+  if (item.key_takeaway.trim()) {
+    embed.fields = [
+      {
+        name: 'Key takeaway',
+        value: truncate(item.key_takeaway.trim(), EMBED_LIMITS.fieldValue),
+      },
+    ]
+  }
+
+  return embed
+}
+
+/**
+ * Embeds for a set of news items, within the per-message limits.
+ */
+export function buildNewsEmbeds(items: NewsItem[], options: { color?: number } = {}): BuiltEmbeds {
+  const embeds: DiscordEmbed[] = []
+  const warnings: string[] = []
+  let total = 0
+
+  for (const item of items) {
+    if (embeds.length >= EMBED_LIMITS.embedsPerMessage) {
+      warnings.push(`Only ${EMBED_LIMITS.embedsPerMessage} embeds fit in one message; "${item.headline}" was left out`)
+      continue
+    }
+
+    const embed = newsItemToEmbed(item, options)
+    if (length(item.headline) > EMBED_LIMITS.title) warnings.push(`Title of "${embed.title}" was shortened`)
+    if (length(item.summary) > EMBED_LIMITS.description) {
+      warnings.push(`Description of "${embed.title}" was shortened`)
+    }
+
+    const size = embedLength(embed)
+    if (total + size > EMBED_LIMITS.total) {
+      warnings.push(`"${embed.title}" would pass the ${EMBED_LIMITS.total}-character embed total and was left out`)
+      continue
+    }
+
+    total += size
+    embeds.push(embed)
+  }
+
+  return { embeds, warnings }
+}
+
+/**
+ * Whether a value from a request body is shaped like an embed: an object
+ * whose `fields`, if any, is a list of objects. validateEmbeds assumes this.
+ */
+export function isEmbedShape(value: unknown): value is DiscordEmbed {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return false
+  const { fields } = value as { fields?: unknown }
+  return (
+    fields === undefined ||
+    (Array.isArray(fields) && fields.every((field) => field && typeof field === 'object'))
+  )
+}
+
+/**
+ * Check embeds against Discord's limits. An empty list means Discord will
+ * accept them.
+ */
+export function validateEmbeds(embeds: DiscordEmbed[]): EmbedIssue[] {
+  const issues: EmbedIssue[] = []
+  const over = (index: number, field: string, value: string | undefined, max: number) => {
+    if (length(value) > max) issues.push({ index, field, message: `${field} must be ${max} or fewer characters` })
+  }
+
+  if (embeds.length > EMBED_LIMITS.embedsPerMessage) {
+    issues.push({
+      index: null,
+      field: 'embeds',
+      message: `At most ${EMBED_LIMITS.embedsPerMessage} embeds per message`,
+    })
+  }
+
+  embeds.forEach((embed, index) => {
+    over(index, 'title', embed.title, EMBED_LIMITS.title)
+    over(index, 'description', embed.description, EMBED_LIMITS.description)
+    over(index, 'footer.text', embed.footer?.text, EMBED_LIMITS.footerText)
+    over(index, 'author.name', embed.author?.name, EMBED_LIMITS.authorName)
+
+    const fields = embed.fields || []
+    if (fields.length > EMBED_LIMITS.fields) {
+      issues.push({ index, field: 'fields', message: `At most ${EMBED_LIMITS.fields} fields per embed` })
+    }
+    fields.forEach((field, fieldIndex) => {
+      over(index, `fields[${fieldIndex}].name`, field.name, EMBED_LIMITS.fieldName)
+      over(index, `fields[${fieldIndex}].value`, field.value, EMBED_LIMITS.fieldValue)
+      if (!field.name || !field.value) {
+        issues.push({ index, field: `fields[${fieldIndex}]`, message: 'Fields need a name and a value' })
+      }
+    })
+
+    if (embed.url && !isHttpUrl(embed.url)) {
+      issues.push({ index, field: 'url', message: 'url must be an http(s) URL' })
+    }
+    if (embed.timestamp && Number.isNaN(new Date(embed.timestamp).getTime())) {
+      issues.push({ index, field: 'timestamp', message: 'timestamp must be ISO 8601' })
+    }
+  })
+
+  const total = embeds.reduce((sum, embed) => sum + embedLength(embed), 0)
+  if (total > EMBED_LIMITS.total) {
+    issues.push({
+      index: null,
+      field: 'embeds',
+      message: `Embeds total ${total} characters; Discord allows ${EMBED_LIMITS.total}`,
+    })
+  }
+
+  return issues
+}
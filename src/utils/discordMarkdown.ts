@@ -0,0 +1,330 @@
+/**
+ * Discord Markdown Parser
+ *
+ * Parses Discord's markdown dialect into a small syntax tree that the
+ * DiscordMarkdown component renders. Parsing to a tree rather than an HTML
+ * string keeps agent output from ever being injected as markup.
+ *
+ * Blocks: headers (`#`, `##`, `###`), subtext (`-#`), block quotes (`>` and
+ * `>>>`), fenced code blocks with a language tag, `-`/`*`/`1.` lists.
+ * Inline: bold, italic, underline, strikethrough, spoilers, inline code,
+ * masked links, bare and `<...>` links, `<t:unix:style>` timestamps,
+ * `<@user>`, `<@&role>`, `<#channel>`, `@everyone`/`@here` and custom emoji.
+ *
+ * Like the Discord client, markers without a closing partner are shown as
+ * typed and a backslash escapes the next symbol.
+ *
+ * @example
+ * ```ts
+ * const blocks = parseDiscordMarkdown('## Update\n> **Big** news <t:1700000000:R>')
+ * ```
+ */
+
+export type DiscordInline =
+  | { type: 'text'; text: string }
+  | { type: 'br' }
+  | { type: 'bold' | 'italic' | 'underline' | 'strike' | 'spoiler'; children: DiscordInline[] }
+  | { type: 'code'; text: string }
+  | { type: 'link'; url: string; children: DiscordInline[] }
+  | { type: 'timestamp'; unix: number; style: TimestampStyle }
+  | { type: 'mention'; kind: 'user' | 'role' | 'channel'; id: string }
+  | { type: 'everyone'; target: 'everyone' | 'here' }
+  | { type: 'emoji'; name: string; id: string; animated: boolean }
+
+export type DiscordBlock =
+  | { type: 'paragraph'; children: DiscordInline[] }
+  | { type: 'heading'; level: 1 | 2 | 3; children: DiscordInline[] }
+  | { type: 'subtext'; children: DiscordInline[] }
+  | { type: 'blockquote'; children: DiscordBlock[] }
+  | { type: 'code_block'; language: string | null; code: string }
+  | { type: 'list'; ordered: boolean; start: number; items: DiscordInline[][] }
+
+/** Discord timestamp styles: short/long time, short/long date, short/long date-time, relative */
+export type TimestampStyle = 't' | 'T' | 'd' | 'D' | 'f' | 'F' | 'R'
+
+// Inline rules, tried in order at each position. Patterns follow the ones the
+// Discord client uses (simple-markdown), trimmed to what drafts need.
+const ESCAPE = /^\\([^0-9A-Za-z\s])/
+const INLINE_CODE = /^(`+)([\s\S]*?[^`])\1(?!`)/
+const SPOILER = /^\|\|([\s\S]+?)\|\|/
+const BOLD = /^\*\*((?:\\[\s\S]|[^\\])+?)\*\*(?!\*)/
+const UNDERLINE = /^__((?:\\[\s\S]|[^\\])+?)__(?!_)/
+const ITALIC_STAR = /^\*(?=\S)((?:\*\*|\\[\s\S]|\s+(?:\\[\s\S]|[^\s*\\]|\*\*)|[^\s*\\])+?)\*(?!\*)/
+const ITALIC_UNDERSCORE = /^_((?:__|\\[\s\S]|[^\\_])+?)_(?![A-Za-z0-9_])/
+const STRIKE = /^~~([\s\S]+?)~~/
+const MASKED_LINK = /^\[([^\]\n]+)\]\(\s*<?(https?:\/\/[^\s)>]+)>?\s*\)/
+const ANGLE_LINK = /^<(https?:\/\/[^\s>]+)>/
+const BARE_LINK = /^https?:\/\/[^\s<]+[^<.,:;"')\]\s]/
+const TIMESTAMP = /^<t:(-?\d{1,13})(?::([tTdDfFR]))?>/
+const USER_MENTION = /^<@!?(\d+)>/
+const ROLE_MENTION = /^<@&(\d+)>/
+const CHANNEL_MENTION = /^<#(\d+)>/
+const CUSTOM_EMOJI = /^<(a?):(\w{2,32}):(\d+)>/
+const EVERYONE = /^@(everyone|here)\b/
+// Plain text runs up to the next character that could start a rule
+const TEXT = /^[\s\S][^\\`|*_~[<h@\n]*/
+
+type InlineRule = (match: RegExpExecArray) => DiscordInline
+
+const INLINE_RULES: [RegExp, InlineRule][] = [
+  [ESCAPE, (m) => ({ type: 'text', text: m[1] })],
+  [INLINE_CODE, (m) => ({ type: 'code', text: m[2].trim() || m[2] })],
+  [SPOILER, (m) => ({ type: 'spoiler', children: parseDiscordInline(m[1]) })],
+  [BOLD, (m) => ({ type: 'bold', children: parseDiscordInline(m[1]) })],
+  [UNDERLINE, (m) => ({ type: 'underline', children: parseDiscordInline(m[1]) })],
+  [ITALIC_STAR, (m) => ({ type: 'italic', children: parseDiscordInline(m[1]) })],
+  [ITALIC_UNDERSCORE, (m) => ({ type: 'italic', children: parseDiscordInline(m[1]) })],
+  [STRIKE, (m) => ({ type: 'strike', children: parseDiscordInline(m[1]) })],
+  [MASKED_LINK, (m) => ({ type: 'link', url: m[2], children: parseDiscordInline(m[1]) })],
+  [ANGLE_LINK, (m) => ({ type: 'link', url: m[1], children: [{ type: 'text', text: m[1] }] })],
+  [BARE_LINK, (m) => ({ type: 'link', url: m[0], children: [{ type: 'text', text: m[0] }] })],
+  [
+    TIMESTAMP,
+    (m) => ({ type: 'timestamp', unix: Number(m[1]), style: (m[2] as TimestampStyle) || 'f' }),
+  ],
+  [ROLE_MENTION, (m) => ({ type: 'mention', kind: 'role', id: m[1] })],
+  [USER_MENTION, (m) => ({ type: 'mention', kind: 'user', id: m[1] })],
+  [CHANNEL_MENTION, (m) => ({ type: 'mention', kind: 'channel', id: m[1] })],
+  [CUSTOM_EMOJI, (m) => ({ type: 'emoji', animated: m[1] === 'a', name: m[2], id: m[3] })],
+  [EVERYONE, (m) => ({ type: 'everyone', target: m[1] as 'everyone' | 'here' })],
+]
+
+/**
+ * Parse inline markdown (one paragraph, header or list item).
+ */
+export function parseDiscordInline(source: string): DiscordInline[] {
+  const nodes: DiscordInline[] = []
+  let rest = source
+
+  const pushText = (text: string) => {
+    const last = nodes[nodes.length - 1]
+    if (last?.type === 'text') {
+      last.text += text
+    } else {
+      nodes.push({ type: 'text', text })
+    }
+  }
+
+  outer: while (rest) {
+    if (rest[0] === '\n') {
+      nodes.push({ type: 'br' })
+      rest = rest.slice(1)
+      continue
+    }
+
+    for (const [pattern, build] of INLINE_RULES) {
+      const match = pattern.exec(rest)
+      if (match) {
+        const node = build(match)
+        if (node.type === 'text') {
+          pushText(node.text)
+        } else {
+          nodes.push(node)
+        }
+        rest = rest.slice(match[0].length)
+        continue outer
+      }
+    }
+
+    const text = (TEXT.exec(rest) as RegExpExecArray)[0]
+    pushText(text)
+    rest = rest.slice(text.length)
+  }
+
+  return nodes
+}
+
+const CODE_FENCE = /^```(?:([\w+#.-]+)?\n)?([\s\S]*?)```/
+const HEADING = /^(#{1,3}) +(\S.*)$/
+const SUBTEXT = /^-# +(\S.*)$/
+const LIST_ITEM = /^\s*(?:([-*])|(\d{1,9})\.) +(.*)$/
+
+/**
+ * Parse a whole message into blocks.
+ */
+export function parseDiscordMarkdown(source: string, options: { inQuote?: boolean } = {}): DiscordBlock[] {
+  const blocks: DiscordBlock[] = []
+  const text = source.replace(/\r\n?/g, '\n')
+  let paragraph: string[] = []
+
+  const flushParagraph = () => {
+    // Blank lines around blocks are kept as spacing, except at the edges
+    while (paragraph.length && !paragraph[0].trim()) paragraph.shift()
+    while (paragraph.length && !paragraph[paragraph.length - 1].trim()) paragraph.pop()
+    if (paragraph.length) {
+      blocks.push({ type: 'paragraph', children: parseDiscordInline(paragraph.join('\n')) })
+    }
+    paragraph = []
+  }
+
+  let pos = 0
+  while (pos < text.length) {
+    const rest = text.slice(pos)
+    const lineEnd = rest.indexOf('\n')
+    const line = lineEnd === -1 ? rest : rest.slice(0, lineEnd)
+    const next = lineEnd === -1 ? text.length : pos + lineEnd + 1
+
+    const fence = CODE_FENCE.exec(rest)
+    if (fence) {
+      flushParagraph()
+      blocks.push({ type: 'code_block', language: fence[1] || null, code: fence[2].replace(/\n$/, '') })
+      pos += fence[0].length
+      // Skip the newline after the closing fence
+      if (text[pos] === '\n') pos++
+      continue
+    }
+
+    if (!options.inQuote && line.startsWith('>>> ')) {
+      flushParagraph()
+      blocks.push({
+        type: 'blockquote',
+        children: parseDiscordMarkdown(rest.slice(4), { inQuote: true }),
+      })
+      break
+    }
+
+    if (!options.inQuote && /^> ?/.test(line) && line !== '>') {
+      flushParagraph()
+      // Consecutive quoted lines form one quote
+      const quoted: string[] = []
+      let cursor = pos
+      while (cursor < text.length) {
+        const end = text.indexOf('\n', cursor)
+        const current = end === -1 ? text.slice(cursor) : text.slice(cursor, end)
+        if (!/^> ?/.test(current) || current.startsWith('>>> ')) break
+        quoted.push(current.replace(/^> ?/, ''))
+        cursor = end === -1 ? text.length : end + 1
+      }
+      blocks.push({
+        type: 'blockquote',
+        children: parseDiscordMarkdown(quoted.join('\n'), { inQuote: true }),
+      })
+      pos = cursor
+      continue
+    }
+
+    const heading = HEADING.exec(line)
+    if (heading) {
+      flushParagraph()
+      blocks.push({
+        type: 'heading',
+        level: heading[1].length as 1 | 2 | 3,
+        children: parseDiscordInline(heading[2]),
+      })
+      pos = next
+      continue
+    }
+
+    const subtext = SUBTEXT.exec(line)
+    if (subtext) {
+      flushParagraph()
+      blocks.push({ type: 'subtext', children: parseDiscordInline(subtext[1]) })
+      pos = next
+      continue
+    }
+
+    const item = LIST_ITEM.exec(line)
+    if (item) {
+      flushParagraph()
+      const ordered = Boolean(item[2])
+      const last = blocks[blocks.length - 1]
+      // Continue the previous list when the item kind matches
+      if (last?.type === 'list' && last.ordered === ordered) {
+        last.items.push(parseDiscordInline(item[3]))
+      } else {
+        blocks.push({
+          type: 'list',
+          ordered,
+          start: ordered ? Number(item[2]) : 1,
+          items: [parseDiscordInline(item[3])],
+        })
+      }
+      pos = next
+      continue
+    }
+
+    paragraph.push(line)
+    pos = next
+  }
+
+  flushParagraph()
+  return blocks
+}
+
+/**
+ * Format a `<t:...>` timestamp the way the Discord client shows it.
+ * Uses the viewer's locale and time zone.
+ */
+export function formatDiscordTimestamp(
+  unix: number,
+  style: TimestampStyle = 'f',
+  now: number = Date.now()
+): string {
+  const date = new Date(unix * 1000)
+  if (Number.isNaN(date.getTime())) return 'Invalid Date'
+
+  const formats: Record<Exclude<TimestampStyle, 'R'>, Intl.DateTimeFormatOptions> = {
+    t: { hour: 'numeric', minute: '2-digit' },
+    T: { hour: 'numeric', minute: '2-digit', second: '2-digit' },
+    d: { year: 'numeric', month: '2-digit', day: '2-digit' },
+    D: { year: 'numeric', month: 'long', day: 'numeric' },
+    f: { year: 'numeric', month: 'long', day: 'numeric', hour: 'numeric', minute: '2-digit' },
+    F: {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    },
+  }
+
+  if (style !== 'R') return new Intl.DateTimeFormat(undefined, formats[style]).format(date)
+
+  const seconds = Math.round((date.getTime() - now) / 1000)
+  const units: [Intl.RelativeTimeFormatUnit, number][] = [
+    ['year', 31536000],
+    ['month', 2592000],
+    ['day', 86400],
+    ['hour', 3600],
+    ['minute', 60],
+    ['second', 1],
+  ]
+  const [unit, size] = units.find(([, size]) => Math.abs(seconds) >= size) ?? ['second', 1]
+  return new Intl.RelativeTimeFormat(undefined, { numeric: 'auto' }).format(
+    Math.round(seconds / size),
+    unit
+  )
+}
+
+// A grapheme is an emoji if it holds a pictograph, a flag's regional
+// indicators, a keycap mark or a skin tone
+const EMOJI_GRAPHEME = /\p{Extended_Pictographic}|\p{Regional_Indicator}|\u20E3|\p{Emoji_Modifier}/u
+// Fallback without Intl.Segmenter: pictographs with their ZWJ sequences
+const UNICODE_EMOJI = /\p{Extended_Pictographic}(?:\uFE0F|\p{Emoji_Modifier}|\u200D\p{Extended_Pictographic})*/gu
+const CUSTOM_EMOJI_GLOBAL = /<a?:\w{2,32}:\d+>/g
+
+let graphemeSegmenter: Intl.Segmenter | null | undefined
+
+/**
+ * Count Unicode and custom Discord emoji. Unicode emoji are counted per
+ * grapheme, so a flag, a keycap or a ZWJ sequence with skin tones is one.
+ */
+export function countEmoji(text: string): number {
+  if (graphemeSegmenter === undefined) {
+    graphemeSegmenter =
+      typeof Intl !== 'undefined' && 'Segmenter' in Intl
+        ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+        : null
+  }
+
+  let unicode = 0
+  if (graphemeSegmenter) {
+    for (const { segment } of graphemeSegmenter.segment(text)) {
+      if (EMOJI_GRAPHEME.test(segment)) unicode++
+    }
+  } else {
+    unicode = text.match(UNICODE_EMOJI)?.length ?? 0
+  }
+  return unicode + (text.match(CUSTOM_EMOJI_GLOBAL)?.length ?? 0)
+}
@@ -0,0 +1,188 @@
+/**
+ * Discord Webhook Client
+ *
+ * Posts approved drafts to a Discord webhook. A draft split by the message
+ * splitter goes out as several messages, in order; embeds ride on the last
+ * one. `@everyone`/`@here` are suppressed through `allowed_mentions` unless
+ * the caller opts in. Rate-limited sends (429) wait for `retry_after` and try
+ * again.
+ *
+ * The target is DISCORD_WEBHOOK_URL. For local testing point it at the mock
+ * receiver, which records payloads instead of sending them:
+ *
+ *   DISCORD_WEBHOOK_URL=http://localhost:3333/api/discord/mock-webhook
+ *
+ * Server-side only: the webhook URL is a credential.
+ */
+
+import { sleep } from '@/utils'
+import { parseRetryAfter } from '@/utils/providers/resilience'
+
+export interface DiscordEmbed {
+  title?: string
+  description?: string
+  url?: string
+  /** ISO 8601 timestamp */
+  timestamp?: string
+  color?: number
+  footer?: { text: string; icon_url?: string }
+  author?: { name: string; url?: string; icon_url?: string }
+  thumbnail?: { url: string }
+  image?: { url: string }
+  fields?: { name: string; value: string; inline?: boolean }[]
+}
+
+export interface AllowedMentions {
+  parse: ('users' | 'roles' | 'everyone')[]
+}
+
+/** Body of one webhook execution */
+export interface WebhookPayload {
+  content?: string
+  username?: string
+  avatar_url?: string
+  embeds?: DiscordEmbed[]
+  allowed_mentions?: AllowedMentions
+}
+
+export interface PublishOptions {
+  webhookUrl: string
+  username?: string
+  avatarUrl?: string
+  embeds?: DiscordEmbed[]
+  /** Post into this thread of the webhook's channel */
+  threadId?: string
+  /** Let @everyone and @here ping (default false) */
+  allowEveryone?: boolean
+  /** Rate-limit retries per message (default 3) */
+  maxRetries?: number
+}
+
+export interface SentMessage {
+  index: number
+  status: number
+  /** Discord message id */
+  id?: string
+}
+
+export interface PublishResult {
+  ok: boolean
+  sent: SentMessage[]
+  /** Set when a message failed; later messages were not sent */
+  error?: string
+  status?: number
+}
+
+/** Discord allows at most 10 embeds per message */
+export const MAX_EMBEDS_PER_MESSAGE = 10
+
+// discord.com, discordapp.com and the ptb/canary hosts
+const DISCORD_WEBHOOK_URL = /^https:\/\/(?:(?:ptb|canary)\.)?discord(?:app)?\.com\/api(?:\/v\d+)?\/webhooks\/\d+\/[\w-]+$/
+
+export function isDiscordWebhookUrl(url: string): boolean {
+  return DISCORD_WEBHOOK_URL.test(url)
+}
+
+/**
+ * The configured webhook, or null when DISCORD_WEBHOOK_URL is unset.
+ */
+export function getWebhookUrl(): string | null {
+  return process.env.DISCORD_WEBHOOK_URL || null
+}
+
+export function buildAllowedMentions(allowEveryone = false): AllowedMentions {
+  return { parse: allowEveryone ? ['users', 'roles', 'everyone'] : ['users', 'roles'] }
+}
+
+/**
+ * Execute the webhook once, waiting out rate limits.
+ */
+async function executeWebhook(
+  webhookUrl: string,
+  payload: WebhookPayload,
+  threadId: string | undefined,
+  maxRetries: number
+): Promise<{ status: number; data: any }> {
+  const url = new URL(webhookUrl)
+  // wait=true makes Discord return the created message (and its id)
+  url.searchParams.set('wait', 'true')
+  if (threadId) url.searchParams.set('thread_id', threadId)
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(payload),
+    })
+    const data = await response.json().catch(() => null)
+
+    if (response.status !== 429 || attempt >= maxRetries) {
+      return { status: response.status, data }
+    }
+
+    // Discord reports retry_after in seconds in the body; fall back to the header
+    const waitMs =
+      typeof data?.retry_after === 'number'
+        ? data.retry_after * 1000
+        : parseRetryAfter(response.headers.get('Retry-After')) ?? 1000
+    await sleep(Math.min(waitMs, 10_000))
+  }
+}
+
+/**
+ * Send a series of messages in order. Stops at the first failure so a
+ * half-sent series is never posted out of order.
+ */
+export async function publishMessages(
+  messages: string[],
+  options: PublishOptions
+): Promise<PublishResult> {
+  const embeds = options.embeds || []
+  if (embeds.length > MAX_EMBEDS_PER_MESSAGE) {
+    return { ok: false, sent: [], error: `At most ${MAX_EMBEDS_PER_MESSAGE} embeds per message`, status: 400 }
+  }
+
+  // Embeds-only posts are allowed, so there is always at least one message
+  const contents = messages.filter((message) => message.trim())
+  const series = contents.length ? contents : embeds.length ? [''] : []
+  if (!series.length) {
+    return { ok: false, sent: [], error: 'Nothing to publish', status: 400 }
+  }
+
+  const sent: SentMessage[] = []
+  for (const [index, content] of series.entries()) {
+    const isLast = index === series.length - 1
+    const payload: WebhookPayload = {
+      ...(content ? { content } : {}),
+      ...(options.username ? { username: options.username } : {}),
+      ...(options.avatarUrl ? { avatar_url: options.avatarUrl } : {}),
+      ...(isLast && embeds.length ? { embeds } : {}),
+      allowed_mentions: buildAllowedMentions(options.allowEveryone),
+    }
+
+    let result: { status: number; data: any }
+    try {
+      result = await executeWebhook(options.webhookUrl, payload, options.threadId, options.maxRetries ?? 3)
+    } catch (error) {
+      return {
+        ok: false,
+        sent,
+        error: `Webhook request failed: ${error instanceof Error ? error.message : String(error)}`,
+        status: 502,
+      }
+    }
+
+    if (result.status < 200 || result.status >= 300) {
+      return {
+        ok: false,
+        sent,
+        error: `Discord rejected message ${index + 1} of ${series.length}: ${result.data?.message || `HTTP ${result.status}`}`,
+        status: result.status,
+      }
+    }
+
+    sent.push({ index, status: result.status, id: result.data?.id })
+  }
+
+  return { ok: true, sent }
+}
@@ -0,0 +1,107 @@
+/**
+ * Draft Analyzer
+ *
+ * Measures a draft message locally instead of trusting the numbers the draft
+ * agent reports about its own output. Links and mentions are counted from the
+ * Discord markdown tree, so `[masked](links)`, `<@&role>` mentions and text
+ * inside code spans are treated the way Discord treats them.
+ *
+ * @example
+ * ```ts
+ * const analysis = analyzeDraft(draft.draft_message)
+ * const mismatches = compareWithReported(analysis, draft.metadata)
+ * ```
+ */
+
+import {
+  countEmoji,
+  parseDiscordMarkdown,
+  type DiscordBlock,
+  type DiscordInline,
+} from '@/utils/discordMarkdown'
+import type { DraftMetadata } from '@/types'
+
+export interface DraftAnalysis {
+  /** Unicode code points, so an emoji made of one code point counts once */
+  character_count: number
+  /** Unicode emoji (ZWJ sequences count once) plus custom `<:name:id>` emoji */
+  emoji_count: number
+  link_count: number
+  /** User, role and channel mentions plus @everyone/@here */
+  mention_count: number
+  word_count: number
+  line_count: number
+  reading_time_seconds: number
+}
+
+export interface MetricMismatch {
+  field: 'character_count' | 'emoji_count'
+  reported: number
+  actual: number
+}
+
+/** Average silent reading speed for chat messages */
+export const WORDS_PER_MINUTE = 200
+
+function walkInline(nodes: DiscordInline[], visit: (node: DiscordInline) => void): void {
+  for (const node of nodes) {
+    visit(node)
+    if ('children' in node) walkInline(node.children, visit)
+  }
+}
+
+function walkBlocks(blocks: DiscordBlock[], visit: (node: DiscordInline) => void): void {
+  for (const block of blocks) {
+    if (block.type === 'blockquote') {
+      walkBlocks(block.children, visit)
+    } else if (block.type === 'list') {
+      block.items.forEach((item) => walkInline(item, visit))
+    } else if (block.type !== 'code_block') {
+      walkInline(block.children, visit)
+    }
+  }
+}
+
+/**
+ * Measure a draft message.
+ */
+export function analyzeDraft(message: string): DraftAnalysis {
+  const text = message ?? ''
+  let linkCount = 0
+  let mentionCount = 0
+
+  walkBlocks(parseDiscordMarkdown(text), (node) => {
+    if (node.type === 'link') linkCount++
+    if (node.type === 'mention' || node.type === 'everyone') mentionCount++
+  })
+
+  const words = text.split(/\s+/).filter((word) => /[\p{L}\p{N}]/u.test(word)).length
+
+  return {
+    character_count: Array.from(text).length,
+    emoji_count: countEmoji(text),
+    link_count: linkCount,
+    mention_count: mentionCount,
+    word_count: words,
+    line_count: text ? text.split(/\r\n?|\n/).length : 0,
+    reading_time_seconds: Math.ceil((words / WORDS_PER_MINUTE) * 60),
+  }
+}
+
+/**
+ * Fields where the agent's self-reported metadata disagrees with the
+ * measured draft.
+ */
+export function compareWithReported(analysis: DraftAnalysis, reported: DraftMetadata): MetricMismatch[] {
+  const fields: MetricMismatch['field'][] = ['character_count', 'emoji_count']
+  return fields
+    .filter((field) => reported[field] !== analysis[field])
+    .map((field) => ({ field, reported: reported[field], actual: analysis[field] }))
+}
+
+export function formatReadingTime(seconds: number): string {
+  if (seconds < 60) return `${seconds}s`
+  const minutes = Math.floor(seconds / 60)
+  const rest = seconds % 60
+  return rest ? `${minutes}m ${rest}s` : `${minutes}m`
+}
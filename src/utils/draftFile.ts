@@ -0,0 +1,208 @@
+/**
+ * Draft Files
+ *
+ * The JSON written by the Draft JSON export and read back by the import
+ * flow. Files carry a `version`; older files are validated against their own
+ * schema and migrated step by step to the current one, so every version ever
+ * written can still be loaded.
+ *
+ * Versions:
+ * - 1: unversioned `{draft, metadata, timestamp, personality, news}` with
+ *      the draft as a plain string and news as a bare item list
+ * - 2: full workflow state - draft, personality and news responses, the
+ *      curated feed, the voice and the send settings
+ *
+ * @example
+ * ```ts
+ * const text = serializeDraftFile(createDraftFile({ draft, personality, news, curation }))
+ * const parsed = parseDraftFile(text)
+ * if (parsed.success) restore(parsed.file)
+ * ```
+ */
+
+import { z } from 'zod'
+import {
+  DraftMetadataSchema,
+  DraftResponseSchema,
+  NewsItemSchema,
+  NewsResponseSchema,
+  PersonalityResponseSchema,
+} from '@/utils/schemas'
+import { newsItemKey, type CuratedNewsItem } from '@/utils/newsCuration'
+import type { DraftResponse, NewsItem, NewsResponse, PersonalityResponse } from '@/types'
+
+export const DRAFT_FILE_FORMAT = 'content-coordinator/draft'
+export const DRAFT_FILE_VERSION = 2
+
+export interface DraftFileCurationEntry {
+  item: NewsItem
+  selected: boolean
+  pinned: boolean
+}
+
+export interface DraftFile {
+  format: typeof DRAFT_FILE_FORMAT
+  version: typeof DRAFT_FILE_VERSION
+  saved_at: string
+  draft: DraftResponse
+  personality: PersonalityResponse | null
+  news: NewsResponse | null
+  /** News feed in display order with selection and pins; empty when never curated */
+  curation: DraftFileCurationEntry[]
+  /** Saved persona the draft was written in, matched by id on import */
+  persona: { id: string; name: string } | null
+  message_limit?: number
+  send_mode?: 'text' | 'embeds' | 'both'
+}
+
+export interface DraftFileIssue {
+  path: string
+  message: string
+}
+
+export type DraftFileParseResult =
+  | {
+      success: true
+      file: DraftFile
+      /** Version the file was saved as, when it had to be migrated */
+      migrated_from: number | null
+    }
+  | { success: false; error: string; issues: DraftFileIssue[] }
+
+const DraftFileV1Schema = z.object({
+  draft: z.string().min(1),
+  metadata: DraftMetadataSchema.optional(),
+  timestamp: z.string().optional(),
+  personality: PersonalityResponseSchema.nullable().optional(),
+  news: z.array(NewsItemSchema).optional(),
+})
+
+const DraftFileSchema: z.ZodType<DraftFile> = z.object({
+  format: z.literal(DRAFT_FILE_FORMAT),
+  version: z.literal(DRAFT_FILE_VERSION),
+  saved_at: z.string().default(''),
+  draft: DraftResponseSchema,
+  personality: PersonalityResponseSchema.nullable().default(null),
+  news: NewsResponseSchema.nullable().default(null),
+  curation: z
+    .array(z.object({ item: NewsItemSchema, selected: z.boolean(), pinned: z.boolean() }))
+    .default([]),
+  persona: z.object({ id: z.string(), name: z.string() }).nullable().default(null),
+  message_limit: z.number().int().positive().optional(),
+  send_mode: z.enum(['text', 'embeds', 'both']).optional(),
+})
+
+// Schema each version is checked against before it is migrated
+const VERSION_SCHEMAS: Record<number, z.ZodTypeAny> = {
+  1: DraftFileV1Schema,
+  2: DraftFileSchema,
+}
+
+// migrations[n] turns a valid version-n file into a version n+1 file
+const migrations: Record<number, (file: any) => unknown> = {
+  1: (file: z.infer<typeof DraftFileV1Schema>) => ({
+    format: DRAFT_FILE_FORMAT,
+    version: 2,
+    saved_at: file.timestamp ?? '',
+    draft: { draft_message: file.draft, ...(file.metadata ? { metadata: file.metadata } : {}) },
+    personality: file.personality ?? null,
+    news: file.news?.length ? { news_summary: file.news } : null,
+    curation: [],
+    persona: null,
+  }),
+}
+
+function toIssues(error: z.ZodError): DraftFileIssue[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.') || '(root)',
+    message: issue.message,
+  }))
+}
+
+// Unversioned files are version 1
+function detectVersion(raw: Record<string, unknown>): number | null {
+  if (raw.version === undefined) return typeof raw.draft === 'string' ? 1 : null
+  return typeof raw.version === 'number' && Number.isInteger(raw.version) ? raw.version : null
+}
+
+/**
+ * Parse, validate and migrate the text of a draft file.
+ */
+export function parseDraftFile(text: string): DraftFileParseResult {
+  let raw: unknown
+  try {
+    raw = JSON.parse(text)
+  } catch (e) {
+    return { success: false, error: 'Not a JSON file', issues: [] }
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return { success: false, error: 'Not a draft file', issues: [] }
+  }
+
+  const version = detectVersion(raw as Record<string, unknown>)
+  if (version === null || !VERSION_SCHEMAS[version]) {
+    return {
+      success: false,
+      error:
+        version !== null && version > DRAFT_FILE_VERSION
+          ? `Saved by a newer version of the app (file version ${version}, this app reads up to ${DRAFT_FILE_VERSION})`
+          : 'Not a draft file',
+      issues: [],
+    }
+  }
+
+  let file: unknown = raw
+  for (let current = version; current <= DRAFT_FILE_VERSION; current++) {
+    const checked = VERSION_SCHEMAS[current].safeParse(file)
+    if (!checked.success) {
+      return {
+        success: false,
+        error:
+          current === version
+            ? `Invalid draft file (version ${version})`
+            : `Could not migrate draft file from version ${version}`,
+        issues: toIssues(checked.error),
+      }
+    }
+    file = current < DRAFT_FILE_VERSION ? migrations[current](checked.data) : checked.data
+  }
+
+  return {
+    success: true,
+    file: file as DraftFile,
+    migrated_from: version === DRAFT_FILE_VERSION ? null : version,
+  }
+}
+
+/** Build a file from the current workflow state */
+export function createDraftFile(state: {
+  draft: DraftResponse
+  personality: PersonalityResponse | null
+  news: NewsResponse | null
+  curation?: CuratedNewsItem[]
+  persona?: { id: string; name: string } | null
+  message_limit?: number
+  send_mode?: DraftFile['send_mode']
+}): DraftFile {
+  return {
+    format: DRAFT_FILE_FORMAT,
+    version: DRAFT_FILE_VERSION,
+    saved_at: new Date().toISOString(),
+    draft: state.draft,
+    personality: state.personality,
+    news: state.news,
+    curation: (state.curation ?? []).map(({ item, selected, pinned }) => ({ item, selected, pinned })),
+    persona: state.persona ?? null,
+    message_limit: state.message_limit,
+    send_mode: state.send_mode,
+  }
+}
+
+export function serializeDraftFile(file: DraftFile): string {
+  return JSON.stringify(file, null, 2)
+}
+
+/** The curated feed stored in a file (or a saved run), ready for the news panel */
+export function draftFileCuration(file: Pick<DraftFile, 'curation'>): CuratedNewsItem[] {
+  return file.curation.map((entry) => ({ ...entry, key: newsItemKey(entry.item) }))
+}
@@ -0,0 +1,192 @@
+/**
+ * Draft History
+ *
+ * Every draft the agent generates and every hand edit is kept as a numbered
+ * version for the session, together with what produced it: the rendered
+ * prompt, the persona profile and the news items the draft step received.
+ * Consecutive edits of the same version are coalesced into one "edited"
+ * version so typing does not create a version per keystroke.
+ *
+ * @example
+ * ```ts
+ * let history = addDraftVersion([], { source: 'generated', draft, prompt, persona, news })
+ * history = recordDraftEdit(history, history[0].id, 'Tweaked text')
+ * diffWords(history[0].draft.draft_message, history[1].draft.draft_message)
+ * // [{ type: 'equal', text: ... }, { type: 'removed', text: ... }, { type: 'added', text: ... }]
+ * ```
+ */
+
+import type { DraftResponse, NewsItem, PersonalityProfile } from '@/types'
+
+export type DraftVersionSource = 'generated' | 'regenerated' | 'variant' | 'imported' | 'edited'
+
+/** The voice a version was written in */
+export interface DraftVersionPersona {
+  /** Saved persona id, or null for a profile from the personality agent or the editor */
+  id: string | null
+  name: string
+  profile: PersonalityProfile
+}
+
+export interface DraftVersion {
+  id: string
+  /** 1-based, in creation order */
+  number: number
+  source: DraftVersionSource
+  /** Version this one was edited from */
+  parent_id: string | null
+  created_at: string
+  updated_at: string
+  draft: DraftResponse
+  prompt: string | null
+  persona: DraftVersionPersona | null
+  news: NewsItem[]
+}
+
+export interface NewDraftVersion {
+  source: DraftVersionSource
+  draft: DraftResponse
+  prompt?: string | null
+  persona?: DraftVersionPersona | null
+  news?: NewsItem[]
+  parent_id?: string | null
+}
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed'
+
+export interface DiffSegment {
+  type: DiffSegmentType
+  text: string
+}
+
+function generateId(): string {
+  return `ver_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/** Append a version; the history is returned oldest first */
+export function addDraftVersion(history: DraftVersion[], input: NewDraftVersion): DraftVersion[] {
+  const now = new Date().toISOString()
+  const version: DraftVersion = {
+    id: generateId(),
+    number: (history[history.length - 1]?.number ?? 0) + 1,
+    source: input.source,
+    parent_id: input.parent_id ?? null,
+    created_at: now,
+    updated_at: now,
+    draft: input.draft,
+    prompt: input.prompt ?? null,
+    persona: input.persona ?? null,
+    news: input.news ?? [],
+  }
+  return [...history, version]
+}
+
+/**
+ * Record a hand edit of version `baseId`. Editing the newest version when it
+ * is itself an edit updates it in place; otherwise a new "edited" version is
+ * appended that keeps the base version's prompt, persona and news.
+ */
+export function recordDraftEdit(history: DraftVersion[], baseId: string, text: string): DraftVersion[] {
+  const base = history.find((version) => version.id === baseId)
+  if (!base || base.draft.draft_message === text) return history
+
+  const latest = history[history.length - 1]
+  if (latest.id === base.id && base.source === 'edited') {
+    const updated: DraftVersion = {
+      ...base,
+      updated_at: new Date().toISOString(),
+      draft: { ...base.draft, draft_message: text },
+    }
+    return [...history.slice(0, -1), updated]
+  }
+
+  return addDraftVersion(history, {
+    source: 'edited',
+    parent_id: base.id,
+    draft: { ...base.draft, draft_message: text },
+    prompt: base.prompt,
+    persona: base.persona,
+    news: base.news,
+  })
+}
+
+// Words with the whitespace that follows them, so joining tokens restores the text
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+\s*/g) || []
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegmentType, text: string) {
+  const last = segments[segments.length - 1]
+  if (last?.type === type) last.text += text
+  else segments.push({ type, text })
+}
+
+/**
+ * Word-level diff of two texts (longest common subsequence of words).
+ * Words are compared without their trailing whitespace, so a reflowed
+ * paragraph only shows its changed words.
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before)
+  const b = tokenize(after)
+  const key = (token: string) => token.trim()
+
+  // The shared head and tail need no LCS table
+  let start = 0
+  while (start < a.length && start < b.length && key(a[start]) === key(b[start])) start++
+  let endA = a.length
+  let endB = b.length
+  while (endA > start && endB > start && key(a[endA - 1]) === key(b[endB - 1])) {
+    endA--
+    endB--
+  }
+
+  const segments: DiffSegment[] = []
+  if (start > 0) pushSegment(segments, 'equal', b.slice(0, start).join(''))
+
+  const rows = endA - start
+  const cols = endB - start
+  // lengths[i][j]: LCS of a[start + i..endA) and b[start + j..endB)
+  const lengths = new Uint32Array((rows + 1) * (cols + 1))
+  const at = (i: number, j: number) => i * (cols + 1) + j
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[at(i, j)] =
+        key(a[start + i]) === key(b[start + j])
+          ? lengths[at(i + 1, j + 1)] + 1
+          : Math.max(lengths[at(i + 1, j)], lengths[at(i, j + 1)])
+    }
+  }
+
+  let i = 0
+  let j = 0
+  while (i < rows || j < cols) {
+    if (i < rows && j < cols && key(a[start + i]) === key(b[start + j])) {
+      pushSegment(segments, 'equal', b[start + j])
+      i++
+      j++
+    } else if (i < rows && (j === cols || lengths[at(i + 1, j)] >= lengths[at(i, j + 1)])) {
+      pushSegment(segments, 'removed', a[start + i])
+      i++
+    } else {
+      pushSegment(segments, 'added', b[start + j])
+      j++
+    }
+  }
+
+  if (endB < b.length) pushSegment(segments, 'equal', b.slice(endB).join(''))
+  return segments
+}
+
+/** Words added and removed between two versions */
+export function diffStats(segments: DiffSegment[]): { added: number; removed: number } {
+  const words = (text: string) => text.split(/\s+/).filter(Boolean).length
+  return segments.reduce(
+    (stats, segment) => {
+      if (segment.type === 'added') stats.added += words(segment.text)
+      if (segment.type === 'removed') stats.removed += words(segment.text)
+      return stats
+    },
+    { added: 0, removed: 0 }
+  )
+}
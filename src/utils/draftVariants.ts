@@ -0,0 +1,227 @@
+/**
+ * Draft Variants
+ *
+ * Plans several draft-agent calls for the same news and persona, each with
+ * its own angle hint and/or sampling temperature, and ranks the resulting
+ * drafts by a weighted mix of the agent's self-reported scores (tone_match,
+ * personality_alignment, engagement_potential) and local checks that measure
+ * the text itself.
+ *
+ * @example
+ * ```ts
+ * const specs = planVariants(3, { angles: true, temperatures: true })
+ * // call the draft agent once per spec with variantPrompt(prompt, spec.angle)
+ * const ranked = rankVariants(drafts, DEFAULT_RANKING_WEIGHTS, { limit: 2000, news })
+ * ranked[0] // the winner
+ * ```
+ */
+
+import { analyzeDraft, compareWithReported, type DraftAnalysis } from '@/utils/draftAnalyzer'
+import { DISCORD_MESSAGE_LIMIT, validateMessageLength } from '@/utils/messageSplitter'
+import type { DraftResponse, NewsItem } from '@/types'
+
+export interface VariantSpec {
+  /** Extra instruction appended to the draft prompt */
+  angle?: string
+  temperature?: number
+}
+
+/** One draft-agent call of a variant batch */
+export interface DraftVariantRun {
+  id: string
+  spec: VariantSpec
+  status: 'running' | 'succeeded' | 'failed'
+  /** Prompt sent to the agent, angle hint included */
+  prompt?: string
+  draft?: DraftResponse
+  error?: string
+}
+
+export interface RankingWeights {
+  tone_match: number
+  personality_alignment: number
+  engagement_potential: number
+  /** Weight of the mean local check score */
+  local_checks: number
+}
+
+export interface LocalCheck {
+  id: 'length' | 'metrics' | 'sources' | 'reading_time'
+  label: string
+  /** 0-1 */
+  score: number
+  detail: string
+}
+
+export interface RankedVariant<T extends { draft?: DraftResponse }> {
+  variant: T
+  /** Weighted score, 0-1 */
+  score: number
+  /** 1 is the winner */
+  rank: number
+  analysis: DraftAnalysis
+  checks: LocalCheck[]
+  local_score: number
+}
+
+export const MAX_VARIANTS = 5
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  tone_match: 0.25,
+  personality_alignment: 0.25,
+  engagement_potential: 0.25,
+  local_checks: 0.25,
+}
+
+export const DEFAULT_VARIANT_ANGLES = [
+  'Lead with the most surprising story.',
+  'Open with a question to the community.',
+  'Keep it short: a punchy TL;DR with bullet points.',
+  'Tell it as one story that connects the news items.',
+  'Focus on practical takeaways for builders.',
+]
+
+// Temperatures are spread over this range when requested
+const TEMPERATURE_RANGE = [0.5, 1.1] as const
+
+// The draft prompt asks for 2-3 news items
+const TARGET_SOURCES = { min: 2, max: 3 }
+
+// Longer than this reads as a wall of text in a channel
+const MAX_READING_SECONDS = 60
+
+/**
+ * One spec per variant. Angles cycle through DEFAULT_VARIANT_ANGLES and
+ * temperatures are spaced evenly across TEMPERATURE_RANGE.
+ */
+export function planVariants(
+  count: number,
+  options: { angles?: boolean; temperatures?: boolean } = {}
+): VariantSpec[] {
+  const total = Math.max(1, Math.min(MAX_VARIANTS, Math.floor(count)))
+  const [low, high] = TEMPERATURE_RANGE
+
+  return Array.from({ length: total }, (_, idx) => {
+    const spec: VariantSpec = {}
+    if (options.angles) spec.angle = DEFAULT_VARIANT_ANGLES[idx % DEFAULT_VARIANT_ANGLES.length]
+    if (options.temperatures) {
+      const t = total === 1 ? (low + high) / 2 : low + ((high - low) * idx) / (total - 1)
+      spec.temperature = Math.round(t * 100) / 100
+    }
+    return spec
+  })
+}
+
+/** The draft prompt with a variant's angle hint appended */
+export function variantPrompt(prompt: string, angle?: string): string {
+  return angle ? `${prompt}\n\nAngle for this version: ${angle}` : prompt
+}
+
+/** Short description of a spec for labels, e.g. "Open with a question... - t=0.8" */
+export function describeVariantSpec(spec: VariantSpec): string {
+  const parts = [spec.angle ?? 'No angle hint']
+  if (spec.temperature !== undefined) parts.push(`t=${spec.temperature}`)
+  return parts.join(' - ')
+}
+
+// A news item counts as used when the draft links it or names its source or headline
+function sourcesReferenced(text: string, news: NewsItem[]): number {
+  const haystack = text.toLowerCase()
+  return news.filter((item) =>
+    [item.url, item.source, item.headline].some(
+      (needle) => needle && haystack.includes(needle.toLowerCase())
+    )
+  ).length
+}
+
+/**
+ * Checks computed from the draft text rather than the agent's own report.
+ */
+export function runLocalChecks(
+  draft: DraftResponse,
+  options: { limit?: number; news?: NewsItem[] } = {}
+): { analysis: DraftAnalysis; checks: LocalCheck[]; score: number } {
+  const limit = options.limit ?? DISCORD_MESSAGE_LIMIT
+  const analysis = analyzeDraft(draft.draft_message)
+  const length = validateMessageLength(draft.draft_message, limit)
+  const mismatches = compareWithReported(analysis, draft.metadata)
+
+  const checks: LocalCheck[] = [
+    {
+      id: 'length',
+      label: 'Fits one message',
+      score: length.ok ? 1 : limit / length.length,
+      detail: `${length.length} / ${limit} characters`,
+    },
+    {
+      id: 'metrics',
+      label: 'Honest metadata',
+      score: Math.max(0, 1 - mismatches.length * 0.5),
+      detail: mismatches.length
+        ? `Reported ${mismatches.map((m) => m.field.replace('_', ' ')).join(' and ')} is off`
+        : 'Reported counts match the text',
+    },
+    {
+      id: 'reading_time',
+      label: 'Quick read',
+      score: Math.min(1, MAX_READING_SECONDS / Math.max(1, analysis.reading_time_seconds)),
+      detail: `${analysis.reading_time_seconds}s to read`,
+    },
+  ]
+
+  if (options.news?.length) {
+    const used = sourcesReferenced(draft.draft_message, options.news)
+    checks.push({
+      id: 'sources',
+      label: 'Cites the news',
+      score:
+        used >= TARGET_SOURCES.min && used <= TARGET_SOURCES.max
+          ? 1
+          : used > TARGET_SOURCES.max
+            ? 0.75
+            : used / TARGET_SOURCES.min,
+      detail: `${used} of ${options.news.length} news items referenced`,
+    })
+  }
+
+  const score = checks.reduce((sum, check) => sum + check.score, 0) / checks.length
+  return { analysis, checks, score }
+}
+
+const clamp = (value: number) => (Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : 0)
+
+/**
+ * Score and sort variants, best first. Ties keep their original order;
+ * variants without a draft (still running or failed) are left out.
+ */
+export function rankVariants<T extends { draft?: DraftResponse }>(
+  variants: T[],
+  weights: RankingWeights = DEFAULT_RANKING_WEIGHTS,
+  options: { limit?: number; news?: NewsItem[] } = {}
+): RankedVariant<T>[] {
+  const totalWeight =
+    weights.tone_match + weights.personality_alignment + weights.engagement_potential + weights.local_checks
+
+  return variants
+    .filter((variant) => variant.draft)
+    .map((variant) => {
+      const { analysis, checks, score: localScore } = runLocalChecks(variant.draft as DraftResponse, options)
+      const { metadata } = variant.draft as DraftResponse
+      const weighted =
+        weights.tone_match * clamp(metadata.tone_match) +
+        weights.personality_alignment * clamp(metadata.personality_alignment) +
+        weights.engagement_potential * clamp(metadata.engagement_potential) +
+        weights.local_checks * localScore
+
+      return {
+        variant,
+        score: totalWeight > 0 ? weighted / totalWeight : 0,
+        rank: 0,
+        analysis,
+        checks,
+        local_score: localScore,
+      }
+    })
+    .sort((a, b) => b.score - a.score)
+    .map((ranked, idx) => ({ ...ranked, rank: idx + 1 }))
+}
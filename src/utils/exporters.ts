@@ -0,0 +1,282 @@
+/**
+ * Draft Exporters
+ *
+ * Pure functions that turn a draft (and the news behind it) into files:
+ * Discord-ready Markdown, sanitized HTML for newsletters, plain text, a CSV
+ * of the news items and a ZIP bundle with everything plus the run as a
+ * draft file. HTML and plain text are rendered from the Discord markdown
+ * tree, so agent output is escaped rather than passed through as markup.
+ *
+ * @example
+ * ```ts
+ * exportPlainText('**Big** news: [read](https://example.com)')
+ * // 'Big news: read (https://example.com)\n'
+ * const zip = exportBundle({ draft, personality, news, curation })
+ * ```
+ */
+
+import {
+  formatDiscordTimestamp,
+  parseDiscordMarkdown,
+  type DiscordBlock,
+  type DiscordInline,
+} from '@/utils/discordMarkdown'
+import { createDraftFile, serializeDraftFile } from '@/utils/draftFile'
+import { splitMessage } from '@/utils/messageSplitter'
+import { createZip } from '@/utils/zipWriter'
+import type { NewsItem } from '@/types'
+
+export type ExportFormat = 'markdown' | 'html' | 'text' | 'csv' | 'zip' | 'json'
+
+export interface RenderOptions {
+  /** Reference time for relative `<t:...:R>` timestamps (default now) */
+  now?: number
+}
+
+/** Everything createDraftFile takes, plus the message limit used to split the draft */
+export type BundleInput = Parameters<typeof createDraftFile>[0] & { limit?: number }
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mime: string }> = {
+  markdown: { label: 'Discord Markdown', extension: 'md', mime: 'text/markdown' },
+  html: { label: 'HTML (newsletter)', extension: 'html', mime: 'text/html' },
+  text: { label: 'Plain text', extension: 'txt', mime: 'text/plain' },
+  csv: { label: 'News CSV', extension: 'csv', mime: 'text/csv' },
+  zip: { label: 'ZIP bundle', extension: 'zip', mime: 'application/zip' },
+  json: { label: 'Draft JSON', extension: 'json', mime: 'application/json' },
+}
+
+const ensureNewline = (text: string) => (text.endsWith('\n') ? text : `${text}\n`)
+
+/** The draft as typed, ready to paste into Discord */
+export function exportMarkdown(message: string): string {
+  return ensureNewline(message.trim())
+}
+
+// ---------------------------------------------------------------------------
+// HTML
+// ---------------------------------------------------------------------------
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;')
+}
+
+function inlineHtml(nodes: DiscordInline[], options: RenderOptions): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+          return escapeHtml(node.text)
+        case 'br':
+          return '<br>'
+        case 'bold':
+          return `<strong>${inlineHtml(node.children, options)}</strong>`
+        case 'italic':
+          return `<em>${inlineHtml(node.children, options)}</em>`
+        case 'underline':
+          return `<u>${inlineHtml(node.children, options)}</u>`
+        case 'strike':
+          return `<s>${inlineHtml(node.children, options)}</s>`
+        case 'spoiler':
+          return `<span class="spoiler">${inlineHtml(node.children, options)}</span>`
+        case 'code':
+          return `<code>${escapeHtml(node.text)}</code>`
+        case 'link':
+          // The parser only produces http(s) links
+          return `<a href="${escapeHtml(node.url)}" rel="noopener noreferrer">${inlineHtml(node.children, options)}</a>`
+        case 'timestamp': {
+          const date = new Date(node.unix * 1000)
+          const label = escapeHtml(formatDiscordTimestamp(node.unix, node.style, options.now))
+          return Number.isNaN(date.getTime())
+            ? label
+            : `<time datetime="${date.toISOString()}">${label}</time>`
+        }
+        case 'mention':
+          return `<span class="mention">${node.kind === 'channel' ? '#' : '@'}${escapeHtml(node.id)}</span>`
+        case 'everyone':
+          return `<span class="mention">@${node.target}</span>`
+        case 'emoji':
+          return `<img src="https://cdn.discordapp.com/emojis/${node.id}.${node.animated ? 'gif' : 'png'}" alt=":${escapeHtml(node.name)}:" width="20" height="20">`
+      }
+    })
+    .join('')
+}
+
+function blockHtml(block: DiscordBlock, options: RenderOptions): string {
+  switch (block.type) {
+    case 'paragraph':
+      return `<p>${inlineHtml(block.children, options)}</p>`
+    case 'heading':
+      return `<h${block.level}>${inlineHtml(block.children, options)}</h${block.level}>`
+    case 'subtext':
+      return `<p><small>${inlineHtml(block.children, options)}</small></p>`
+    case 'blockquote':
+      return `<blockquote>${block.children.map((child) => blockHtml(child, options)).join('')}</blockquote>`
+    case 'code_block': {
+      const language = block.language?.replace(/[^\w+-]/g, '')
+      const attr = language ? ` class="language-${language}"` : ''
+      return `<pre><code${attr}>${escapeHtml(block.code)}</code></pre>`
+    }
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul'
+      const start = block.ordered && block.start !== 1 ? ` start="${block.start}"` : ''
+      const items = block.items.map((item) => `<li>${inlineHtml(item, options)}</li>`).join('')
+      return `<${tag}${start}>${items}</${tag}>`
+    }
+  }
+}
+
+/** The draft as an HTML fragment; every piece of text is escaped */
+export function renderDraftHtml(message: string, options: RenderOptions = {}): string {
+  return parseDiscordMarkdown(message)
+    .map((block) => blockHtml(block, options))
+    .join('\n')
+}
+
+const HTML_STYLE = `body{font-family:system-ui,sans-serif;line-height:1.5;max-width:640px;margin:2rem auto;padding:0 1rem;color:#1f2937}
+blockquote{border-left:4px solid #d1d5db;margin:0;padding-left:1rem;color:#4b5563}
+pre{background:#f3f4f6;padding:.75rem;overflow-x:auto}code{background:#f3f4f6;padding:0 .2em}
+.mention{color:#4f46e5;font-weight:600}.spoiler{background:#1f2937;color:#1f2937}.spoiler:hover{color:#fff}`
+
+/** A standalone HTML document for newsletter tools */
+export function exportHtml(message: string, options: RenderOptions & { title?: string } = {}): string {
+  const title = escapeHtml(options.title || 'Discord draft')
+  return [
+    '<!DOCTYPE html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    `<title>${title}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    '</head>',
+    '<body>',
+    renderDraftHtml(message, options),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n')
+}
+
+// ---------------------------------------------------------------------------
+// Plain text
+// ---------------------------------------------------------------------------
+
+function inlineText(nodes: DiscordInline[], options: RenderOptions): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case 'text':
+        case 'code':
+          return node.text
+        case 'br':
+          return '\n'
+        case 'bold':
+        case 'italic':
+        case 'underline':
+        case 'strike':
+        case 'spoiler':
+          return inlineText(node.children, options)
+        case 'link': {
+          const label = inlineText(node.children, options)
+          return label === node.url ? label : `${label} (${node.url})`
+        }
+        case 'timestamp':
+          return formatDiscordTimestamp(node.unix, node.style, options.now)
+        case 'mention':
+          return `${node.kind === 'channel' ? '#' : '@'}${node.id}`
+        case 'everyone':
+          return `@${node.target}`
+        case 'emoji':
+          return `:${node.name}:`
+      }
+    })
+    .join('')
+}
+
+function blockText(block: DiscordBlock, options: RenderOptions): string {
+  switch (block.type) {
+    case 'paragraph':
+    case 'heading':
+    case 'subtext':
+      return inlineText(block.children, options)
+    case 'blockquote':
+      return block.children.map((child) => blockText(child, options)).join('\n\n')
+    case 'code_block':
+      return block.code.replace(/\n$/, '')
+    case 'list':
+      return block.items
+        .map((item, idx) => `${block.ordered ? `${block.start + idx}.` : '-'} ${inlineText(item, options)}`)
+        .join('\n')
+  }
+}
+
+/** The draft with the markdown stripped; links keep their URL in brackets */
+export function exportPlainText(message: string, options: RenderOptions = {}): string {
+  const text = parseDiscordMarkdown(message)
+    .map((block) => blockText(block, options))
+    .join('\n\n')
+  return ensureNewline(text.trim())
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+const CSV_COLUMNS: (keyof NewsItem)[] = [
+  'headline',
+  'source',
+  'date',
+  'relevance_score',
+  'url',
+  'summary',
+  'key_takeaway',
+]
+
+// Quote per RFC 4180; text that a spreadsheet would run as a formula gets a leading '
+function csvCell(value: unknown): string {
+  let text = value === undefined || value === null ? '' : String(value)
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`
+  return /[",\r\n]/.test(text) || text !== text.trim() ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/** News items, one row each, with their relevance scores */
+export function exportNewsCsv(items: NewsItem[]): string {
+  const rows = [CSV_COLUMNS, ...items.map((item) => CSV_COLUMNS.map((column) => item[column]))]
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// ---------------------------------------------------------------------------
+// ZIP bundle
+// ---------------------------------------------------------------------------
+
+/**
+ * Every format in one archive, plus the run as a draft file that the import
+ * flow can load. Drafts over the limit also get one file per message.
+ */
+export function exportBundle(input: BundleInput, options: RenderOptions = {}): Uint8Array<ArrayBuffer> {
+  const { limit, ...state } = input
+  const file = createDraftFile(state)
+  const message = file.draft.draft_message
+  const modified = new Date(file.saved_at)
+  const entries = [
+    { name: 'draft.md', data: exportMarkdown(message) },
+    { name: 'draft.html', data: exportHtml(message, options) },
+    { name: 'draft.txt', data: exportPlainText(message, options) },
+    { name: 'draft.json', data: serializeDraftFile(file) },
+  ]
+
+  if (file.news) entries.push({ name: 'news.csv', data: exportNewsCsv(file.news.news_summary) })
+
+  const parts = limit ? splitMessage(message, { limit }) : [message]
+  if (parts.length > 1) {
+    parts.forEach((part, idx) =>
+      entries.push({ name: `messages/${String(idx + 1).padStart(2, '0')}.md`, data: exportMarkdown(part) })
+    )
+  }
+
+  return createZip(entries.map((entry) => ({ ...entry, modified })))
+}
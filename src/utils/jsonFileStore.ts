@@ -0,0 +1,107 @@
+/**
+ * JSON File Store
+ *
+ * Minimal server-side persistence: one pretty-printed JSON file per record in
+ * a directory under DATA_DIR (default `.data` in the project root). Writes go
+ * through a temp file and rename, and are serialised per record so parallel
+ * updates never interleave. Server-side only.
+ *
+ * @example
+ * ```ts
+ * const runs = createJsonFileStore<WorkflowRunRecord>('workflow-runs')
+ * await runs.put(run.id, run)
+ * const run = await runs.get(id)
+ * ```
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+
+export interface JsonFileStore<T> {
+  get(id: string): Promise<T | null>
+  put(id: string, value: T): Promise<void>
+  list(): Promise<T[]>
+  remove(id: string): Promise<boolean>
+}
+
+const SAFE_ID = /^[\w-]+$/
+
+export function getDataDir(): string {
+  return path.resolve(process.env.DATA_DIR || path.join(process.cwd(), '.data'))
+}
+
+/**
+ * Create a store for records under `<DATA_DIR>/<name>/<id>.json`.
+ * Ids must be made of letters, digits, `_` and `-`.
+ */
+export function createJsonFileStore<T>(name: string): JsonFileStore<T> {
+  const dir = path.join(getDataDir(), name)
+  const pending = new Map<string, Promise<void>>()
+
+  const fileFor = (id: string) => {
+    if (!SAFE_ID.test(id)) throw new Error(`Invalid record id "${id}"`)
+    return path.join(dir, `${id}.json`)
+  }
+
+  const read = async (file: string): Promise<T | null> => {
+    try {
+      return JSON.parse(await fs.readFile(file, 'utf8'))
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  return {
+    async get(id) {
+      if (!SAFE_ID.test(id)) return null
+      await pending.get(id)
+      return read(fileFor(id))
+    },
+
+    put(id, value) {
+      const file = fileFor(id)
+      const write = async () => {
+        await fs.mkdir(dir, { recursive: true })
+        const temp = `${file}.${process.pid}.tmp`
+        await fs.writeFile(temp, JSON.stringify(value, null, 2), 'utf8')
+        await fs.rename(temp, file)
+      }
+
+      // Chain after any write still in flight for this record
+      const next = (pending.get(id) || Promise.resolve()).then(write, write)
+      pending.set(id, next)
+      next.finally(() => {
+        if (pending.get(id) === next) pending.delete(id)
+      }).catch(() => {})
+      return next
+    },
+
+    async list() {
+      let files: string[]
+      try {
+        files = await fs.readdir(dir)
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return []
+        throw error
+      }
+
+      const records = await Promise.all(
+        files.filter((file) => file.endsWith('.json')).map((file) => read(path.join(dir, file)))
+      )
+      return records.filter((record): record is Awaited<T> => record !== null) as T[]
+    },
+
+    async remove(id) {
+      if (!SAFE_ID.test(id)) return false
+      await pending.get(id)
+      try {
+        await fs.unlink(fileFor(id))
+        return true
+      } catch (error: any) {
+        if (error?.code === 'ENOENT') return false
+        throw error
+      }
+    },
+  }
+}
@@ -1,106 +1,97 @@
+import type { ZodType } from 'zod';
+
+interface ParseAttempt {
+    success: boolean;
+    data: any;
+    error: string | null;
+    method: 'json-parse' | 'boundaries' | 'fixes' | 'fixes+boundaries' | null;
+    fixes: string[];
+    /** The trimmed text that parsed, for the 'boundaries' method */
+    bounded?: string;
+}
+
 /**
- * Parse JSON from LLM responses with bulletproof error handling
- * @param {any} response - The response to parse (string, object, or any type)
- * @param {object|null|undefined} options - Parsing options (can be null, undefined, or an object)
- * @returns {any} Parsed JSON or null if parsing fails
+ * Build the extraction/fixing helpers used by every parsing entry point
  */
-function parseLLMJson(response: any, options: Record<string, any> | null | undefined = {}): any {
-    // BULLETPROOF: Handle null/undefined/invalid options - never crash!
-    if (!options || typeof options !== 'object' || Array.isArray(options)) {
-        options = {};
-    }
-
-    const {
-        attemptFix = true,
-        maxBlocks = 5,
-        preferFirst = true,  // Prefer first valid JSON found
-        allowPartial = false // Allow partial/truncated JSON
-    } = options;
-
-    // BULLETPROOF: Validate and normalize input - handle any type
-    if (response === null || response === undefined) {
-        return null; // Can't parse null/undefined - return null safely
-    }
-
-    // Convert non-string inputs to string
-    if (typeof response !== 'string') {
-        try {
-            response = String(response);
-        } catch (e) {
-            return null; // Can't convert to string - return null safely
-        }
-    }
-
-    // Check for empty string after conversion
-    if (!response || response.trim().length === 0) {
-        return null; // Empty string - return null safely
-    }
-
+const createParserTools = ({
+    attemptFix = true,
+    maxBlocks = 5,
+    preferFirst = true,
+    allowPartial = false
+}: Record<string, any>) => {
     // Cache for performance
     const jsonCache = new Map();
 
     // Enhanced JSON fixing function
-    const fixCommonJsonIssues = (jsonStr) => {
+    // Every repair is named so parse reports can list the ones that changed the text
+    const fixCommonJsonIssues = (jsonStr: string): { fixed: string; fixes: string[] } => {
         // Check cache first
         if (jsonCache.has(jsonStr)) {
             return jsonCache.get(jsonStr);
         }
 
         let fixed = jsonStr;
+        const fixes: string[] = [];
+        const apply = (name: string, fix: (text: string) => string) => {
+            const next = fix(fixed);
+            if (next !== fixed) {
+                fixes.push(name);
+                fixed = next;
+            }
+        };
 
         // Remove BOM if present
-        fixed = fixed.replace(/^\uFEFF/, '');
+        apply('remove-bom', (text) => text.replace(/^\uFEFF/, ''));
 
         // Remove all types of comments more aggressively
-        fixed = fixed.replace(/\/\/.*$/gm, '');
-        fixed = fixed.replace(/\/\*[\s\S]*?\*\//g, '');
-        fixed = fixed.replace(/^\s*#.*$/gm, ''); // Python-style comments
+        apply('strip-comments', (text) => text
+            .replace(/\/\/.*$/gm, '')
+            .replace(/\/\*[\s\S]*?\*\//g, '')
+            .replace(/^\s*#.*$/gm, '')); // Python-style comments
 
         // Handle escaped characters that might break parsing
-        fixed = fixed.replace(/\\'/g, "'");
-        fixed = fixed.replace(/\\"/g, '"');
+        apply('unescape-quotes', (text) => text.replace(/\\'/g, "'").replace(/\\"/g, '"'));
 
         // Fix truncated strings (common in LLM outputs)
         if (allowPartial) {
             // Close unclosed strings
-            const quoteCount = (fixed.match(/"/g) || []).length;
-            if (quoteCount % 2 !== 0) {
-                fixed += '"';
-            }
+            apply('close-truncated-string', (text) => {
+                const quoteCount = (text.match(/"/g) || []).length;
+                return quoteCount % 2 !== 0 ? text + '"' : text;
+            });
         }
 
         // Remove trailing commas more comprehensively
-        fixed = fixed.replace(/,(\s*[}\]])/g, '$1');
-        fixed = fixed.replace(/,\s*$/g, '');
+        apply('remove-trailing-commas', (text) => text.replace(/,(\s*[}\]])/g, '$1').replace(/,\s*$/g, ''));
 
         // Fix unquoted keys (including those with hyphens and dots)
-        fixed = fixed.replace(/([{,]\s*)([a-zA-Z_$][\w\-\.]*)\s*:/g, '$1"$2":');
+        apply('quote-keys', (text) => text.replace(/([{,]\s*)([a-zA-Z_$][\w\-\.]*)\s*:/g, '$1"$2":'));
 
         // Convert single quotes to double quotes more carefully
         // Handle nested quotes
-        fixed = fixed.replace(/'([^'\\]*(\\.[^'\\]*)*)'/g, '"$1"');
+        apply('single-to-double-quotes', (text) => text.replace(/'([^'\\]*(\\.[^'\\]*)*)'/g, '"$1"'));
 
         // Fix boolean and null values that might be incorrectly formatted
-        fixed = fixed.replace(/:\s*True\b/gi, ': true');
-        fixed = fixed.replace(/:\s*False\b/gi, ': false');
-        fixed = fixed.replace(/:\s*None\b/gi, ': null');
-        fixed = fixed.replace(/:\s*undefined\b/gi, ': null');
-
-        // Handle Python-style lists/dicts
-        fixed = fixed.replace(/\bTrue\b/g, 'true');
-        fixed = fixed.replace(/\bFalse\b/g, 'false');
-        fixed = fixed.replace(/\bNone\b/g, 'null');
+        // and Python-style lists/dicts
+        apply('python-literals', (text) => text
+            .replace(/:\s*True\b/gi, ': true')
+            .replace(/:\s*False\b/gi, ': false')
+            .replace(/:\s*None\b/gi, ': null')
+            .replace(/:\s*undefined\b/gi, ': null')
+            .replace(/\bTrue\b/g, 'true')
+            .replace(/\bFalse\b/g, 'false')
+            .replace(/\bNone\b/g, 'null'));
 
         // Fix improperly escaped quotes inside strings
-        fixed = fixed.replace(/"([^"]*)\\"([^"]*)"/, '"$1\\"$2"');
+        apply('escape-inner-quotes', (text) => text.replace(/"([^"]*)\\"([^"]*)"/, '"$1\\"$2"'));
 
         // Handle ellipsis in truncated content
-        fixed = fixed.replace(/\.\.\./g, '');
-        fixed = fixed.replace(/…/g, '');
+        apply('strip-ellipsis', (text) => text.replace(/\.\.\./g, '').replace(/…/g, ''));
 
         // Cache the result
-        jsonCache.set(jsonStr, fixed);
-        return fixed;
+        const result = { fixed, fixes };
+        jsonCache.set(jsonStr, result);
+        return result;
     };
 
     // Enhanced JSON extraction
@@ -215,49 +206,54 @@ function parseLLMJson(response: any, options: Record<string, any> | null | undef
     };
 
     // Enhanced parsing attempt
-    const tryParseJson = (jsonStr) => {
+    // `method` and `fixes` say how the JSON was recovered; `error` keeps the last JSON.parse message
+    const tryParseJson = (jsonStr: string | null | undefined): ParseAttempt => {
         if (!jsonStr || jsonStr.trim().length === 0) {
-            return { success: false, data: null, error: 'Empty JSON string' };
+            return { success: false, data: null, error: 'Empty JSON string', method: null, fixes: [] };
         }
 
         let cleanJson = jsonStr.trim();
+        let lastError = '';
+        const parse = (text: string) => {
+            try {
+                return { ok: true, data: JSON.parse(text) };
+            } catch (e) {
+                lastError = e instanceof Error ? e.message : String(e);
+                return { ok: false, data: null };
+            }
+        };
 
         // Try direct parse first (fastest)
-        try {
-            const parsed = JSON.parse(cleanJson);
-            return { success: true, data: parsed, error: null };
-        } catch (firstError) {
-            // Continue to fixing attempts
+        const direct = parse(cleanJson);
+        if (direct.ok) {
+            return { success: true, data: direct.data, error: null, method: 'json-parse', fixes: [] };
         }
 
         if (attemptFix) {
             // Try boundary detection
             const boundedJson = findJsonBoundaries(cleanJson);
             if (boundedJson) {
-                try {
-                    const parsed = JSON.parse(boundedJson);
-                    return { success: true, data: parsed, error: null };
-                } catch (e) {
-                    // Continue to other fixes
+                const bounded = parse(boundedJson);
+                if (bounded.ok) {
+                    return { success: true, data: bounded.data, error: null, method: 'boundaries', fixes: [], bounded: boundedJson };
                 }
             }
 
             // Apply comprehensive fixes
-            cleanJson = fixCommonJsonIssues(cleanJson);
+            const { fixed, fixes } = fixCommonJsonIssues(cleanJson);
+            cleanJson = fixed;
 
-            try {
-                const parsed = JSON.parse(cleanJson);
-                return { success: true, data: parsed, error: null };
-            } catch (secondError) {
-                // Last resort: try to extract just the JSON part
-                const extracted = findJsonBoundaries(cleanJson);
-                if (extracted) {
-                    try {
-                        const parsed = JSON.parse(extracted);
-                        return { success: true, data: parsed, error: null };
-                    } catch (e) {
-                        // Final failure
-                    }
+            const repaired = parse(cleanJson);
+            if (repaired.ok) {
+                return { success: true, data: repaired.data, error: null, method: 'fixes', fixes };
+            }
+
+            // Last resort: try to extract just the JSON part
+            const extracted = findJsonBoundaries(cleanJson);
+            if (extracted) {
+                const bounded = parse(extracted);
+                if (bounded.ok) {
+                    return { success: true, data: bounded.data, error: null, method: 'fixes+boundaries', fixes };
                 }
             }
         }
@@ -265,32 +261,14 @@ function parseLLMJson(response: any, options: Record<string, any> | null | undef
         return {
             success: false,
             data: null,
-            error: 'Failed to parse JSON after all attempts'
+            error: lastError || 'Failed to parse JSON after all attempts',
+            method: null,
+            fixes: []
         };
     };
 
-    // Fast path: Try direct markdown JSON code block extraction first (most common case)
-    // This is optimized for LLM responses that commonly return JSON in markdown code blocks
-    try {
-        const jsonMatch = response.match(/```json\s*\n([\s\S]*?)\n```/);
-        if (jsonMatch) {
-            const extracted = jsonMatch[1].trim();
-            try {
-                const parsed = JSON.parse(extracted);
-                // Successfully parsed from markdown code block - return immediately
-                return parsed;
-            } catch (e) {
-                // Markdown block exists but JSON is malformed - continue to full parsing
-            }
-        }
-    } catch (e) {
-        // Fast path failed, continue to comprehensive parsing
-    }
-
-    // Main parsing logic (comprehensive fallback)
-
-    // Helper to unwrap response field if present (defined first to avoid hoisting issues)
-    const unwrapResponse = (data, maxAttempts = 2) => {
+    // Helper to unwrap response field if present (also reports how many levels were unwrapped)
+    const unwrapResponseCounted = (data, maxAttempts = 2): { value: any; count: number } => {
         let current = data;
         let attempts = 0;
 
@@ -323,15 +301,217 @@ function parseLLMJson(response: any, options: Record<string, any> | null | undef
             }
         }
 
-        return current;
+        return { value: current, count: attempts };
+    };
+
+    const unwrapResponse = (data, maxAttempts = 2) => unwrapResponseCounted(data, maxAttempts).value;
+
+    return { fixCommonJsonIssues, extractJson, findJsonBoundaries, tryParseJson, unwrapResponse, unwrapResponseCounted };
+};
+
+export type ParseStrategy =
+    | 'markdown-block'        // Fast path: ```json block parsed as-is
+    | 'whole-response'        // The whole response parsed (possibly after fixes)
+    | 'extracted-candidate'   // A code block or embedded structure parsed
+    | 'aggressive-boundaries' // Bracket matching over the whole response
+    | 'none';
+
+export interface ParseSpan {
+    /** Offsets into the response string (end is exclusive) */
+    start: number;
+    end: number;
+}
+
+export interface ParseReport {
+    strategy: ParseStrategy;
+    /** How the winning text was parsed: as-is, after boundary trimming and/or after repairs */
+    method: ParseAttempt['method'];
+    span: ParseSpan | null;
+    /** Repairs applied to the winning candidate, in order */
+    fixes: string[];
+    /** How many nested `response` fields were unwrapped */
+    unwrapped: number;
+    rejected: Array<{ span: ParseSpan | null; preview: string; reason: string }>;
+}
+
+export interface SchemaIssue {
+    path: (string | number)[];
+    code: string;
+    message: string;
+}
+
+export type SchemaParseResult<T> =
+    | { success: true; data: T; coerced: string[] }
+    | {
+        success: false;
+        data: null;
+        error: {
+            message: string;
+            issues: SchemaIssue[];
+            candidatesTried: number;
+        };
+    };
+
+/**
+ * Parse JSON from LLM responses with bulletproof error handling
+ * @param {any} response - The response to parse (string, object, or any type)
+ * @param {object|null|undefined} options - Parsing options (can be null, undefined, or an object)
+ * @returns {any} Parsed JSON or null if parsing fails
+ */
+function parseLLMJson(response: any, options?: Record<string, any> | null): any;
+/**
+ * Parse JSON from LLM responses and validate it against a zod schema
+ *
+ * Every candidate found in the response (whole text, code blocks, embedded
+ * objects and their nested objects) is coerced towards the schema and ranked
+ * by how few validation issues remain; the best valid candidate wins.
+ *
+ * @param {any} response - The response to parse (string, object, or any type)
+ * @param {ZodType} schema - Schema the result must satisfy
+ * @param {object|null|undefined} options - Parsing options (same as the untyped form)
+ * @returns {SchemaParseResult} Typed data, or the issues of the closest candidate
+ */
+function parseLLMJson<T>(
+    response: any,
+    schema: ZodType<T>,
+    options?: Record<string, any> | null
+): SchemaParseResult<T>;
+function parseLLMJson(
+    response: any,
+    schemaOrOptions?: ZodType | Record<string, any> | null,
+    schemaOptions?: Record<string, any> | null
+): any {
+    if (isZodSchema(schemaOrOptions)) {
+        return parseWithSchema(response, schemaOrOptions, schemaOptions);
+    }
+
+    return runParse(response, schemaOrOptions, null);
+}
+
+/**
+ * Parse JSON from LLM responses and explain how it was recovered
+ *
+ * Returns the same value as parseLLMJson plus a report of the strategy that
+ * succeeded, where in the input the JSON came from, which repairs were
+ * applied (in order) and which candidates were rejected and why.
+ *
+ * @param {any} response - The response to parse (string, object, or any type)
+ * @param {object|null|undefined} options - Parsing options (same as parseLLMJson)
+ * @returns {{ value: any, report: ParseReport }}
+ */
+export function parseLLMJsonWithReport(
+    response: any,
+    options?: Record<string, any> | null
+): { value: any; report: ParseReport } {
+    const report: ParseReport = {
+        strategy: 'none',
+        method: null,
+        span: null,
+        fixes: [],
+        unwrapped: 0,
+        rejected: []
+    };
+    const value = runParse(response, options, report);
+    return { value, report };
+}
+
+/**
+ * Shared implementation of parseLLMJson; fills `report` when one is given
+ */
+function runParse(response: any, options: Record<string, any> | null | undefined, report: ParseReport | null): any {
+    // BULLETPROOF: Handle null/undefined/invalid options - never crash!
+    if (!options || typeof options !== 'object' || Array.isArray(options)) {
+        options = {};
+    }
+
+    const {
+        attemptFix = true,
+        maxBlocks = 5,
+        preferFirst = true,  // Prefer first valid JSON found
+        allowPartial = false // Allow partial/truncated JSON
+    } = options;
+
+    // BULLETPROOF: Validate and normalize input - handle any type
+    if (response === null || response === undefined) {
+        return null; // Can't parse null/undefined - return null safely
+    }
+
+    // Convert non-string inputs to string
+    if (typeof response !== 'string') {
+        try {
+            response = String(response);
+        } catch (e) {
+            return null; // Can't convert to string - return null safely
+        }
+    }
+
+    // Check for empty string after conversion
+    if (!response || response.trim().length === 0) {
+        return null; // Empty string - return null safely
+    }
+
+    const text: string = response;
+
+    // Report helpers (no-ops when no report was requested)
+    const spanOf = (candidate: string, from = 0): ParseSpan | null => {
+        const start = text.indexOf(candidate, from);
+        return start === -1 ? null : { start, end: start + candidate.length };
+    };
+    const reject = (candidate: string, reason: string | null, span: ParseSpan | null = spanOf(candidate)) => {
+        report?.rejected.push({ span, preview: candidate.slice(0, 80), reason: reason || 'Unknown error' });
     };
+    const accept = (strategy: ParseStrategy, attempt: ParseAttempt, span: ParseSpan | null, data: any) => {
+        if (!report) return unwrapResponse(data);
+        report.strategy = strategy;
+        report.method = attempt.method;
+        report.span = attempt.bounded && span ? spanOf(attempt.bounded, span.start) : span;
+        report.fixes = attempt.fixes;
+        const { value, count } = unwrapResponseCounted(data);
+        report.unwrapped = count;
+        return value;
+    };
+
+    const { tryParseJson, extractJson, findJsonBoundaries, unwrapResponse, unwrapResponseCounted } = createParserTools({
+        attemptFix,
+        maxBlocks,
+        preferFirst,
+        allowPartial
+    });
+
+    // Fast path: Try direct markdown JSON code block extraction first (most common case)
+    // This is optimized for LLM responses that commonly return JSON in markdown code blocks
+    try {
+        const jsonMatch = response.match(/```json\s*\n([\s\S]*?)\n```/);
+        if (jsonMatch) {
+            const extracted = jsonMatch[1].trim();
+            const span = spanOf(extracted, jsonMatch.index);
+            try {
+                const parsed = JSON.parse(extracted);
+                // Successfully parsed from markdown code block - return immediately
+                if (report) {
+                    report.strategy = 'markdown-block';
+                    report.method = 'json-parse';
+                    report.span = span;
+                }
+                return parsed;
+            } catch (e) {
+                // Markdown block exists but JSON is malformed - continue to full parsing
+                reject(extracted, e instanceof Error ? e.message : String(e), span);
+            }
+        }
+    } catch (e) {
+        // Fast path failed, continue to comprehensive parsing
+    }
+
+    // Main parsing logic (comprehensive fallback)
 
     // IMPORTANT: Try parsing the whole response first before extracting fragments
     // This prevents returning nested objects when a complete outer structure exists
     const directResult = tryParseJson(response);
     if (directResult.success) {
-        return unwrapResponse(directResult.data);
+        return accept('whole-response', directResult, { start: 0, end: text.length }, directResult.data);
     }
+    reject(text, directResult.error, { start: 0, end: text.length });
 
     // If direct parse failed, try extracting JSON from text
     const candidates = extractJson(response);
@@ -343,8 +523,9 @@ function parseLLMJson(response: any, options: Record<string, any> | null | undef
     for (const jsonStr of sortedCandidates) {
         const result = tryParseJson(jsonStr);
         if (result.success) {
-            return unwrapResponse(result.data);
+            return accept('extracted-candidate', result, spanOf(jsonStr), result.data);
         }
+        reject(jsonStr, result.error);
     }
 
     // Final fallback: aggressive extraction
@@ -353,8 +534,9 @@ function parseLLMJson(response: any, options: Record<string, any> | null | undef
         if (aggressiveJson) {
             const result = tryParseJson(aggressiveJson);
             if (result.success) {
-                return unwrapResponse(result.data);
+                return accept('aggressive-boundaries', result, spanOf(aggressiveJson), result.data);
             }
+            reject(aggressiveJson, result.error);
         }
     }
 
@@ -366,5 +548,176 @@ function parseLLMJson(response: any, options: Record<string, any> | null | undef
     };
 }
 
+const isZodSchema = (value: any): value is ZodType =>
+    !!value && typeof value === 'object' && typeof value.safeParse === 'function';
+
+const MAX_COERCION_ROUNDS = 5;
+
+/**
+ * Collect every distinct value the response could plausibly mean, outermost first
+ */
+const collectCandidates = (response: any, options: Record<string, any>): any[] => {
+    const candidates: any[] = [];
+    const seen = new Set<string>();
+
+    const add = (value: any, depth = 0) => {
+        if (value === null || typeof value !== 'object') return;
+        const key = JSON.stringify(value);
+        if (seen.has(key)) return;
+        seen.add(key);
+        candidates.push(value);
+
+        // Nested objects may be the payload we want (e.g. {data: {...}})
+        if (depth < 2) {
+            for (const child of Object.values(value)) {
+                add(child, depth + 1);
+            }
+        }
+    };
+
+    if (response === null || response === undefined) return candidates;
+
+    if (typeof response === 'object') {
+        add(response);
+        return candidates;
+    }
+
+    const text = String(response);
+    if (text.trim().length === 0) return candidates;
+
+    const { tryParseJson, extractJson, findJsonBoundaries, unwrapResponse } = createParserTools(options);
+
+    const addParsed = (jsonStr: string | null) => {
+        if (!jsonStr) return;
+        const result = tryParseJson(jsonStr);
+        if (result.success) {
+            add(result.data);
+            add(unwrapResponse(result.data));
+        }
+    };
+
+    addParsed(text);
+    for (const jsonStr of extractJson(text)) {
+        addParsed(jsonStr);
+    }
+    addParsed(findJsonBoundaries(text));
+
+    return candidates;
+};
+
+const getAtPath = (value: any, path: PropertyKey[]): any =>
+    path.reduce((current, key) => (current == null ? undefined : current[key as any]), value);
+
+const setAtPath = (value: any, path: PropertyKey[], next: any) => {
+    const parent = getAtPath(value, path.slice(0, -1));
+    parent[path[path.length - 1] as any] = next;
+};
+
+/**
+ * Fix a single validation issue in place when the mismatch is unambiguous
+ * @returns {boolean} true if the value was changed
+ */
+const coerceIssue = (value: any, issue: any): boolean => {
+    if (issue.path.length === 0) return false;
+    const actual = getAtPath(value, issue.path);
+
+    if (issue.code === 'invalid_type') {
+        // Numeric strings to numbers ("0.85", " 42 ")
+        if (issue.expected === 'number' && typeof actual === 'string' && /^\s*-?\d+(\.\d+)?\s*$/.test(actual)) {
+            setAtPath(value, issue.path, Number(actual));
+            return true;
+        }
+        // "true"/"false" strings to booleans
+        if (issue.expected === 'boolean' && typeof actual === 'string' && /^(true|false)$/i.test(actual.trim())) {
+            setAtPath(value, issue.path, actual.trim().toLowerCase() === 'true');
+            return true;
+        }
+        // Numbers and booleans to strings
+        if (issue.expected === 'string' && (typeof actual === 'number' || typeof actual === 'boolean')) {
+            setAtPath(value, issue.path, String(actual));
+            return true;
+        }
+        // A single value to a one-item array
+        if (issue.expected === 'array' && actual !== undefined && actual !== null && !Array.isArray(actual)) {
+            setAtPath(value, issue.path, [actual]);
+            return true;
+        }
+    }
+
+    // Enum values that only differ in case or surrounding whitespace
+    if (issue.code === 'invalid_value' && typeof actual === 'string' && Array.isArray(issue.values)) {
+        const match = issue.values.find(
+            (option: unknown) => typeof option === 'string' && option.toLowerCase() === actual.trim().toLowerCase()
+        );
+        if (match !== undefined) {
+            setAtPath(value, issue.path, match);
+            return true;
+        }
+    }
+
+    return false;
+};
+
+/**
+ * Validate a candidate, coercing fixable mismatches between rounds
+ */
+const validateCandidate = (candidate: any, schema: ZodType) => {
+    const value = JSON.parse(JSON.stringify(candidate));
+    const coerced: string[] = [];
+    let result = schema.safeParse(value);
+
+    for (let round = 0; round < MAX_COERCION_ROUNDS && !result.success; round++) {
+        let changed = false;
+        for (const issue of result.error.issues) {
+            if (coerceIssue(value, issue)) {
+                coerced.push(issue.path.join('.'));
+                changed = true;
+            }
+        }
+        if (!changed) break;
+        result = schema.safeParse(value);
+    }
+
+    return { result, coerced };
+};
+
+const parseWithSchema = (response: any, schema: ZodType, options?: Record<string, any> | null): SchemaParseResult<any> => {
+    if (!options || typeof options !== 'object' || Array.isArray(options)) {
+        options = {};
+    }
+
+    const candidates = collectCandidates(response, options);
+    let best: { issues: SchemaIssue[] } | null = null;
+
+    // Candidates are ordered outermost first, so ties keep the complete structure
+    for (const candidate of candidates) {
+        const { result, coerced } = validateCandidate(candidate, schema);
+        if (result.success) {
+            return { success: true, data: result.data, coerced };
+        }
+
+        const issues = result.error.issues.map((issue) => ({
+            path: issue.path as (string | number)[],
+            code: issue.code,
+            message: issue.message
+        }));
+        if (!best || issues.length < best.issues.length) {
+            best = { issues };
+        }
+    }
+
+    return {
+        success: false,
+        data: null,
+        error: {
+            message: candidates.length === 0
+                ? 'No valid JSON found in the response'
+                : 'No candidate matched the expected schema',
+            issues: best ? best.issues : [],
+            candidatesTried: candidates.length
+        }
+    };
+};
+
 // Export as ES6 module
 export default parseLLMJson;
\ No newline at end of file
@@ -0,0 +1,109 @@
+/**
+ * Local Database
+ *
+ * A small promise wrapper around the browser's IndexedDB, shared by the
+ * stores that keep workflow state between page loads (saved runs, personas).
+ * The database is opened once per page and upgraded in place when
+ * DB_VERSION goes up.
+ *
+ * IndexedDB is missing during server rendering and in some private browsing
+ * modes; callers check isLocalDbAvailable() and fall back or skip saving.
+ *
+ * @example
+ * ```ts
+ * if (isLocalDbAvailable()) {
+ *   await dbPut('runs', run)
+ *   const runs = await dbGetAll<SavedRun>('runs')
+ * }
+ * ```
+ */
+
+const DB_NAME = 'content-coordinator'
+const DB_VERSION = 1
+
+export type LocalDbStore = 'runs' | 'personas'
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+export function isLocalDbAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined'
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!isLocalDbAvailable()) {
+    return Promise.reject(new Error('IndexedDB is not available'))
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains('runs')) {
+          db.createObjectStore('runs', { keyPath: 'id' })
+        }
+        if (!db.objectStoreNames.contains('personas')) {
+          db.createObjectStore('personas', { keyPath: 'id' })
+        }
+      }
+      request.onsuccess = () => {
+        const db = request.result
+        // Another tab upgrading the schema closes this connection
+        db.onversionchange = () => {
+          db.close()
+          dbPromise = null
+        }
+        resolve(db)
+      }
+      request.onerror = () => {
+        dbPromise = null
+        reject(request.error)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  store: LocalDbStore,
+  mode: IDBTransactionMode,
+  run: (objectStore: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  const tx = db.transaction(store, mode)
+  // Writes only count once the transaction commits
+  const committed = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error ?? new Error('Transaction aborted'))
+  })
+  committed.catch(() => {})
+
+  const result = await requestResult(run(tx.objectStore(store)))
+  if (mode === 'readwrite') await committed
+  return result
+}
+
+export function dbGetAll<T>(store: LocalDbStore): Promise<T[]> {
+  return withStore(store, 'readonly', (objectStore) => objectStore.getAll())
+}
+
+export async function dbGet<T>(store: LocalDbStore, key: string): Promise<T | null> {
+  const value = await withStore(store, 'readonly', (objectStore) => objectStore.get(key))
+  return (value as T | undefined) ?? null
+}
+
+export async function dbPut<T>(store: LocalDbStore, value: T): Promise<void> {
+  await withStore(store, 'readwrite', (objectStore) => objectStore.put(value))
+}
+
+export async function dbDelete(store: LocalDbStore, key: string): Promise<void> {
+  await withStore(store, 'readwrite', (objectStore) => objectStore.delete(key))
+}
@@ -0,0 +1,236 @@
+/**
+ * Discord Message Splitter
+ *
+ * Discord rejects messages longer than 2000 characters (4000 for Nitro users;
+ * webhooks always get 2000). `splitMessage` breaks an oversized draft into a
+ * numbered series that each fit the limit. Splits prefer paragraph breaks,
+ * then line breaks, then sentence ends, then spaces, and never land inside a
+ * code block, inline code, a link, a mention/timestamp or a markdown span
+ * (bold, italic, underline, strikethrough, spoiler). A code block too long
+ * for one message is closed and reopened with the same language tag instead
+ * of being cut.
+ *
+ * Lengths are counted in Unicode code points, like the draft analyzer,
+ * unless the caller passes the platform's own `length` (e.g. X and t.co links).
+ *
+ * @example
+ * ```ts
+ * const check = validateMessageLength(draft, DISCORD_MESSAGE_LIMIT)
+ * if (!check.ok) {
+ *   const parts = splitMessage(draft, { limit: DISCORD_MESSAGE_LIMIT })
+ *   // ['(1/2) First part...', '(2/2) Second part...']
+ * }
+ * ```
+ */
+
+export const DISCORD_MESSAGE_LIMIT = 2000
+export const DISCORD_NITRO_MESSAGE_LIMIT = 4000
+
+export interface MessageLengthCheck {
+  ok: boolean
+  length: number
+  limit: number
+  /** Characters over the limit (0 when it fits) */
+  over: number
+}
+
+export interface SplitOptions {
+  /** Maximum characters per message (default DISCORD_MESSAGE_LIMIT) */
+  limit?: number
+  /** Prefix each part with "(n/total) " when there is more than one (default true) */
+  numbered?: boolean
+  /** How the platform counts length (default messageLength, code points) */
+  length?: (text: string) => number
+}
+
+// Break priorities, strongest first
+const PARAGRAPH = 3
+const LINE = 2
+const SENTENCE = 1
+const SPACE = 0
+
+// A part should use at least this share of the budget before a weaker
+// break is preferred over an earlier strong one
+const MIN_FILL = 0.5
+
+// Ranges a split must not fall inside
+const PROTECTED_PATTERNS = [
+  /```[\s\S]*?```/g,
+  /`[^`\n]+`/g,
+  /\[[^\]\n]+\]\(\s*<?https?:\/\/[^\s)>]+>?\s*\)/g,
+  /<[^<>\s]+>/g,
+  /https?:\/\/[^\s<]+/g,
+  /\*\*[\s\S]+?\*\*/g,
+  /__[\s\S]+?__/g,
+  /~~[\s\S]+?~~/g,
+  /\|\|[\s\S]+?\|\|/g,
+  /(?<![*\w])\*(?=\S)[^*\n]+?\*(?!\*)/g,
+  /(?<![_\w])_(?=\S)[^_\n]+?_(?![_\w])/g,
+]
+
+const CODE_BLOCK = /```([\w+#.-]*)\n?([\s\S]*?)```/g
+
+export function messageLength(text: string): number {
+  return Array.from(text).length
+}
+
+export function validateMessageLength(text: string, limit = DISCORD_MESSAGE_LIMIT): MessageLengthCheck {
+  const length = messageLength(text)
+  return { ok: length <= limit, length, limit, over: Math.max(0, length - limit) }
+}
+
+interface Break {
+  at: number
+  priority: number
+}
+
+function protectedRanges(text: string): [number, number][] {
+  const ranges: [number, number][] = []
+  for (const pattern of PROTECTED_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      ranges.push([match.index as number, (match.index as number) + match[0].length])
+    }
+  }
+  return ranges
+}
+
+function findBreaks(text: string): Break[] {
+  const breaks = new Map<number, number>()
+  const add = (at: number, priority: number) => {
+    if (at > 0 && at < text.length) breaks.set(at, Math.max(priority, breaks.get(at) ?? -1))
+  }
+
+  for (const match of text.matchAll(/\n{2,}/g)) add((match.index as number) + match[0].length, PARAGRAPH)
+  for (const match of text.matchAll(/\n/g)) add((match.index as number) + 1, LINE)
+  for (const match of text.matchAll(/[.!?…]["')\]*_~|]*[ \t]+/g)) {
+    add((match.index as number) + match[0].length, SENTENCE)
+  }
+  for (const match of text.matchAll(/[ \t]+/g)) add((match.index as number) + match[0].length, SPACE)
+
+  return Array.from(breaks, ([at, priority]) => ({ at, priority })).sort((a, b) => a.at - b.at)
+}
+
+/**
+ * Re-fence code blocks longer than `budget` into several smaller blocks,
+ * split between lines, so each one can travel in its own message.
+ */
+function splitLongCodeBlocks(text: string, budget: number): string {
+  return text.replace(CODE_BLOCK, (block, language: string, code: string) => {
+    if (messageLength(block) <= budget) return block
+
+    const open = '```' + language + '\n'
+    const close = '\n```'
+    const room = Math.max(1, budget - messageLength(open) - messageLength(close))
+    const chunks: string[] = []
+    let current = ''
+
+    for (const line of code.replace(/\n$/, '').split('\n')) {
+      // Lines longer than a whole message have to be cut
+      const pieces = Array.from(line)
+      const lineChunks: string[] = []
+      for (let i = 0; i < Math.max(1, pieces.length); i += room) {
+        lineChunks.push(pieces.slice(i, i + room).join(''))
+      }
+
+      for (const piece of lineChunks) {
+        const candidate = current ? `${current}\n${piece}` : piece
+        if (current && messageLength(candidate) > room) {
+          chunks.push(current)
+          current = piece
+        } else {
+          current = candidate
+        }
+      }
+    }
+    if (current) chunks.push(current)
+
+    return chunks.map((chunk) => open + chunk + close).join('\n')
+  })
+}
+
+function cleanPart(part: string): string {
+  return part.replace(/^\n+/, '').replace(/\s+$/, '')
+}
+
+function splitToBudget(source: string, budget: number, length = messageLength): string[] {
+  const text = splitLongCodeBlocks(source, budget)
+  const ranges = protectedRanges(text)
+  const breaks = findBreaks(text)
+  const isSafe = (at: number) => !ranges.some(([start, end]) => start < at && at < end)
+
+  const parts: string[] = []
+  let start = 0
+  // Index of the first break after `start`
+  let next = 0
+
+  while (start < text.length) {
+    if (length(cleanPart(text.slice(start))) <= budget) {
+      parts.push(text.slice(start))
+      break
+    }
+
+    while (next < breaks.length && breaks[next].at <= start) next++
+
+    // A part only grows as its cut moves right, so binary-search the last
+    // break that still fits rather than measuring every one
+    let low = next
+    let high = breaks.length
+    while (low < high) {
+      const mid = (low + high) >> 1
+      if (length(cleanPart(text.slice(start, breaks[mid].at))) <= budget) low = mid + 1
+      else high = mid
+    }
+    const fits = breaks.slice(next, low)
+    const safe = fits.filter((candidate) => isSafe(candidate.at))
+    const minimum = start + budget * MIN_FILL
+
+    let cut: number | undefined
+    for (const priority of [PARAGRAPH, LINE, SENTENCE, SPACE]) {
+      const best = safe.filter((candidate) => candidate.priority >= priority).pop()
+      if (best && best.at >= minimum) {
+        cut = best.at
+        break
+      }
+    }
+
+    // No good break: take the last safe one, then any whitespace, then cut hard
+    cut ??= safe.pop()?.at ?? fits.pop()?.at
+    if (cut === undefined) {
+      const head = Array.from(text.slice(start)).slice(0, budget).join('')
+      cut = start + head.length
+    }
+
+    parts.push(text.slice(start, cut))
+    start = cut
+  }
+
+  return parts.map(cleanPart).filter(Boolean)
+}
+
+function numberPrefix(index: number, total: number): string {
+  return `(${index + 1}/${total}) `
+}
+
+/**
+ * Split a message into parts that each fit `limit`. Returns a single part
+ * (unchanged apart from trailing whitespace) when the message already fits.
+ */
+export function splitMessage(text: string, options: SplitOptions = {}): string[] {
+  const limit = options.limit ?? DISCORD_MESSAGE_LIMIT
+  const numbered = options.numbered ?? true
+  const length = options.length ?? messageLength
+
+  if (length(text) <= limit) return [text]
+  if (!numbered) return splitToBudget(text, limit, length)
+
+  // The prefix length depends on the number of parts; retry until it settles
+  let total = 9
+  while (true) {
+    const prefixLength = messageLength(numberPrefix(total - 1, total))
+    const parts = splitToBudget(text, limit - prefixLength, length)
+    if (parts.length <= total) {
+      return parts.map((part, idx) => numberPrefix(idx, parts.length) + part)
+    }
+    total = 10 ** String(parts.length).length - 1
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * News Curation
+ *
+ * Lets the user choose which stories the draft agent sees and in what order.
+ * The feed is a list of CuratedNewsItem in display order; pinned items sit at
+ * the top, stay selected and carry over to the next fetch. Excluded stories
+ * are remembered in localStorage and dropped from every later fetch.
+ *
+ * @example
+ * ```ts
+ * const excluded = await listExcludedNews()
+ * const news = applyNewsCuration(fetched, excluded, pinnedItems(curated))
+ * const curated = curateNews(news.news_summary, previous)
+ * runWorkflow(pipeline, { inputOverrides: { draft: { news: selectedNewsItems(curated) } } })
+ * ```
+ */
+
+import { DRAFT_NEWS_LIMIT } from '@/utils/pipelines'
+import type { NewsItem, NewsResponse } from '@/types'
+
+export interface CuratedNewsItem {
+  key: string
+  item: NewsItem
+  selected: boolean
+  pinned: boolean
+}
+
+export interface ExcludedNewsItem {
+  key: string
+  headline: string
+  excluded_at: string
+}
+
+const STORAGE_KEY = 'content-coordinator:excluded-news'
+
+/**
+ * Stable identity for a story across fetches: the URL when there is one,
+ * otherwise the normalised headline. Also runs on raw agent items, before
+ * the schema fills in missing fields.
+ */
+export function newsItemKey(item: NewsItem): string {
+  const url = String(item?.url ?? '').trim().toLowerCase().replace(/\/+$/, '')
+  if (url) return url
+  return String(item?.headline ?? '').trim().toLowerCase().replace(/\s+/g, ' ')
+}
+
+// Pinned items first, otherwise keep the current order
+function pinnedFirst(items: CuratedNewsItem[]): CuratedNewsItem[] {
+  return [...items.filter((entry) => entry.pinned), ...items.filter((entry) => !entry.pinned)]
+}
+
+/**
+ * Build the feed for freshly fetched news. Pinned items from the previous
+ * feed stay on top; the first `limit` items start out selected, matching
+ * what the draft step takes when nobody curates.
+ */
+export function curateNews(
+  items: NewsItem[],
+  previous: CuratedNewsItem[] = [],
+  limit = DRAFT_NEWS_LIMIT
+): CuratedNewsItem[] {
+  const pinned = previous.filter((entry) => entry.pinned)
+  const seen = new Set(pinned.map((entry) => entry.key))
+  const fresh: CuratedNewsItem[] = []
+
+  for (const item of items) {
+    const key = newsItemKey(item)
+    if (seen.has(key)) continue
+    seen.add(key)
+    fresh.push({ key, item, selected: false, pinned: false })
+  }
+
+  return [...pinned, ...fresh].map((entry, idx) => ({
+    ...entry,
+    selected: entry.pinned || idx < limit,
+  }))
+}
+
+/** Move the item at `from` to `to`; pinned items stay above unpinned ones */
+export function moveNewsItem(items: CuratedNewsItem[], from: number, to: number): CuratedNewsItem[] {
+  if (from === to || from < 0 || from >= items.length) return items
+  const next = [...items]
+  const [moved] = next.splice(from, 1)
+  next.splice(Math.max(0, Math.min(to, next.length)), 0, moved)
+  return pinnedFirst(next)
+}
+
+export function toggleNewsSelected(items: CuratedNewsItem[], key: string): CuratedNewsItem[] {
+  return items.map((entry) =>
+    entry.key === key && !entry.pinned ? { ...entry, selected: !entry.selected } : entry
+  )
+}
+
+/** Pinning also selects the item; unpinning leaves it selected */
+export function toggleNewsPinned(items: CuratedNewsItem[], key: string): CuratedNewsItem[] {
+  return pinnedFirst(
+    items.map((entry) =>
+      entry.key === key ? { ...entry, pinned: !entry.pinned, selected: true } : entry
+    )
+  )
+}
+
+/** The stories to send to the draft agent, in feed order */
+export function selectedNewsItems(items: CuratedNewsItem[]): NewsItem[] {
+  return items.filter((entry) => entry.selected).map((entry) => entry.item)
+}
+
+export function pinnedNewsItems(items: CuratedNewsItem[]): NewsItem[] {
+  return items.filter((entry) => entry.pinned).map((entry) => entry.item)
+}
+
+/**
+ * Drop excluded stories from a news response and put pinned ones first, so
+ * an uncurated draft step (which takes the first few items) honours both.
+ */
+export function applyNewsCuration(
+  news: NewsResponse,
+  excluded: ExcludedNewsItem[],
+  pinned: NewsItem[] = []
+): NewsResponse {
+  if (!Array.isArray(news?.news_summary)) return news
+
+  const excludedKeys = new Set(excluded.map((entry) => entry.key))
+  const pinnedKeys = new Set(pinned.map(newsItemKey))
+  const fetched = news.news_summary.filter((item) => {
+    const key = newsItemKey(item)
+    return !excludedKeys.has(key) && !pinnedKeys.has(key)
+  })
+
+  return { ...news, news_summary: [...pinned, ...fetched] }
+}
+
+function readExcluded(): ExcludedNewsItem[] {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]')
+    return Array.isArray(stored) ? stored.filter((entry) => typeof entry?.key === 'string') : []
+  } catch (error) {
+    console.error('Failed to read excluded news:', error)
+    return []
+  }
+}
+
+export async function listExcludedNews(): Promise<ExcludedNewsItem[]> {
+  return readExcluded()
+}
+
+/** Remember a story so later fetches leave it out */
+export async function excludeNewsItem(item: NewsItem): Promise<ExcludedNewsItem[]> {
+  const key = newsItemKey(item)
+  const excluded = readExcluded().filter((entry) => entry.key !== key)
+  excluded.push({ key, headline: item.headline, excluded_at: new Date().toISOString() })
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(excluded))
+  return excluded
+}
+
+export async function clearExcludedNews(): Promise<void> {
+  window.localStorage.removeItem(STORAGE_KEY)
+}
@@ -0,0 +1,120 @@
+/**
+ * Persona Library
+ *
+ * Named personality profiles ("launch day", "weekly digest") saved in the
+ * browser's IndexedDB, or localStorage where IndexedDB is missing. Picking a
+ * persona seeds the personality step, so the personality agent is not called
+ * and the voice stays the same run to run.
+ *
+ * The functions are async so the backing store can change without touching
+ * callers. Entries that no longer match PersonalityProfileSchema are dropped
+ * on read.
+ *
+ * @example
+ * ```ts
+ * const persona = await savePersona('launch day', profile)
+ * const seed = { personality: personaToResponse(persona) }
+ * ```
+ */
+
+import { PersonalityProfileSchema } from '@/utils/schemas'
+import { dbDelete, dbGetAll, dbPut, isLocalDbAvailable } from '@/utils/localDb'
+import type { Persona, PersonalityProfile, PersonalityResponse } from '@/types'
+
+// localStorage key; personas saved there before the move to IndexedDB are
+// copied over on first read, and it stays the store when IndexedDB is missing
+const STORAGE_KEY = 'content-coordinator:personas'
+
+function readLegacy(): unknown[] {
+  const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]')
+  return Array.isArray(stored) ? stored : []
+}
+
+function validPersonas(stored: unknown[]): Persona[] {
+  return stored.flatMap((entry: any) => {
+    const profile = PersonalityProfileSchema.safeParse(entry?.profile)
+    if (!profile.success || typeof entry.id !== 'string' || typeof entry.name !== 'string') {
+      return []
+    }
+    return [{ ...entry, profile: profile.data } as Persona]
+  })
+}
+
+async function readAll(): Promise<Persona[]> {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const legacy = validPersonas(readLegacy())
+    if (!isLocalDbAvailable()) return legacy
+
+    if (legacy.length) {
+      for (const persona of legacy) await dbPut('personas', persona)
+      window.localStorage.removeItem(STORAGE_KEY)
+    }
+    return validPersonas(await dbGetAll('personas'))
+  } catch (error) {
+    console.error('Failed to read saved personas:', error)
+    return []
+  }
+}
+
+async function writePersona(persona: Persona, personas: Persona[]): Promise<void> {
+  if (isLocalDbAvailable()) return dbPut('personas', persona)
+  const others = personas.filter((entry) => entry.id !== persona.id)
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify([...others, persona]))
+}
+
+function createId(): string {
+  return `persona-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/** Saved personas, sorted by name */
+export async function listPersonas(): Promise<Persona[]> {
+  return (await readAll()).sort((a, b) => a.name.localeCompare(b.name))
+}
+
+export async function getPersona(id: string): Promise<Persona | null> {
+  return (await readAll()).find((persona) => persona.id === id) ?? null
+}
+
+/**
+ * Save a profile under a name. Saving under an existing name (case
+ * insensitive) replaces that persona rather than adding a duplicate.
+ *
+ * @throws Error when the name is empty or the profile is invalid
+ */
+export async function savePersona(name: string, profile: PersonalityProfile): Promise<Persona> {
+  const trimmed = name.trim()
+  if (!trimmed) throw new Error('Persona name is required')
+
+  const parsed = PersonalityProfileSchema.safeParse(profile)
+  if (!parsed.success) {
+    throw new Error(`Invalid personality profile: ${parsed.error.issues[0]?.message}`)
+  }
+
+  const personas = await readAll()
+  const now = new Date().toISOString()
+  const existing = personas.find((persona) => persona.name.toLowerCase() === trimmed.toLowerCase())
+
+  const persona: Persona = existing
+    ? { ...existing, name: trimmed, profile: parsed.data, updated_at: now }
+    : { id: createId(), name: trimmed, profile: parsed.data, created_at: now, updated_at: now }
+
+  await writePersona(persona, personas)
+  return persona
+}
+
+export async function deletePersona(id: string): Promise<void> {
+  if (isLocalDbAvailable()) return dbDelete('personas', id)
+  const personas = validPersonas(readLegacy()).filter((persona) => persona.id !== id)
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(personas))
+}
+
+/** The personality step output a persona stands in for */
+export function personaToResponse(persona: Persona): PersonalityResponse {
+  return {
+    personality_profile: persona.profile,
+    confidence: 1,
+    analysis_summary: `Saved persona "${persona.name}"`,
+  }
+}
@@ -0,0 +1,148 @@
+/**
+ * Pipeline Definitions
+ *
+ * The news -> personality -> draft chain as a WorkflowDefinition. News and
+ * personality have no inputs, so the engine runs them in parallel; the draft
+ * waits for both. Add steps (fact-checking, translation, ...) here rather
+ * than in the page component.
+ *
+ * Other target platforms (X, LinkedIn, ...) add one draft step each, fed by
+ * the same news and personality, so every draft comes out of a single run.
+ *
+ * The prompts below are the built-in versions of the prompt templates (see
+ * promptTemplates.ts). {{platform}}, {{platform_guidance}} and {{max_items}}
+ * are filled in when the pipeline is built; {{news}} and {{persona}} are
+ * step inputs filled in by the workflow engine.
+ */
+
+import {
+  DraftResponseSchema,
+  NewsResponseSchema,
+  PersonalityResponseSchema,
+} from '@/utils/schemas'
+import { PLATFORMS, platformStepId, type PlatformId } from '@/utils/platforms'
+import type { PromptTemplateId } from '@/utils/promptTemplates'
+import type { AgentStepRole } from '@/types'
+import { renderTemplate, type WorkflowDefinition, type WorkflowStep } from '@/utils/workflow'
+
+export interface PipelineAgentIds {
+  news: string
+  personality: string
+  draft: string
+}
+
+/** Agents used when a run does not name its own */
+export const DEFAULT_AGENT_IDS: PipelineAgentIds = {
+  news: '690443fbe26dd0e0368525c4',
+  personality: '6904440fe26dd0e0368525c5',
+  draft: '6904441bcb70cd01d307c50e',
+}
+
+export const NEWS_PROMPT =
+  'Search for the latest AI and Lyzr news articles. Focus on recent developments, breakthroughs, and industry updates. Return structured JSON with headlines, sources, dates, summaries, key takeaways, URLs, and relevance scores.'
+
+export const PERSONALITY_PROMPT =
+  'Analyze the tone, style, and communication patterns for a Discord community manager sharing tech news. Create a comprehensive personality profile including formality, vocabulary, emoji usage, humor style, engagement approach, key phrases, and topic angles. Return structured JSON format.'
+
+export const DRAFT_PROMPT =
+  'Using this personality profile: {{persona}}\n\nAnd these news items: {{news}}\n\nGenerate an engaging {{platform}} message that incorporates 2-{{max_items}} news items. Match the personality profile exactly. {{platform_guidance}} Return JSON with the draft message and detailed metadata.'
+
+export const REGENERATE_DRAFT_PROMPT =
+  'Using this personality profile: {{persona}}\n\nAnd these news items: {{news}}\n\nGenerate a NEW and DIFFERENT engaging {{platform}} message. Use a fresh approach while maintaining the personality profile. {{platform_guidance}} Return JSON with the draft message and detailed metadata.'
+
+/** How many news items the draft step receives unless the caller overrides it */
+export const DRAFT_NEWS_LIMIT = 3
+
+const DRAFT_INPUTS: WorkflowStep['inputs'] = {
+  news: { from: 'news', path: 'news_summary', take: DRAFT_NEWS_LIMIT },
+  persona: { from: 'personality', path: 'personality_profile' },
+}
+
+/** Prompt template bodies, keyed by template id */
+export type PipelinePrompts = Partial<Record<PromptTemplateId, string>>
+
+/** Built-in body of each prompt template */
+export const DEFAULT_PROMPTS: Record<PromptTemplateId, string> = {
+  news: NEWS_PROMPT,
+  personality: PERSONALITY_PROMPT,
+  draft: DRAFT_PROMPT,
+  regenerate_draft: REGENERATE_DRAFT_PROMPT,
+}
+
+/** Fill the variables known when the pipeline is built, for one platform */
+export function renderPipelinePrompt(template: string, platform: PlatformId = 'discord'): string {
+  return renderTemplate(template, {
+    platform: PLATFORMS[platform].label,
+    platform_guidance: PLATFORMS[platform].guidance,
+    max_items: DRAFT_NEWS_LIMIT,
+  })
+}
+
+/**
+ * Build the Discord draft pipeline.
+ *
+ * @param agentIds - Agent used for each step
+ * @param options.regenerate - Ask the draft agent for a fresh take instead of the first draft
+ * @param options.platforms - Platforms to draft for besides Discord, one `draft-<platform>` step each
+ * @param options.prompts - Template bodies to use instead of the built-in prompts
+ * @param options.templates - Template each step is prompted with, when not its own
+ *   (see the agent registry); regenerations always use regenerate_draft
+ */
+export function createDiscordDraftPipeline(
+  agentIds: PipelineAgentIds,
+  options: {
+    regenerate?: boolean
+    platforms?: PlatformId[]
+    prompts?: PipelinePrompts
+    templates?: Partial<Record<AgentStepRole, PromptTemplateId>>
+  } = {}
+): WorkflowDefinition {
+  const template = (id: PromptTemplateId) => options.prompts?.[id] || DEFAULT_PROMPTS[id]
+  const stepTemplate = (role: AgentStepRole) => template(options.templates?.[role] ?? role)
+  const draftTemplate = options.regenerate ? template('regenerate_draft') : stepTemplate('draft')
+
+  const platformSteps: WorkflowStep[] = (options.platforms ?? [])
+    .filter((id) => id !== 'discord')
+    .map((id) => ({
+      id: platformStepId(id),
+      label: `${PLATFORMS[id].label} draft`,
+      agentId: agentIds.draft,
+      prompt: renderPipelinePrompt(draftTemplate, id),
+      inputs: DRAFT_INPUTS,
+      schema: DraftResponseSchema,
+      retry: { attempts: 2, delayMs: 1000 },
+    }))
+
+  return {
+    id: 'discord-draft',
+    name: 'Discord draft from AI news',
+    steps: [
+      {
+        id: 'news',
+        label: 'News',
+        agentId: agentIds.news,
+        prompt: renderPipelinePrompt(stepTemplate('news')),
+        schema: NewsResponseSchema,
+        retry: { attempts: 2, delayMs: 1000 },
+      },
+      {
+        id: 'personality',
+        label: 'Personality',
+        agentId: agentIds.personality,
+        prompt: renderPipelinePrompt(stepTemplate('personality')),
+        schema: PersonalityResponseSchema,
+        retry: { attempts: 2, delayMs: 1000 },
+      },
+      {
+        id: 'draft',
+        label: 'Draft',
+        agentId: agentIds.draft,
+        prompt: renderPipelinePrompt(draftTemplate),
+        inputs: DRAFT_INPUTS,
+        schema: DraftResponseSchema,
+        retry: { attempts: 2, delayMs: 1000 },
+      },
+      ...platformSteps,
+    ],
+  }
+}
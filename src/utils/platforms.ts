@@ -0,0 +1,264 @@
+/**
+ * Target Platforms
+ *
+ * The places a draft is posted to and how each one differs: character limit,
+ * markup dialect, emoji, link and mention syntax, and whether a long draft
+ * may go out as a numbered series. The draft prompt, the validator, the
+ * splitter and the preview all look the platform up here, so adding a
+ * platform is one entry in PLATFORMS.
+ *
+ * Discord is the primary platform: its draft is the one edited, versioned,
+ * published and scheduled. Every other selected platform gets its own draft
+ * step in the same run (see createDiscordDraftPipeline).
+ *
+ * @example
+ * ```ts
+ * const check = validatePlatformDraft(draft, 'x')
+ * // {length: 312, limit: 280, parts: 2, issues: [{level: 'warning', message: 'Markdown ...'}]}
+ * const thread = splitForPlatform(draft, 'x')
+ * ```
+ */
+
+import { DISCORD_MESSAGE_LIMIT, messageLength, splitMessage } from '@/utils/messageSplitter'
+
+export type PlatformId = 'discord' | 'x' | 'linkedin' | 'slack' | 'telegram'
+
+/**
+ * Markup a platform renders:
+ * - discord:  Discord markdown (see discordMarkdown.ts)
+ * - slack:    Slack mrkdwn - *bold*, _italic_, ~strike~, <url|label>
+ * - telegram: Telegram client markdown - **bold**, __italic__, ~~strike~~, ||spoiler||, [label](url)
+ * - plain:    no markup at all
+ */
+export type MarkupDialect = 'discord' | 'slack' | 'telegram' | 'plain'
+
+export interface Platform {
+  id: PlatformId
+  label: string
+  /** Characters per post or message */
+  limit: number
+  dialect: MarkupDialect
+  /** Long drafts go out as a numbered series; otherwise they must fit one post */
+  splits: boolean
+  /** `:name:` shortcodes render as emoji */
+  emojiShortcodes: boolean
+  /** Hashtags a post should carry at most */
+  maxHashtags?: number
+  /** Platform conventions, the {{platform_guidance}} of the draft prompt */
+  guidance: string
+}
+
+export const PLATFORMS: Record<PlatformId, Platform> = {
+  discord: {
+    id: 'discord',
+    label: 'Discord',
+    limit: DISCORD_MESSAGE_LIMIT,
+    dialect: 'discord',
+    splits: true,
+    emojiShortcodes: true,
+    guidance:
+      'Include appropriate markdown formatting and structure the message for maximum engagement in a Discord channel.',
+  },
+  x: {
+    id: 'x',
+    label: 'X',
+    limit: 280,
+    dialect: 'plain',
+    splits: true,
+    emojiShortcodes: false,
+    maxHashtags: 2,
+    guidance:
+      'Write plain text: X does not render markdown, so no asterisks, underscores, headings or [label](url) links. Paste bare URLs (each counts as 23 characters), use Unicode emoji, at most 2 hashtags and @handles for mentions. Aim for 280 characters; a longer draft is posted as a thread split at blank lines, so keep each paragraph short.',
+  },
+  linkedin: {
+    id: 'linkedin',
+    label: 'LinkedIn',
+    limit: 3000,
+    dialect: 'plain',
+    splits: false,
+    emojiShortcodes: false,
+    maxHashtags: 5,
+    guidance:
+      'Write plain text: LinkedIn does not render markdown, so no asterisks, headings or [label](url) links. Use short paragraphs separated by blank lines, bare URLs, a few Unicode emoji at most and 3-5 hashtags at the end. Keep it professional while matching the personality, and stay under 3000 characters.',
+  },
+  slack: {
+    id: 'slack',
+    label: 'Slack',
+    limit: 4000,
+    dialect: 'slack',
+    splits: true,
+    emojiShortcodes: true,
+    guidance:
+      'Format with Slack mrkdwn: *bold* with single asterisks, _italic_, ~strike~, `code`, > quotes and links written as <https://example.com|label>. Do not use **double asterisks**, # headings or [label](url) links. Emoji shortcodes like :rocket: work. Use <!here> instead of @here, and only when the news is urgent.',
+  },
+  telegram: {
+    id: 'telegram',
+    label: 'Telegram',
+    limit: 4096,
+    dialect: 'telegram',
+    splits: true,
+    emojiShortcodes: false,
+    guidance:
+      'Format with Telegram markdown: **bold**, __italic__, ~~strike~~, `code`, ||spoiler|| and [label](url) links. Telegram has no headings or @everyone, and shows emoji shortcodes as text, so use Unicode emoji.',
+  },
+}
+
+export const PLATFORM_IDS = Object.keys(PLATFORMS) as PlatformId[]
+
+/** Platforms drafted in addition to the primary Discord draft */
+export const EXTRA_PLATFORM_IDS = PLATFORM_IDS.filter((id) => id !== 'discord')
+
+export function isPlatformId(value: unknown): value is PlatformId {
+  return typeof value === 'string' && Object.hasOwn(PLATFORMS, value)
+}
+
+/** Workflow step that writes the draft for a platform */
+export function platformStepId(id: PlatformId): string {
+  return id === 'discord' ? 'draft' : `draft-${id}`
+}
+
+/** The platform a draft step writes for, or null for other steps */
+export function stepPlatform(stepId: string): PlatformId | null {
+  if (stepId === 'draft') return 'discord'
+  const id = stepId.startsWith('draft-') ? stepId.slice('draft-'.length) : null
+  return isPlatformId(id) ? id : null
+}
+
+// ---------------------------------------------------------------------------
+// Length and splitting
+// ---------------------------------------------------------------------------
+
+// X shortens every link to a 23 character t.co URL
+const X_URL_LENGTH = 23
+const URL_PATTERN = /https?:\/\/[^\s<>|)]+/g
+
+/** Length as the platform counts it, in code points */
+export function platformLength(text: string, id: PlatformId): number {
+  if (id !== 'x') return messageLength(text)
+  const urls = text.match(URL_PATTERN) ?? []
+  return messageLength(text.replace(URL_PATTERN, '')) + urls.length * X_URL_LENGTH
+}
+
+/**
+ * Break a draft into the posts it goes out as: a numbered series on
+ * platforms that allow one, else the draft as a single post. Parts are
+ * measured with platformLength, so on X each link counts as 23 characters.
+ *
+ * @param options.limit - Overrides the platform limit (e.g. Discord Nitro)
+ */
+export function splitForPlatform(
+  text: string,
+  id: PlatformId,
+  options: { limit?: number } = {}
+): string[] {
+  const platform = PLATFORMS[id]
+  const limit = options.limit ?? platform.limit
+  if (!platform.splits || platformLength(text, id) <= limit) return [text]
+  return splitMessage(text, { limit, length: (part) => platformLength(part, id) })
+}
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+export interface PlatformIssue {
+  level: 'error' | 'warning'
+  message: string
+}
+
+export interface PlatformDraftCheck {
+  length: number
+  limit: number
+  /** Posts the draft goes out as */
+  parts: number
+  issues: PlatformIssue[]
+}
+
+// Syntax only Discord understands
+const DISCORD_ONLY: { pattern: RegExp; name: string }[] = [
+  { pattern: /<t:-?\d+(?::[tTdDfFR])?>/, name: 'timestamps' },
+  { pattern: /<(?:@[!&]?|#)\d+>/, name: 'user, role or channel mentions' },
+  { pattern: /<a?:\w+:\d+>/, name: 'custom emoji' },
+  { pattern: /^-# /m, name: 'subtext' },
+]
+
+const HEADING = /^#{1,3} \S/m
+const MARKDOWN_LINK = /\[[^\]\n]+\]\(\s*<?https?:\/\/[^\s)]+>?\s*\)/
+const SLACK_LINK = /<https?:\/\/[^|>\s]+\|[^>]+>/
+const DOUBLE_MARKUP = /\*\*\S|__\S|~~\S|\|\|\S/
+const INLINE_CODE = /`[^`\n]+`/
+const SHORTCODE = /(?<![<\w]):[a-z0-9_+-]+:(?![\w])/i
+const EVERYONE = /(?<![<!\w])@(?:everyone|here)\b/
+const HASHTAG = /(?<![&\w</])#[\p{L}\d_]+/gu
+
+/**
+ * Check a draft against a platform: length (error when it cannot be split)
+ * and markup, emoji, link and mention syntax the platform would show as
+ * literal text (warnings).
+ *
+ * @param options.limit - Overrides the platform limit (e.g. Discord Nitro)
+ */
+export function validatePlatformDraft(
+  text: string,
+  id: PlatformId,
+  options: { limit?: number } = {}
+): PlatformDraftCheck {
+  const platform = PLATFORMS[id]
+  const limit = options.limit ?? platform.limit
+  const length = platformLength(text, id)
+  const parts = length > limit && platform.splits ? splitForPlatform(text, id, { limit }).length : 1
+  const issues: PlatformIssue[] = []
+  const warn = (message: string) => issues.push({ level: 'warning', message })
+
+  if (length > limit) {
+    if (platform.splits) {
+      warn(`${length - limit} characters over the ${limit} limit; posts as ${parts} parts`)
+    } else {
+      issues.push({
+        level: 'error',
+        message: `${length - limit} characters over the ${platform.label} limit of ${limit}`,
+      })
+    }
+  }
+
+  if (platform.dialect !== 'discord') {
+    const found = DISCORD_ONLY.filter(({ pattern }) => pattern.test(text)).map(({ name }) => name)
+    if (found.length) warn(`Discord-only syntax shows as text: ${found.join(', ')}`)
+    if (HEADING.test(text)) warn(`${platform.label} has no headings; # lines show as text`)
+  }
+
+  switch (platform.dialect) {
+    case 'plain':
+      if (DOUBLE_MARKUP.test(text) || INLINE_CODE.test(text) || MARKDOWN_LINK.test(text)) {
+        warn(`${platform.label} does not render markdown; symbols and [label](url) links show as typed`)
+      }
+      break
+    case 'slack':
+      if (/\*\*\S/.test(text)) warn('Slack bold uses *single asterisks*')
+      if (MARKDOWN_LINK.test(text)) warn('Slack links are written <https://url|label>')
+      break
+    case 'telegram':
+    case 'discord':
+      if (SLACK_LINK.test(text)) warn('Slack-style <url|label> links show as text; use [label](url)')
+      break
+  }
+
+  if (!platform.emojiShortcodes && SHORTCODE.test(text)) {
+    warn(`Emoji shortcodes like :rocket: show as text on ${platform.label}; use Unicode emoji`)
+  }
+
+  if (EVERYONE.test(text) && id !== 'discord') {
+    warn(
+      id === 'slack'
+        ? 'Slack notifies with <!here> or <!channel>, not @here or @everyone'
+        : `@everyone and @here do not notify anyone on ${platform.label}`
+    )
+  }
+
+  const hashtags = text.match(HASHTAG)?.length ?? 0
+  if (platform.maxHashtags !== undefined && hashtags > platform.maxHashtags) {
+    warn(`${hashtags} hashtags; ${platform.label} posts do best with ${platform.maxHashtags} or fewer`)
+  }
+
+  return { length, limit, parts, issues }
+}
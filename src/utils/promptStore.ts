@@ -0,0 +1,119 @@
+/**
+ * Prompt Template Store
+ *
+ * Saved versions of the prompt templates, one record per template under
+ * `<DATA_DIR>/prompt-templates/<template_id>.json`. The built-in prompt is
+ * version 1 of every template and is never stored, so a template with no
+ * record simply uses it. Saving a version makes it the active one; rolling
+ * back re-activates an earlier version without deleting the later ones.
+ * Server-side only.
+ */
+
+import { createJsonFileStore } from '@/utils/jsonFileStore'
+import {
+  BUILT_IN_VERSION,
+  PROMPT_TEMPLATE_IDS,
+  PROMPT_TEMPLATES,
+  builtInVersion,
+  validatePromptTemplate,
+  type PromptTemplateId,
+  type PromptTemplateState,
+  type PromptTemplateVersion,
+} from '@/utils/promptTemplates'
+
+interface PromptTemplateRecord {
+  template_id: PromptTemplateId
+  active_version: number
+  /** Saved versions, oldest first; the built-in version 1 is not stored */
+  versions: PromptTemplateVersion[]
+}
+
+const templateStore = createJsonFileStore<PromptTemplateRecord>('prompt-templates')
+
+// Pending read-modify-writes per template; see serialize()
+const updates = new Map<string, Promise<unknown>>()
+
+/**
+ * Run `change` after any earlier change to the same template has finished.
+ * The store only orders single writes, so concurrent saves would otherwise
+ * read the same record and hand out the same version number.
+ */
+function serialize<T>(id: PromptTemplateId, change: () => Promise<T>): Promise<T> {
+  const next = (updates.get(id) || Promise.resolve()).then(change, change)
+  updates.set(id, next)
+  next.finally(() => {
+    if (updates.get(id) === next) updates.delete(id)
+  }).catch(() => {})
+  return next
+}
+
+function toState(id: PromptTemplateId, record: PromptTemplateRecord | null): PromptTemplateState {
+  return {
+    ...PROMPT_TEMPLATES[id],
+    active_version: record?.active_version ?? BUILT_IN_VERSION,
+    versions: [builtInVersion(id), ...(record?.versions ?? [])],
+  }
+}
+
+export async function getPromptTemplate(id: PromptTemplateId): Promise<PromptTemplateState> {
+  return toState(id, await templateStore.get(id))
+}
+
+export async function listPromptTemplates(): Promise<PromptTemplateState[]> {
+  return Promise.all(PROMPT_TEMPLATE_IDS.map(getPromptTemplate))
+}
+
+/**
+ * Save a new version of a template and make it the active one.
+ * @throws Error listing the problems when the template is invalid
+ */
+export async function savePromptVersion(
+  id: PromptTemplateId,
+  body: string,
+  note?: string
+): Promise<PromptTemplateState> {
+  const issues = validatePromptTemplate(id, body)
+  if (issues.length) throw new Error(issues.join('; '))
+
+  return serialize(id, async () => {
+    const record: PromptTemplateRecord = (await templateStore.get(id)) ?? {
+      template_id: id,
+      active_version: BUILT_IN_VERSION,
+      versions: [],
+    }
+    const version: PromptTemplateVersion = {
+      template_id: id,
+      version: BUILT_IN_VERSION + record.versions.length + 1,
+      body,
+      created_at: new Date().toISOString(),
+      ...(note?.trim() ? { note: note.trim() } : {}),
+    }
+    record.versions.push(version)
+    record.active_version = version.version
+
+    await templateStore.put(id, record)
+    return toState(id, record)
+  })
+}
+
+/**
+ * Make an existing version the active one (roll back or forward).
+ * Returns null when the version does not exist.
+ */
+export async function activatePromptVersion(
+  id: PromptTemplateId,
+  version: number
+): Promise<PromptTemplateState | null> {
+  return serialize(id, async () => {
+    const record = await templateStore.get(id)
+    const state = toState(id, record)
+    if (!state.versions.some((entry) => entry.version === version)) return null
+
+    await templateStore.put(id, {
+      template_id: id,
+      versions: record?.versions ?? [],
+      active_version: version,
+    })
+    return { ...state, active_version: version }
+  })
+}
@@ -0,0 +1,222 @@
+/**
+ * Prompt Templates
+ *
+ * The prompts sent to the news, personality and draft agents, as editable
+ * templates with {{variable}} placeholders. Every saved edit is a new
+ * numbered version; version 1 is always the built-in prompt from
+ * pipelines.ts, so a template can be rolled back to any earlier version.
+ * Runs record the version of each template they used.
+ *
+ * Variables:
+ * - {{news}}, {{persona}}: step inputs, filled by the workflow engine
+ * - {{platform}}, {{platform_guidance}}, {{max_items}}: filled when the
+ *   pipeline is built, per target platform
+ *
+ * This module is shared by the browser and the server; versions are stored
+ * by promptStore.ts.
+ *
+ * @example
+ * ```ts
+ * const issues = validatePromptTemplate('draft', body)
+ * const preview = renderPromptPreview(body, { platform: 'x' })
+ * ```
+ */
+
+import { DEFAULT_PROMPTS, renderPipelinePrompt } from '@/utils/pipelines'
+import type { PlatformId } from '@/utils/platforms'
+import { renderTemplate } from '@/utils/workflow'
+
+export type PromptTemplateId = 'news' | 'personality' | 'draft' | 'regenerate_draft'
+
+export type PromptVariableName = 'news' | 'persona' | 'platform' | 'platform_guidance' | 'max_items'
+
+export interface PromptVariable {
+  name: PromptVariableName
+  description: string
+  /** Shown in the editor preview in place of step inputs */
+  example?: string
+}
+
+export interface PromptTemplateDefinition {
+  id: PromptTemplateId
+  label: string
+  description: string
+  /** Variables the template may use */
+  variables: PromptVariableName[]
+  /** Variables the template must use, or the step would not see its inputs */
+  required: PromptVariableName[]
+}
+
+export interface PromptTemplateVersion {
+  template_id: PromptTemplateId
+  /** 1-based; 1 is the built-in prompt */
+  version: number
+  body: string
+  created_at: string
+  note?: string
+}
+
+/** A template with its versions and the one runs use */
+export interface PromptTemplateState extends PromptTemplateDefinition {
+  active_version: number
+  /** Oldest first, starting with the built-in version */
+  versions: PromptTemplateVersion[]
+}
+
+/** Template version used by each step of a run */
+export type PromptVersionMap = Partial<Record<PromptTemplateId, number>>
+
+export const BUILT_IN_VERSION = 1
+
+export const PROMPT_VARIABLES: Record<PromptVariableName, PromptVariable> = {
+  news: {
+    name: 'news',
+    description: 'News items for the draft, as JSON',
+    example: JSON.stringify([
+      {
+        headline: 'Example model launch',
+        source: 'Example News',
+        date: '2025-01-01',
+        summary: 'A short summary of the story.',
+        key_takeaway: 'Why it matters.',
+        url: 'https://example.com/story',
+        relevance_score: 0.9,
+      },
+    ]),
+  },
+  persona: {
+    name: 'persona',
+    description: 'Personality profile, as JSON',
+    example: JSON.stringify({ tone: 'friendly', formality: 'casual', emoji_usage: 'moderate' }),
+  },
+  platform: { name: 'platform', description: 'Target platform name, e.g. "Discord" or "X"' },
+  platform_guidance: {
+    name: 'platform_guidance',
+    description: "The platform's length, markup, emoji, link and mention rules",
+  },
+  max_items: { name: 'max_items', description: 'News items the draft step receives' },
+}
+
+const BUILD_VARIABLES: PromptVariableName[] = ['platform', 'platform_guidance', 'max_items']
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateDefinition> = {
+  news: {
+    id: 'news',
+    label: 'News',
+    description: 'Asks the news agent for the latest stories',
+    variables: BUILD_VARIABLES,
+    required: [],
+  },
+  personality: {
+    id: 'personality',
+    label: 'Personality',
+    description: 'Asks the personality agent for a voice profile',
+    variables: BUILD_VARIABLES,
+    required: [],
+  },
+  draft: {
+    id: 'draft',
+    label: 'Draft',
+    description: 'Writes the draft for each platform from the news and the profile',
+    variables: ['news', 'persona', ...BUILD_VARIABLES],
+    required: ['news', 'persona'],
+  },
+  regenerate_draft: {
+    id: 'regenerate_draft',
+    label: 'Regenerate draft',
+    description: 'Asks for a fresh take on the same news',
+    variables: ['news', 'persona', ...BUILD_VARIABLES],
+    required: ['news', 'persona'],
+  },
+}
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[]
+
+export function isPromptTemplateId(value: unknown): value is PromptTemplateId {
+  return typeof value === 'string' && Object.hasOwn(PROMPT_TEMPLATES, value)
+}
+
+export function builtInVersion(id: PromptTemplateId): PromptTemplateVersion {
+  return {
+    template_id: id,
+    version: BUILT_IN_VERSION,
+    body: DEFAULT_PROMPTS[id],
+    created_at: '',
+    note: 'Built-in prompt',
+  }
+}
+
+/** Every template at its built-in version, for when saved versions cannot be loaded */
+export function builtInTemplates(): PromptTemplateState[] {
+  return PROMPT_TEMPLATE_IDS.map((id) => ({
+    ...PROMPT_TEMPLATES[id],
+    active_version: BUILT_IN_VERSION,
+    versions: [builtInVersion(id)],
+  }))
+}
+
+export function activeVersion(template: PromptTemplateState): PromptTemplateVersion {
+  return (
+    template.versions.find((version) => version.version === template.active_version) ??
+    template.versions[0]
+  )
+}
+
+/** Variable names a template uses, in order of first use */
+export function templateVariables(body: string): string[] {
+  const names = Array.from(body.matchAll(/\{\{\s*([\w.-]+)\s*\}\}/g), (match) => match[1])
+  return Array.from(new Set(names))
+}
+
+/**
+ * Problems that would keep a template from working: an empty body, unknown
+ * variables (they would reach the agent as literal {{name}}) and missing
+ * required ones.
+ */
+export function validatePromptTemplate(id: PromptTemplateId, body: string): string[] {
+  const definition = PROMPT_TEMPLATES[id]
+  if (!body.trim()) return ['Template is empty']
+
+  const used = templateVariables(body)
+  const issues = used
+    .filter((name) => !(definition.variables as string[]).includes(name))
+    .map((name) => `Unknown variable {{${name}}}`)
+  for (const name of definition.required) {
+    if (!used.includes(name)) issues.push(`Missing required variable {{${name}}}`)
+  }
+  return issues
+}
+
+/**
+ * The prompt an agent would receive: pipeline variables for the platform,
+ * then example step inputs.
+ */
+export function renderPromptPreview(
+  body: string,
+  options: { platform?: PlatformId; inputs?: Partial<Record<PromptVariableName, string>> } = {}
+): string {
+  const examples = Object.fromEntries(
+    Object.values(PROMPT_VARIABLES)
+      .filter((variable) => variable.example !== undefined)
+      .map((variable) => [variable.name, variable.example])
+  )
+  return renderTemplate(renderPipelinePrompt(body, options.platform), {
+    ...examples,
+    ...options.inputs,
+  })
+}
+
+/** Active body and version of every template, as the pipeline takes them */
+export function activePrompts(templates: PromptTemplateState[]): {
+  prompts: Partial<Record<PromptTemplateId, string>>
+  versions: PromptVersionMap
+} {
+  const prompts: Partial<Record<PromptTemplateId, string>> = {}
+  const versions: PromptVersionMap = {}
+  for (const template of templates) {
+    const version = activeVersion(template)
+    prompts[template.id] = version.body
+    versions[template.id] = version.version
+  }
+  return { prompts, versions }
+}
@@ -0,0 +1,107 @@
+/**
+ * Provider selection and resilience policy, resolved per agent_id from the
+ * environment (see ./index for the variables) and the agent registry.
+ */
+
+import { createFixtureProvider } from './fixture'
+import { createLyzrProvider } from './lyzr'
+import { createOpenAIProvider } from './openai'
+import { DEFAULT_RESILIENCE_POLICY, type ResiliencePolicy } from './resilience'
+import type { AgentProvider, AgentProviderConfig, ProviderName } from './types'
+
+const PROVIDER_NAMES: ProviderName[] = ['lyzr', 'openai', 'fixture']
+
+/**
+ * Resolve the provider configuration for an agent from the environment, with
+ * the settings the agent registry sets (`registered`) taking precedence.
+ * Invalid entries fall back to the default provider rather than failing the request.
+ */
+export function getAgentProviderConfig(
+  agent_id: string,
+  registered: Partial<AgentProviderConfig> = {}
+): AgentProviderConfig {
+  const resolved = getEnvProviderConfig(agent_id)
+  return {
+    ...resolved,
+    ...registered,
+    provider: toProviderName(registered.provider) || resolved.provider,
+  }
+}
+
+function getEnvProviderConfig(agent_id: string): AgentProviderConfig {
+  const fallback = toProviderName(process.env.AGENT_PROVIDER) || 'lyzr'
+
+  let overrides: Record<string, unknown> = {}
+  if (process.env.AGENT_PROVIDERS) {
+    try {
+      overrides = JSON.parse(process.env.AGENT_PROVIDERS)
+    } catch (e) {
+      console.error('AGENT_PROVIDERS is not valid JSON, ignoring it:', e)
+    }
+  }
+
+  const entry = overrides[agent_id]
+  if (typeof entry === 'string') {
+    return { provider: toProviderName(entry) || fallback }
+  }
+  if (entry && typeof entry === 'object') {
+    const config = entry as Partial<AgentProviderConfig>
+    return { ...config, provider: toProviderName(config.provider) || fallback }
+  }
+  return { provider: fallback }
+}
+
+/**
+ * Build the provider that should serve this agent_id.
+ */
+export function getProviderForAgent(
+  agent_id: string,
+  registered?: Partial<AgentProviderConfig>
+): AgentProvider {
+  const config = getAgentProviderConfig(agent_id, registered)
+
+  switch (config.provider) {
+    case 'fixture':
+      return createFixtureProvider({ fixture: config.fixture })
+    case 'openai':
+      return createOpenAIProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: config.model || process.env.OPENAI_MODEL || 'gpt-4o-mini',
+      })
+    case 'lyzr':
+    default:
+      return createLyzrProvider({ apiKey: process.env.LYZR_API_KEY })
+  }
+}
+
+/**
+ * Resolve the timeout and retry policy for an agent.
+ */
+export function getResiliencePolicy(
+  agent_id: string,
+  registered?: Partial<AgentProviderConfig>
+): ResiliencePolicy {
+  const config = getAgentProviderConfig(agent_id, registered)
+
+  return {
+    ...DEFAULT_RESILIENCE_POLICY,
+    timeoutMs:
+      config.timeoutMs ??
+      envNumber('AGENT_TIMEOUT_MS') ??
+      DEFAULT_RESILIENCE_POLICY.timeoutMs,
+    maxAttempts:
+      config.maxAttempts ??
+      envNumber('AGENT_MAX_ATTEMPTS') ??
+      DEFAULT_RESILIENCE_POLICY.maxAttempts,
+  }
+}
+
+function envNumber(name: string): number | undefined {
+  const value = Number(process.env[name])
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : undefined
+}
+
+function toProviderName(value: unknown): ProviderName | null {
+  return PROVIDER_NAMES.includes(value as ProviderName) ? (value as ProviderName) : null
+}
@@ -0,0 +1,135 @@
+import type { AgentProvider } from './types'
+
+/**
+ * Canned replies for the news -> personality -> draft pipeline.
+ * Shaped like the real agents' JSON so the UI and parser see realistic input.
+ */
+const FIXTURES: Record<string, unknown> = {
+  news: {
+    news_summary: [
+      {
+        headline: 'Lyzr ships multi-agent orchestration for enterprise workflows',
+        source: 'Lyzr Blog',
+        date: '2026-10-14',
+        summary:
+          'Lyzr Agent Studio now chains specialised agents with shared memory, letting teams compose research, drafting and review steps without glue code.',
+        key_takeaway: 'Agent pipelines become a first-class, no-code building block.',
+        url: 'https://www.lyzr.ai/blog/multi-agent-orchestration',
+        relevance_score: 0.96,
+      },
+      {
+        headline: 'Open-weight models close the gap on reasoning benchmarks',
+        source: 'AI Research Weekly',
+        date: '2026-10-12',
+        summary:
+          'A new round of open-weight releases matches proprietary models on math and code reasoning suites while running on a single GPU node.',
+        key_takeaway: 'Self-hosting strong reasoning models is now practical for mid-size teams.',
+        url: 'https://example.com/ai-research-weekly/open-weight-reasoning',
+        relevance_score: 0.88,
+      },
+      {
+        headline: 'EU publishes practical guidance for general-purpose AI providers',
+        source: 'Tech Policy Review',
+        date: '2026-10-10',
+        summary:
+          'The guidance clarifies documentation and transparency duties, with templates for model cards and training-data summaries.',
+        key_takeaway: 'Compliance paperwork is getting standardised templates.',
+        url: 'https://example.com/tech-policy-review/eu-gpai-guidance',
+        relevance_score: 0.74,
+      },
+    ],
+    search_metadata: {
+      queries_executed: ['Lyzr news', 'AI industry updates this week'],
+      total_results_found: 42,
+      results_selected: 3,
+      search_timestamp: '2026-10-15T09:00:00.000Z',
+    },
+    confidence: 0.9,
+  },
+  personality: {
+    personality_profile: {
+      tone: 'Upbeat and curious, like a friend who reads the changelogs for fun',
+      formality_level: 'informal',
+      vocabulary_style: 'Plain English with light tech jargon, explained inline',
+      emoji_usage: 'One or two per section, used as visual anchors',
+      sentence_structure: 'Short punchy lines with the occasional longer explainer',
+      humor_style: 'Light, self-aware nerd humour',
+      engagement_style: 'Ends sections with a question to the community',
+      key_phrases: ['Big week, folks', "Here's the TL;DR", 'What do you think?'],
+      topic_angles: {
+        product: 'What it unlocks for builders today',
+        research: 'Why it matters outside the lab',
+        policy: 'What changes for day-to-day work',
+      },
+    },
+    confidence: 0.87,
+    analysis_summary:
+      'Casual, energetic community voice that keeps technical news approachable and invites discussion.',
+  },
+  draft: {
+    draft_message:
+      "**Big week, folks** 🚀\n\n**Lyzr ships multi-agent orchestration**\nAgent pipelines are now a no-code building block - research, draft and review steps can share memory out of the box.\n\n**Open-weight models catch up on reasoning** 🧠\nStrong reasoning on a single GPU node means self-hosting is finally practical for mid-size teams.\n\nHere's the TL;DR: building with agents just got a lot less fiddly. What do you think? Drop your takes below 👇",
+    metadata: {
+      character_count: 452,
+      emoji_count: 3,
+      tone_match: 0.92,
+      personality_alignment: 0.9,
+      engagement_potential: 0.85,
+      news_sources_used: ['Lyzr Blog', 'AI Research Weekly'],
+    },
+    confidence: 0.88,
+    generation_notes: 'Led with the Lyzr release, kept policy news out to stay under two stories.',
+  },
+}
+
+/**
+ * Guess which fixture a prompt is asking for when none is configured.
+ * The draft prompt mentions both news and personality, so it is checked first.
+ */
+function guessFixture(message: string): string {
+  const text = message.toLowerCase()
+  if (text.includes('news items') && text.includes('personality profile')) return 'draft'
+  if (text.includes('personality') || text.includes('tone')) return 'personality'
+  return 'news'
+}
+
+/**
+ * Deterministic local provider for offline development and CI.
+ * Replies are the same for the same prompt and never touch the network.
+ */
+export function createFixtureProvider(config: { fixture?: string } = {}): AgentProvider {
+  const reply = (message: string) => {
+    const name = config.fixture || guessFixture(message)
+    const fixture = FIXTURES[name]
+    return fixture === undefined ? null : JSON.stringify(fixture, null, 2)
+  }
+
+  const unknownFixture = (message: string) => ({
+    ok: false as const,
+    status: 500,
+    error: `Unknown fixture "${config.fixture || guessFixture(message)}"`,
+    details: `Available fixtures: ${Object.keys(FIXTURES).join(', ')}`,
+  })
+
+  return {
+    name: 'fixture',
+
+    async chat(request) {
+      const text = reply(request.message)
+      if (text === null) return unknownFixture(request.message)
+      return { ok: true, response: text }
+    },
+
+    async stream(request) {
+      const text = reply(request.message)
+      if (text === null) return unknownFixture(request.message)
+      return { ok: true, tokens: chunkText(text, 24) }
+    },
+  }
+}
+
+async function* chunkText(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size)
+  }
+}
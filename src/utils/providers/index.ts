@@ -0,0 +1,40 @@
+/**
+ * Upstream Agent Providers
+ *
+ * Picks the provider that serves each agent_id. Server-side only.
+ *
+ * CONFIGURATION (environment variables):
+ * - AGENT_PROVIDER:  default provider for every agent (lyzr | openai | fixture, default lyzr)
+ * - AGENT_PROVIDERS: JSON map of agent_id -> provider name or AgentProviderConfig,
+ *                    e.g. {"690443fbe26dd0e0368525c4": {"provider": "fixture", "fixture": "news"}}
+ * - LYZR_API_KEY:    API key for the Lyzr provider
+ * - OPENAI_BASE_URL, OPENAI_API_KEY, OPENAI_MODEL: OpenAI-compatible provider settings
+ * - AGENT_TIMEOUT_MS, AGENT_MAX_ATTEMPTS: default resilience policy (per-agent
+ *                    timeoutMs / maxAttempts in AGENT_PROVIDERS take precedence)
+ *
+ * The provider and timeout set for an agent on the settings page (see
+ * agentRegistry.ts) take precedence over all of these; callers look the
+ * agent up and pass its settings as `registered`.
+ *
+ * @example
+ * ```ts
+ * // Full /api/agent behaviour: provider, retries, breaker and parsing
+ * const result = await invokeAgent({ message, agent_id, user_id, session_id })
+ * if (result.ok) console.log(result.response, result.attempts)
+ *
+ * // Or drive a provider directly
+ * const provider = getProviderForAgent(agent_id)
+ * const { result, attempts } = await callWithResilience(
+ *   `${provider.name}:${agent_id}`,
+ *   getResiliencePolicy(agent_id),
+ *   (signal) => provider.chat({ message, agent_id, user_id, session_id }, signal)
+ * )
+ * ```
+ */
+
+export type * from './types'
+export { getAgentProviderConfig, getProviderForAgent, getResiliencePolicy } from './config'
+export { callWithResilience } from './resilience'
+export type { AttemptRecord, ResiliencePolicy } from './resilience'
+export { invokeAgent, openAgentStream, parseAgentResponse } from './invoke'
+export type { AgentParseReport, InvokeAgentResult } from './invoke'
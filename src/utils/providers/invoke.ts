@@ -0,0 +1,184 @@
+/**
+ * Server-side Agent Invocation
+ *
+ * The upstream call behind /api/agent: provider selection, timeouts, retries,
+ * circuit breaker and bulletproof parsing. Server routes that need an agent
+ * (e.g. /api/workflow) call this directly instead of going through HTTP.
+ */
+
+import { parseLLMJsonWithReport, type ParseReport } from '@/utils/jsonParser'
+import { getProviderForAgent, getResiliencePolicy } from './config'
+import { callWithResilience, type AttemptRecord } from './resilience'
+import type { AgentProviderConfig, AgentRequest, ProviderFailure } from './types'
+
+export type InvokeAgentResult =
+  | {
+      ok: true
+      response: any
+      raw_response: any
+      attempts: AttemptRecord[]
+      parse_report: AgentParseReport
+    }
+  | (ProviderFailure & { attempts: AttemptRecord[] })
+
+/**
+ * Call an agent and parse its reply.
+ *
+ * @param registered - Provider settings from the agent registry, if the agent is registered
+ */
+export async function invokeAgent(
+  request: AgentRequest,
+  registered?: Partial<AgentProviderConfig>
+): Promise<InvokeAgentResult> {
+  const provider = getProviderForAgent(request.agent_id, registered)
+  const { result, attempts } = await callWithResilience(
+    `${provider.name}:${request.agent_id}`,
+    getResiliencePolicy(request.agent_id, registered),
+    (signal) => provider.chat(request, signal)
+  )
+
+  if (!result.ok) return { ...result, attempts }
+
+  const { response, report } = parseAgentResponse(result.response)
+  return { ok: true, response, raw_response: result.response, attempts, parse_report: report }
+}
+
+/**
+ * Open a token stream for an agent; parse the joined tokens with parseAgentResponse.
+ */
+export async function openAgentStream(
+  request: AgentRequest,
+  registered?: Partial<AgentProviderConfig>
+) {
+  const provider = getProviderForAgent(request.agent_id, registered)
+  return callWithResilience(
+    `${provider.name}:${request.agent_id}`,
+    getResiliencePolicy(request.agent_id, registered),
+    (signal) => provider.stream(request, signal)
+  )
+}
+
+/**
+ * How parseAgentResponse arrived at its result (returned as `debug.parse_report`)
+ */
+export interface AgentParseReport {
+  route_strategy: 'object' | 'direct' | 'parseLLMJson' | 'extraction' | 'last-resort' | 'none'
+  /** STRATEGY 1 clean-up steps that changed the text */
+  preprocessing: string[]
+  /** parseLLMJson's own report, when strategy 3 or 5 ran */
+  parser?: ParseReport
+}
+
+/**
+ * Apply the bulletproof parsing strategies to a raw agent reply:
+ * 1. Preprocessing: Removes \n, \r, \t escapes and code block markers
+ * 2. Direct parse: Fast JSON.parse for well-formed JSON
+ * 3. Advanced parse: parseLLMJson with automatic fixes
+ * 4. Extraction: Finds and parses JSON from mixed text
+ * 5. Last resort: Aggressive parsing with all fixes enabled
+ *
+ * Shared by the JSON and SSE modes of /api/agent and by server-side
+ * workflows so all of them return the same parsed object.
+ */
+export function parseAgentResponse(rawResponse: any): { response: any; report: AgentParseReport } {
+  // BULLETPROOF JSON PARSING with multiple strategies
+  let parsedResponse = rawResponse
+  const report: AgentParseReport = { route_strategy: 'none', preprocessing: [] }
+
+  if (typeof rawResponse === 'string') {
+    try {
+      // STRATEGY 1: Clean up common LLM response issues
+      let cleaned = rawResponse
+      const clean = (step: string, next: string) => {
+        if (next !== cleaned) report.preprocessing.push(step)
+        cleaned = next
+      }
+
+      // Remove literal \n, \r, \t escape sequences (not actual newlines!)
+      clean(
+        'unescape-whitespace',
+        cleaned.replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\t/g, '\t')
+      )
+
+      // Remove markdown code blocks (```json, ```, etc.)
+      clean(
+        'strip-code-fences',
+        cleaned.replace(/^```(?:json|JSON)?\s*\n?/gm, '').replace(/\n?```\s*$/gm, '')
+      )
+
+      // Trim whitespace
+      cleaned = cleaned.trim()
+
+      // STRATEGY 2: Try direct JSON.parse first (fastest) - on the untouched
+      // text first, since unescaping \n above breaks strings in valid JSON
+      try {
+        let directParse
+        try {
+          directParse = JSON.parse(rawResponse.trim())
+        } catch (untouchedError) {
+          directParse = JSON.parse(cleaned)
+        }
+        if (directParse && typeof directParse === 'object') {
+          parsedResponse = directParse
+          report.route_strategy = 'direct'
+          console.log('✅ Direct JSON.parse succeeded')
+        }
+      } catch (directError) {
+        // STRATEGY 3: Use advanced parseLLMJson for complex cases
+        console.log('⚙️ Trying advanced parseLLMJson...')
+        const { value: parsed, report: parserReport } = parseLLMJsonWithReport(cleaned, {
+          attemptFix: true,
+          maxBlocks: 5,
+          preferFirst: true,
+          allowPartial: false
+        })
+        report.parser = parserReport
+
+        if (parsed && typeof parsed === 'object') {
+          parsedResponse = parsed
+          report.route_strategy = 'parseLLMJson'
+          console.log('✅ parseLLMJson succeeded')
+        } else {
+          // STRATEGY 4: Try extracting JSON from anywhere in the string
+          const jsonMatch = cleaned.match(/\{[\s\S]*\}|\[[\s\S]*\]/)
+          if (jsonMatch) {
+            try {
+              const extracted = JSON.parse(jsonMatch[0])
+              if (extracted && typeof extracted === 'object') {
+                parsedResponse = extracted
+                report.route_strategy = 'extraction'
+                console.log('✅ JSON extraction succeeded')
+              }
+            } catch (extractError) {
+              // STRATEGY 5: Last resort - use parseLLMJson on extracted portion
+              const { value: lastResort, report: lastResortReport } = parseLLMJsonWithReport(
+                jsonMatch[0],
+                { attemptFix: true }
+              )
+              report.parser = lastResortReport
+              if (lastResort && typeof lastResort === 'object') {
+                parsedResponse = lastResort
+                report.route_strategy = 'last-resort'
+                console.log('✅ Last resort parsing succeeded')
+              } else {
+                console.log('ℹ️ All parsing strategies failed, keeping original response')
+              }
+            }
+          } else {
+            console.log('ℹ️ No JSON found in response, keeping as-is')
+          }
+        }
+      }
+    } catch (e) {
+      console.error('Error during JSON parsing:', e)
+      // Keep original response on any error
+    }
+  } else if (typeof rawResponse === 'object' && rawResponse !== null) {
+    // Already an object, use as-is
+    parsedResponse = rawResponse
+    report.route_strategy = 'object'
+    console.log('✅ Response already an object')
+  }
+
+  return { response: parsedResponse, report }
+}
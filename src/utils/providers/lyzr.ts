@@ -0,0 +1,100 @@
+import { parseRetryAfter } from './resilience'
+import { readSseData } from './sse'
+import type { AgentProvider, AgentRequest, ProviderFailure } from './types'
+
+const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
+const LYZR_STREAM_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/stream/'
+
+/**
+ * Lyzr Agent Studio provider.
+ * Sends {user_id, agent_id, session_id, message} with the server-side API key.
+ */
+export function createLyzrProvider(config: {
+  apiKey?: string
+  apiUrl?: string
+  streamUrl?: string
+}): AgentProvider {
+  const apiUrl = config.apiUrl || LYZR_API_URL
+  const streamUrl = config.streamUrl || LYZR_STREAM_URL
+
+  const post = (url: string, request: AgentRequest, signal?: AbortSignal) =>
+    fetch(url, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': config.apiKey as string,
+      },
+      body: JSON.stringify({
+        user_id: request.user_id,
+        agent_id: request.agent_id,
+        session_id: request.session_id,
+        message: request.message,
+      }),
+    })
+
+  const missingKey = {
+    ok: false as const,
+    status: 500,
+    error: 'LYZR_API_KEY not configured in .env.local',
+  }
+
+  return {
+    name: 'lyzr',
+
+    async chat(request, signal) {
+      if (!config.apiKey) return missingKey
+
+      const response = await post(apiUrl, request, signal)
+      if (!response.ok) {
+        return failure(response)
+      }
+
+      const data = await response.json()
+      return { ok: true, response: data.response }
+    },
+
+    async stream(request, signal) {
+      if (!config.apiKey) return missingKey
+
+      const response = await post(streamUrl, request, signal)
+      if (!response.ok) {
+        return failure(response)
+      }
+
+      return { ok: true, tokens: lyzrTokens(response) }
+    },
+  }
+}
+
+/**
+ * Lyzr streams `data: <token>` frames; frames whose data is a JSON object
+ * are unwrapped from their content/response/text field.
+ */
+async function* lyzrTokens(response: Response): AsyncGenerator<string> {
+  for await (const data of readSseData(response)) {
+    if (data.startsWith('{')) {
+      try {
+        const parsed = JSON.parse(data)
+        const token = parsed.content ?? parsed.response ?? parsed.text
+        if (typeof token === 'string') {
+          yield token
+          continue
+        }
+      } catch (e) {
+        // Not JSON - treat as a plain text token
+      }
+    }
+    yield data
+  }
+}
+
+async function failure(response: Response): Promise<ProviderFailure> {
+  return {
+    ok: false,
+    status: response.status,
+    error: `API returned status ${response.status}`,
+    details: await response.text(),
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  }
+}
@@ -0,0 +1,71 @@
+import { parseRetryAfter } from './resilience'
+import { readSseData } from './sse'
+import type { AgentProvider, AgentRequest, ProviderFailure } from './types'
+
+/**
+ * OpenAI-compatible provider (OpenAI, Azure OpenAI proxies, vLLM, Ollama, ...).
+ * Sends the message as a single user turn to `{baseUrl}/chat/completions`.
+ */
+export function createOpenAIProvider(config: {
+  baseUrl: string
+  apiKey?: string
+  model: string
+}): AgentProvider {
+  const post = (request: AgentRequest, stream: boolean, signal?: AbortSignal) =>
+    fetch(`${config.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: [{ role: 'user', content: request.message }],
+        user: request.user_id,
+        ...(request.temperature !== undefined ? { temperature: request.temperature } : {}),
+        stream,
+      }),
+    })
+
+  return {
+    name: 'openai',
+
+    async chat(request, signal) {
+      const response = await post(request, false, signal)
+      if (!response.ok) {
+        return failure(response)
+      }
+
+      const data = await response.json()
+      return { ok: true, response: data.choices?.[0]?.message?.content ?? '' }
+    },
+
+    async stream(request, signal) {
+      const response = await post(request, true, signal)
+      if (!response.ok) {
+        return failure(response)
+      }
+
+      return { ok: true, tokens: openAITokens(response) }
+    },
+  }
+}
+
+async function* openAITokens(response: Response): AsyncGenerator<string> {
+  for await (const data of readSseData(response)) {
+    const chunk = JSON.parse(data)
+    const token = chunk.choices?.[0]?.delta?.content
+    if (token) yield token
+  }
+}
+
+async function failure(response: Response): Promise<ProviderFailure> {
+  return {
+    ok: false,
+    status: response.status,
+    error: `API returned status ${response.status}`,
+    details: await response.text(),
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+  }
+}
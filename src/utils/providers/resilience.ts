@@ -0,0 +1,198 @@
+/**
+ * Upstream Resilience
+ *
+ * Wraps provider calls with a per-attempt timeout, exponential backoff with
+ * jitter for retryable failures (408, 429, 5xx, timeouts, network errors),
+ * `Retry-After` support and a per-agent circuit breaker.
+ *
+ * Breaker states (in-memory, per server process):
+ * - closed:    calls go through; consecutive retryable failures are counted
+ * - open:      calls fail fast with 503 until the cooldown has elapsed
+ * - half-open: one trial call is let through; success closes, failure re-opens
+ */
+
+import { sleep } from '@/utils'
+import type { ProviderFailure } from './types'
+
+export interface ResiliencePolicy {
+  /** Abort an attempt that has not answered after this many milliseconds */
+  timeoutMs: number
+  /** Total attempts including the first one */
+  maxAttempts: number
+  /** First backoff delay; doubles on every retry */
+  baseDelayMs: number
+  /** Upper bound for a single backoff delay or Retry-After wait */
+  maxDelayMs: number
+  /** Consecutive failures that open the circuit */
+  breakerThreshold: number
+  /** How long the circuit stays open before a trial call */
+  breakerCooldownMs: number
+}
+
+export interface AttemptRecord {
+  attempt: number
+  /** HTTP status of the attempt, or null when it succeeded */
+  status: number | null
+  duration_ms: number
+  error?: string
+}
+
+export const DEFAULT_RESILIENCE_POLICY: ResiliencePolicy = {
+  timeoutMs: 60_000,
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  breakerThreshold: 5,
+  breakerCooldownMs: 30_000,
+}
+
+interface BreakerState {
+  failures: number
+  openedAt: number | null
+  trialInFlight: boolean
+}
+
+const breakers = new Map<string, BreakerState>()
+
+function getBreaker(key: string): BreakerState {
+  let state = breakers.get(key)
+  if (!state) {
+    state = { failures: 0, openedAt: null, trialInFlight: false }
+    breakers.set(key, state)
+  }
+  return state
+}
+
+/**
+ * Whether a failed attempt is worth retrying.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined
+
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+
+  const date = Date.parse(header)
+  if (!Number.isNaN(date)) return Math.max(0, date - Date.now())
+
+  return undefined
+}
+
+/**
+ * Exponential backoff with equal jitter: half the delay is fixed, half random.
+ */
+function backoffDelay(attempt: number, policy: ResiliencePolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1))
+  return exponential / 2 + Math.random() * (exponential / 2)
+}
+
+/**
+ * Run `call` with timeout, retries and the circuit breaker for `key`.
+ *
+ * `call` receives an AbortSignal that fires on timeout. It resolves with a
+ * provider result; thrown errors are treated as network failures (502), and
+ * aborts as timeouts (504).
+ *
+ * For streams, the timeout covers the time until `call` resolves (the upstream
+ * has answered with headers); the body is not aborted afterwards.
+ *
+ * @returns The last result together with one record per attempt made
+ */
+export async function callWithResilience<T extends { ok: true } | ProviderFailure>(
+  key: string,
+  policy: ResiliencePolicy,
+  call: (signal: AbortSignal) => Promise<T>
+): Promise<{ result: T | ProviderFailure; attempts: AttemptRecord[] }> {
+  const breaker = getBreaker(key)
+  const attempts: AttemptRecord[] = []
+
+  if (breaker.openedAt !== null) {
+    const remaining = breaker.openedAt + policy.breakerCooldownMs - Date.now()
+    if (remaining > 0 || breaker.trialInFlight) {
+      return {
+        result: {
+          ok: false,
+          status: 503,
+          error: 'Upstream circuit open',
+          details: `Too many failures for ${key}; retrying in ${Math.ceil(Math.max(remaining, 0) / 1000)}s`,
+          retryAfterMs: Math.max(remaining, 0),
+        },
+        attempts,
+      }
+    }
+    // Cooldown elapsed: let this call through as the half-open trial
+    breaker.trialInFlight = true
+  }
+
+  let result: T | ProviderFailure = {
+    ok: false,
+    status: 500,
+    error: 'No attempts made',
+  }
+
+  for (let attempt = 1; attempt <= policy.maxAttempts; attempt++) {
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), policy.timeoutMs)
+    const startedAt = Date.now()
+
+    try {
+      result = await call(controller.signal)
+    } catch (error) {
+      result = controller.signal.aborted
+        ? {
+            ok: false,
+            status: 504,
+            error: `Upstream timed out after ${policy.timeoutMs}ms`,
+          }
+        : {
+            ok: false,
+            status: 502,
+            error: 'Upstream request failed',
+            details: error instanceof Error ? error.message : String(error),
+          }
+    } finally {
+      clearTimeout(timer)
+    }
+
+    attempts.push({
+      attempt,
+      status: result.ok ? null : result.status,
+      duration_ms: Date.now() - startedAt,
+      ...(result.ok ? {} : { error: result.error }),
+    })
+
+    if (result.ok) {
+      breaker.failures = 0
+      breaker.openedAt = null
+      breaker.trialInFlight = false
+      return { result, attempts }
+    }
+
+    if (!isRetryableStatus(result.status)) break
+
+    breaker.failures++
+    if (breaker.trialInFlight || breaker.failures >= policy.breakerThreshold) {
+      breaker.openedAt = Date.now()
+      breaker.trialInFlight = false
+      break
+    }
+
+    if (attempt === policy.maxAttempts) break
+
+    // Honour Retry-After when the upstream sends one, unless it asks for
+    // longer than we are willing to wait
+    const retryAfter = result.retryAfterMs
+    if (retryAfter !== undefined && retryAfter > policy.maxDelayMs) break
+    await sleep(Math.max(retryAfter ?? 0, backoffDelay(attempt, policy)))
+  }
+
+  breaker.trialInFlight = false
+  return { result, attempts }
+}
@@ -0,0 +1,39 @@
+/**
+ * Yield the `data:` payload of every Server-Sent Event in a fetch response.
+ * Multi-line data is joined with newlines; iteration stops at `[DONE]`.
+ */
+export async function* readSseData(response: Response): AsyncGenerator<string> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  const frameData = (frame: string) =>
+    frame
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).replace(/^ /, ''))
+      .join('\n')
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+    buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+    let boundary = buffer.indexOf('\n\n')
+    while (boundary !== -1) {
+      const data = frameData(buffer.slice(0, boundary))
+      buffer = buffer.slice(boundary + 2)
+      boundary = buffer.indexOf('\n\n')
+
+      if (!data) continue
+      if (data === '[DONE]') return
+      yield data
+    }
+  }
+
+  // Flush a trailing frame that was not terminated by a blank line
+  const data = frameData(buffer.trim())
+  if (data && data !== '[DONE]') yield data
+}
@@ -0,0 +1,54 @@
+/**
+ * Upstream Agent Provider Types
+ *
+ * A provider turns an /api/agent request into a call against some upstream
+ * (Lyzr, an OpenAI-compatible server, local fixtures) and hands back the raw
+ * reply. Parsing stays in the route so every provider gets the same treatment.
+ */
+
+export type ProviderName = 'lyzr' | 'openai' | 'fixture'
+
+export interface AgentRequest {
+  message: string
+  agent_id: string
+  user_id: string
+  session_id: string
+  /** Sampling temperature; only OpenAI-compatible providers pass it on */
+  temperature?: number
+}
+
+export interface ProviderFailure {
+  ok: false
+  status: number
+  error: string
+  details?: string
+  /** Parsed Retry-After header, when the upstream sent one */
+  retryAfterMs?: number
+}
+
+export type ProviderResult = { ok: true; response: any } | ProviderFailure
+
+export type ProviderStreamResult = { ok: true; tokens: AsyncIterable<string> } | ProviderFailure
+
+export interface AgentProvider {
+  name: ProviderName
+  /** Call the upstream and resolve with the complete raw reply */
+  chat(request: AgentRequest, signal?: AbortSignal): Promise<ProviderResult>
+  /** Call the upstream and yield the reply as text tokens */
+  stream(request: AgentRequest, signal?: AbortSignal): Promise<ProviderStreamResult>
+}
+
+/**
+ * Per-agent provider configuration, keyed by agent_id in AGENT_PROVIDERS.
+ */
+export interface AgentProviderConfig {
+  provider: ProviderName
+  /** Model name sent to OpenAI-compatible servers (defaults to OPENAI_MODEL) */
+  model?: string
+  /** Fixture to replay for the fixture provider (guessed from the prompt if omitted) */
+  fixture?: string
+  /** Per-attempt timeout (defaults to AGENT_TIMEOUT_MS) */
+  timeoutMs?: number
+  /** Total attempts including the first (defaults to AGENT_MAX_ATTEMPTS) */
+  maxAttempts?: number
+}
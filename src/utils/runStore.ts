@@ -0,0 +1,208 @@
+/**
+ * Saved Runs
+ *
+ * Workflow runs kept in IndexedDB so a page refresh does not lose them: the
+ * fetched news (the slowest agent call), the personality, the draft with its
+ * version history, the curated feed and the send settings. The page saves
+ * the current run as it changes and reopens the most recently used one on
+ * load.
+ *
+ * Storage is capped: once there are more than MAX_SAVED_RUNS runs or they
+ * take more than MAX_SAVED_BYTES, the least recently used runs are evicted.
+ * Without IndexedDB nothing is saved and every read comes back empty.
+ *
+ * @example
+ * ```ts
+ * const id = createRunId()
+ * await saveRun(id, { news, personality, draft, curation, persona: null, versions })
+ * const runs = await listRecentRuns()
+ * const run = await openRun(runs[0].id)
+ * ```
+ */
+
+import { dbDelete, dbGet, dbGetAll, dbPut, isLocalDbAvailable } from '@/utils/localDb'
+import type { AgentSelection } from '@/utils/agentRegistry'
+import type { DraftFile, DraftFileCurationEntry } from '@/utils/draftFile'
+import type { DraftVersion } from '@/utils/draftHistory'
+import type { CuratedNewsItem } from '@/utils/newsCuration'
+import type { PlatformId } from '@/utils/platforms'
+import type { PromptVersionMap } from '@/utils/promptTemplates'
+import type { DraftResponse, NewsResponse, PersonalityResponse } from '@/types'
+
+export const MAX_SAVED_RUNS = 20
+export const MAX_SAVED_BYTES = 5 * 1024 * 1024
+
+export interface SavedRun {
+  id: string
+  title: string
+  created_at: string
+  updated_at: string
+  /** Last saved or reopened; the least recent runs are evicted first */
+  accessed_at: string
+  news: NewsResponse | null
+  personality: PersonalityResponse | null
+  draft: DraftResponse | null
+  curation: DraftFileCurationEntry[]
+  persona: { id: string; name: string } | null
+  message_limit?: number
+  send_mode?: DraftFile['send_mode']
+  versions: DraftVersion[]
+  /** Drafts for platforms other than Discord */
+  platform_drafts?: Partial<Record<PlatformId, DraftResponse>>
+  /** Version of each prompt template the latest pipeline run used */
+  prompt_versions?: PromptVersionMap
+  /** Registered agent picked for each step, by registry id */
+  agents?: AgentSelection
+  /** Size of the run as UTF-8 JSON in bytes, used for the storage cap */
+  size: number
+}
+
+/** The workflow state a run is saved from */
+export interface RunSnapshot {
+  news: NewsResponse | null
+  personality: PersonalityResponse | null
+  draft: DraftResponse | null
+  curation: CuratedNewsItem[]
+  persona: { id: string; name: string } | null
+  message_limit?: number
+  send_mode?: DraftFile['send_mode']
+  versions: DraftVersion[]
+  platform_drafts?: Partial<Record<PlatformId, DraftResponse>>
+  prompt_versions?: PromptVersionMap
+  agents?: AgentSelection
+}
+
+export interface SavedRunSummary {
+  id: string
+  title: string
+  created_at: string
+  accessed_at: string
+  news_count: number
+  version_count: number
+  has_draft: boolean
+}
+
+export function createRunId(): string {
+  return `run-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/** First line of the draft, else the top headline */
+export function runTitle(snapshot: Pick<RunSnapshot, 'news' | 'draft'>): string {
+  const line = snapshot.draft?.draft_message
+    .split('\n')
+    .map((text) => text.replace(/[*_~`#>|]/g, '').trim())
+    .find(Boolean)
+  const title = line || snapshot.news?.news_summary[0]?.headline || 'Untitled run'
+  return title.length > 60 ? `${title.slice(0, 59)}…` : title
+}
+
+/**
+ * Ids to delete so the runs fit the caps, least recently used first.
+ * `keepId` (the run being saved) is never evicted.
+ */
+export function selectRunsToEvict(
+  runs: Pick<SavedRun, 'id' | 'accessed_at' | 'size'>[],
+  keepId: string | null,
+  limits: { maxRuns?: number; maxBytes?: number } = {}
+): string[] {
+  const { maxRuns = MAX_SAVED_RUNS, maxBytes = MAX_SAVED_BYTES } = limits
+  const oldestFirst = [...runs].sort((a, b) => a.accessed_at.localeCompare(b.accessed_at))
+  let count = runs.length
+  let bytes = runs.reduce((total, run) => total + run.size, 0)
+
+  const evicted: string[] = []
+  for (const run of oldestFirst) {
+    if (count <= maxRuns && bytes <= maxBytes) break
+    if (run.id === keepId) continue
+    evicted.push(run.id)
+    count--
+    bytes -= run.size
+  }
+  return evicted
+}
+
+async function evict(keepId: string): Promise<void> {
+  const runs = await dbGetAll<SavedRun>('runs')
+  for (const id of selectRunsToEvict(runs, keepId)) await dbDelete('runs', id)
+}
+
+/**
+ * Save the state of a run, replacing what was saved under the same id.
+ * Returns null when IndexedDB is unavailable.
+ */
+export async function saveRun(id: string, snapshot: RunSnapshot): Promise<SavedRun | null> {
+  if (!isLocalDbAvailable()) return null
+
+  const existing = await dbGet<SavedRun>('runs', id)
+  const now = new Date().toISOString()
+  const run: SavedRun = {
+    id,
+    title: runTitle(snapshot),
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+    accessed_at: now,
+    news: snapshot.news,
+    personality: snapshot.personality,
+    draft: snapshot.draft,
+    curation: snapshot.curation.map(({ item, selected, pinned }) => ({ item, selected, pinned })),
+    persona: snapshot.persona,
+    message_limit: snapshot.message_limit,
+    send_mode: snapshot.send_mode,
+    versions: snapshot.versions,
+    platform_drafts: snapshot.platform_drafts,
+    prompt_versions: snapshot.prompt_versions,
+    agents: snapshot.agents,
+    size: 0,
+  }
+  run.size = new Blob([JSON.stringify(run)]).size
+
+  await dbPut('runs', run)
+  await evict(id)
+  return run
+}
+
+/** Saved runs, most recently used first */
+export async function listRecentRuns(): Promise<SavedRunSummary[]> {
+  if (!isLocalDbAvailable()) return []
+
+  try {
+    const runs = await dbGetAll<SavedRun>('runs')
+    return runs
+      .sort((a, b) => b.accessed_at.localeCompare(a.accessed_at))
+      .map((run) => ({
+        id: run.id,
+        title: run.title,
+        created_at: run.created_at,
+        accessed_at: run.accessed_at,
+        news_count: run.news?.news_summary.length ?? 0,
+        version_count: run.versions.length,
+        has_draft: Boolean(run.draft),
+      }))
+  } catch (error) {
+    console.error('Failed to read saved runs:', error)
+    return []
+  }
+}
+
+/** Load a run and mark it as the most recently used */
+export async function openRun(id: string): Promise<SavedRun | null> {
+  if (!isLocalDbAvailable()) return null
+
+  const run = await dbGet<SavedRun>('runs', id)
+  if (!run) return null
+
+  const opened = { ...run, accessed_at: new Date().toISOString() }
+  await dbPut('runs', opened)
+  return opened
+}
+
+/** The run to rehydrate on page load */
+export async function openLastRun(): Promise<SavedRun | null> {
+  const [latest] = await listRecentRuns()
+  return latest ? openRun(latest.id) : null
+}
+
+export async function deleteRun(id: string): Promise<void> {
+  if (!isLocalDbAvailable()) return
+  await dbDelete('runs', id)
+}
@@ -0,0 +1,309 @@
+/**
+ * Scheduled Posting
+ *
+ * Drafts queued for a future time, stored under `<DATA_DIR>/scheduled-posts`
+ * and published by a dispatcher that runs inside the Next.js server
+ * (started from instrumentation.ts). A post is scheduled as wall-clock time
+ * in an IANA time zone and stored with the resulting UTC instant, so
+ * "09:00 Europe/Berlin" stays 09:00 across DST changes.
+ *
+ * Catch-up policy for posts that came due while the server was down
+ * (SCHEDULE_CATCH_UP):
+ * - window (default): publish if no more than SCHEDULE_CATCH_UP_WINDOW_MINUTES
+ *   (default 60) late, otherwise mark missed
+ * - publish: always publish late posts
+ * - skip:    mark missed anything more than two dispatcher intervals late
+ *
+ * Other settings: SCHEDULER_INTERVAL_MS (default 30000) and
+ * SCHEDULER_DISABLED=true to keep the dispatcher from starting.
+ * Server-side only.
+ */
+
+import { randomUUID } from 'crypto'
+import { createJsonFileStore } from '@/utils/jsonFileStore'
+import {
+  getWebhookUrl,
+  isDiscordWebhookUrl,
+  publishMessages,
+  type DiscordEmbed,
+  type SentMessage,
+} from '@/utils/discordWebhook'
+import { zonedTimeToUtc } from '@/utils/timezone'
+
+export type ScheduledPostStatus =
+  | 'scheduled'
+  | 'publishing'
+  | 'published'
+  | 'failed'
+  | 'missed'
+  | 'cancelled'
+
+export type CatchUpPolicy = 'window' | 'publish' | 'skip'
+
+/** Where a post goes: the configured webhook, optionally another one or a thread */
+export interface ScheduledChannel {
+  /** Display name, e.g. "#announcements" */
+  label: string
+  thread_id?: string
+  /** Another Discord webhook instead of DISCORD_WEBHOOK_URL */
+  webhook_url?: string
+}
+
+export interface ScheduledPost {
+  id: string
+  status: ScheduledPostStatus
+  /** Wall-clock time as entered, YYYY-MM-DDTHH:mm */
+  local_time: string
+  timezone: string
+  /** UTC instant the post is due */
+  scheduled_for: string
+  channel: ScheduledChannel
+  persona: { id: string; name: string } | null
+  messages: string[]
+  embeds: DiscordEmbed[]
+  username?: string
+  avatar_url?: string
+  allow_everyone: boolean
+  created_at: string
+  updated_at: string
+  published_at?: string
+  sent?: SentMessage[]
+  error?: string
+}
+
+export interface SchedulePostInput {
+  local_time: string
+  timezone: string
+  channel: ScheduledChannel
+  persona?: { id: string; name: string } | null
+  messages: string[]
+  embeds?: DiscordEmbed[]
+  username?: string
+  avatar_url?: string
+  allow_everyone?: boolean
+}
+
+export interface SchedulerConfig {
+  intervalMs: number
+  catchUp: CatchUpPolicy
+  catchUpWindowMs: number
+}
+
+const postStore = createJsonFileStore<ScheduledPost>('scheduled-posts')
+
+// Posts this process is publishing right now
+const inFlight = new Set<string>()
+
+// Pending status changes per post; see transition()
+const transitions = new Map<string, Promise<unknown>>()
+
+export function getSchedulerConfig(): SchedulerConfig {
+  const policy = process.env.SCHEDULE_CATCH_UP
+  return {
+    intervalMs: Number(process.env.SCHEDULER_INTERVAL_MS) || 30_000,
+    catchUp: policy === 'publish' || policy === 'skip' ? policy : 'window',
+    catchUpWindowMs: (Number(process.env.SCHEDULE_CATCH_UP_WINDOW_MINUTES) || 60) * 60_000,
+  }
+}
+
+/**
+ * Validate and store a post.
+ * @throws Error describing invalid input
+ */
+export async function schedulePost(input: SchedulePostInput): Promise<ScheduledPost> {
+  const scheduledFor = zonedTimeToUtc(input.local_time, input.timezone)
+  if (scheduledFor.getTime() <= Date.now()) throw new Error('Scheduled time is in the past')
+
+  const messages = (input.messages || []).filter((message) => message.trim())
+  if (!messages.length && !input.embeds?.length) throw new Error('Nothing to publish')
+  if (input.channel?.webhook_url && !isDiscordWebhookUrl(input.channel.webhook_url)) {
+    throw new Error('channel.webhook_url must be a Discord webhook URL')
+  }
+
+  const now = new Date().toISOString()
+  const post: ScheduledPost = {
+    id: randomUUID(),
+    status: 'scheduled',
+    local_time: input.local_time,
+    timezone: input.timezone,
+    scheduled_for: scheduledFor.toISOString(),
+    channel: { ...input.channel, label: input.channel?.label?.trim() || 'Default webhook' },
+    persona: input.persona ?? null,
+    messages,
+    embeds: input.embeds || [],
+    username: input.username,
+    avatar_url: input.avatar_url,
+    allow_everyone: input.allow_everyone === true,
+    created_at: now,
+    updated_at: now,
+  }
+
+  await postStore.put(post.id, post)
+  return post
+}
+
+/** All posts, soonest first */
+export async function listScheduledPosts(): Promise<ScheduledPost[]> {
+  const posts = await postStore.list()
+  return posts.sort((a, b) => a.scheduled_for.localeCompare(b.scheduled_for))
+}
+
+export async function getScheduledPost(id: string): Promise<ScheduledPost | null> {
+  return postStore.get(id)
+}
+
+/**
+ * Cancel a post that has not gone out yet.
+ * @returns The updated post, or null when it does not exist or already went out
+ */
+export async function cancelScheduledPost(id: string): Promise<ScheduledPost | null> {
+  return transition(id, 'scheduled', { status: 'cancelled' })
+}
+
+async function update(post: ScheduledPost, patch: Partial<ScheduledPost>): Promise<ScheduledPost> {
+  const next = { ...post, ...patch, updated_at: new Date().toISOString() }
+  await postStore.put(post.id, next)
+  return next
+}
+
+/**
+ * Re-read a post and apply `patch` only if it is still in status `from`.
+ * Transitions are serialised per post, so a cancel and the dispatcher can
+ * never both act on the same scheduled post.
+ * @returns The updated post, or null when it is gone or no longer in `from`
+ */
+function transition(
+  id: string,
+  from: ScheduledPostStatus,
+  patch: Partial<ScheduledPost>
+): Promise<ScheduledPost | null> {
+  const apply = async () => {
+    const post = await postStore.get(id)
+    if (!post || post.status !== from) return null
+    return update(post, patch)
+  }
+
+  const next = (transitions.get(id) || Promise.resolve()).then(apply, apply)
+  transitions.set(id, next)
+  next.finally(() => {
+    if (transitions.get(id) === next) transitions.delete(id)
+  }).catch(() => {})
+  return next
+}
+
+/** Publish a due post; null when it was cancelled before it could be claimed */
+async function publish(post: ScheduledPost): Promise<ScheduledPost | null> {
+  const webhookUrl = post.channel.webhook_url || getWebhookUrl()
+  if (!webhookUrl) {
+    return transition(post.id, 'scheduled', {
+      status: 'failed',
+      error: 'DISCORD_WEBHOOK_URL not configured',
+    })
+  }
+
+  const publishing = await transition(post.id, 'scheduled', { status: 'publishing' })
+  if (!publishing) return null
+
+  const result = await publishMessages(publishing.messages, {
+    webhookUrl,
+    username: publishing.username,
+    avatarUrl: publishing.avatar_url,
+    embeds: publishing.embeds,
+    threadId: publishing.channel.thread_id,
+    allowEveryone: publishing.allow_everyone,
+  })
+
+  return update(publishing, {
+    status: result.ok ? 'published' : 'failed',
+    published_at: result.ok ? new Date().toISOString() : undefined,
+    sent: result.sent,
+    error: result.error,
+  })
+}
+
+/**
+ * Publish every post that is due, applying the catch-up policy to late ones.
+ * Posts left in 'publishing' by a crash are treated as failed rather than
+ * re-sent, since part of the series may already be in the channel.
+ */
+export async function dispatchDuePosts(
+  now = Date.now(),
+  config: SchedulerConfig = getSchedulerConfig()
+): Promise<ScheduledPost[]> {
+  const handled: ScheduledPost[] = []
+  const record = (post: ScheduledPost | null) => {
+    if (post) handled.push(post)
+  }
+
+  // The list may be stale by the time a post is handled (e.g. cancelled
+  // meanwhile), so every status change goes through transition()
+  for (const post of await listScheduledPosts()) {
+    if (post.status === 'publishing' && !inFlight.has(post.id)) {
+      record(
+        await transition(post.id, 'publishing', {
+          status: 'failed',
+          error: 'Interrupted while publishing',
+        })
+      )
+      continue
+    }
+    if (post.status !== 'scheduled') continue
+
+    const lateBy = now - new Date(post.scheduled_for).getTime()
+    if (lateBy < 0) continue
+
+    const tooLate =
+      config.catchUp === 'skip'
+        ? lateBy > config.intervalMs * 2
+        : config.catchUp === 'window' && lateBy > config.catchUpWindowMs
+    if (tooLate) {
+      record(
+        await transition(post.id, 'scheduled', {
+          status: 'missed',
+          error: `Not published: ${Math.round(lateBy / 60_000)} minutes late (catch-up policy "${config.catchUp}")`,
+        })
+      )
+      continue
+    }
+
+    inFlight.add(post.id)
+    try {
+      record(await publish(post))
+    } finally {
+      inFlight.delete(post.id)
+    }
+  }
+
+  return handled
+}
+
+// Kept on globalThis so dev-server reloads do not start a second timer
+const globalScheduler = globalThis as unknown as { __postScheduler?: NodeJS.Timeout }
+
+/**
+ * Start the background dispatcher (once per process). The first tick runs
+ * right away so posts missed while the server was down are caught up.
+ */
+export function startScheduler(): void {
+  if (process.env.SCHEDULER_DISABLED === 'true' || globalScheduler.__postScheduler) return
+
+  const config = getSchedulerConfig()
+  let running = false
+  const tick = async () => {
+    if (running) return
+    running = true
+    try {
+      const handled = await dispatchDuePosts(Date.now(), config)
+      for (const post of handled) {
+        console.log(`Scheduled post ${post.id}: ${post.status}${post.error ? ` (${post.error})` : ''}`)
+      }
+    } catch (error) {
+      console.error('Scheduler error:', error)
+    } finally {
+      running = false
+    }
+  }
+
+  globalScheduler.__postScheduler = setInterval(tick, config.intervalMs)
+  void tick()
+}
@@ -0,0 +1,99 @@
+/**
+ * Agent Output Schemas
+ *
+ * zod schemas for the JSON each workflow agent is asked to return. Use them
+ * with the schema form of parseLLMJson to get typed, validated results:
+ *
+ * @example
+ * ```ts
+ * import parseLLMJson from '@/utils/jsonParser'
+ * import { NewsResponseSchema } from '@/utils/schemas'
+ *
+ * const parsed = parseLLMJson(agentReply, NewsResponseSchema)
+ * if (parsed.success) console.log(parsed.data.news_summary)
+ * ```
+ *
+ * The fields the UI cannot do without are required; descriptive extras
+ * default to empty values so a terse agent reply still validates.
+ */
+
+import { z } from 'zod'
+import type {
+  DraftMetadata,
+  DraftResponse,
+  NewsItem,
+  NewsResponse,
+  PersonalityProfile,
+  PersonalityResponse,
+} from '@/types'
+
+const score = z.number().min(0).max(1)
+
+export const NewsItemSchema: z.ZodType<NewsItem> = z.object({
+  headline: z.string().min(1),
+  source: z.string().default(''),
+  date: z.string().default(''),
+  summary: z.string().default(''),
+  key_takeaway: z.string().default(''),
+  url: z.string().default(''),
+  relevance_score: score.default(0),
+})
+
+export const NewsResponseSchema: z.ZodType<NewsResponse> = z.object({
+  news_summary: z.array(NewsItemSchema).min(1),
+  search_metadata: z
+    .object({
+      queries_executed: z.array(z.string()).default([]),
+      total_results_found: z.number().default(0),
+      results_selected: z.number().default(0),
+      search_timestamp: z.string().default(''),
+    })
+    .default({
+      queries_executed: [],
+      total_results_found: 0,
+      results_selected: 0,
+      search_timestamp: '',
+    }),
+  confidence: score.default(0),
+})
+
+export const PersonalityProfileSchema: z.ZodType<PersonalityProfile> = z.object({
+  tone: z.string().min(1),
+  formality_level: z.enum(['formal', 'semi-formal', 'informal', 'very casual']),
+  vocabulary_style: z.string().default(''),
+  emoji_usage: z.string().default(''),
+  sentence_structure: z.string().default(''),
+  humor_style: z.string().default(''),
+  engagement_style: z.string().default(''),
+  key_phrases: z.array(z.string()).default([]),
+  topic_angles: z.record(z.string(), z.string()).default({}),
+})
+
+export const PersonalityResponseSchema: z.ZodType<PersonalityResponse> = z.object({
+  personality_profile: PersonalityProfileSchema,
+  confidence: score.default(0),
+  analysis_summary: z.string().default(''),
+})
+
+export const DraftMetadataSchema: z.ZodType<DraftMetadata> = z.object({
+  character_count: z.number().default(0),
+  emoji_count: z.number().default(0),
+  tone_match: score.default(0),
+  personality_alignment: score.default(0),
+  engagement_potential: score.default(0),
+  news_sources_used: z.array(z.string()).default([]),
+})
+
+export const DraftResponseSchema: z.ZodType<DraftResponse> = z.object({
+  draft_message: z.string().min(1),
+  metadata: DraftMetadataSchema.default({
+    character_count: 0,
+    emoji_count: 0,
+    tone_match: 0,
+    personality_alignment: 0,
+    engagement_potential: 0,
+    news_sources_used: [],
+  }),
+  confidence: score.default(0),
+  generation_notes: z.string().default(''),
+})
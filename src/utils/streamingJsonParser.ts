@@ -0,0 +1,375 @@
+/**
+ * Incremental JSON Parser for Streaming LLM Output
+ *
+ * Feed chunks as they arrive and get back a progressively completed value:
+ * strings fill in character by character, objects and array items appear as
+ * soon as they open, and numbers/booleans/null appear once they are complete.
+ * Each chunk is processed once - earlier input is never re-scanned, and
+ * `push` hands back the live value rather than a copy, so a push costs only
+ * its own chunk. Call `snapshot()` for a copy that later chunks leave alone.
+ *
+ * Text before the first `{` or `[` (prose, ```json fences) and anything after
+ * the root value closes are ignored. Trailing commas are tolerated.
+ *
+ * Paths use dot/bracket notation relative to the root: `news_summary[0].headline`
+ * (the root itself is `''`).
+ *
+ * @example
+ * ```ts
+ * import { createStreamingJsonParser } from '@/utils/streamingJsonParser'
+ *
+ * const parser = createStreamingJsonParser()
+ * await streamAIAgent(prompt, agentId, (token) => {
+ *   const { value, complete } = parser.push(token)
+ *   setDraftText(value?.draft_message ?? '')
+ *   setNewsReady(complete.includes('news_summary[0]'))
+ * })
+ * ```
+ */
+
+export interface PartialJsonSnapshot {
+  /**
+   * The value parsed so far, or undefined before the root opens. From `push`
+   * this is the parser's own value, which later chunks keep filling in; from
+   * `snapshot` it is a fresh copy.
+   */
+  value: any
+  /** Paths whose value has been fully read, in completion order */
+  complete: readonly string[]
+  /** Paths still being written, outermost first */
+  open: string[]
+  /** True once the root value has closed */
+  done: boolean
+  /** Set when the input stops being valid JSON; later chunks are ignored */
+  error: string | null
+}
+
+export interface StreamingJsonParser {
+  /** Consume the next chunk and return the updated (live) snapshot */
+  push(chunk: string): PartialJsonSnapshot
+  /** A copy of the current snapshot, without consuming input */
+  snapshot(): PartialJsonSnapshot
+  /** Whether the value at `path` has been fully read */
+  isComplete(path: string): boolean
+  /** Start over for a new stream */
+  reset(): void
+}
+
+type ContainerState =
+  | 'key-or-end' // object: after `{` or `,`
+  | 'colon' // object: after a key
+  | 'value' // object: after `:` / array: after `,`
+  | 'value-or-end' // array: after `[`
+  | 'comma-or-end' // after a member value
+
+interface ContainerFrame {
+  kind: 'object' | 'array'
+  value: any
+  path: string
+  state: ContainerState
+  key: string | null
+}
+
+interface ScalarFrame {
+  kind: 'string' | 'key' | 'literal'
+  buffer: string
+  path: string
+  escape: boolean
+  unicode: string | null
+}
+
+const WHITESPACE = /\s/
+const ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+}
+
+// Assignment would treat a "__proto__" key as the prototype, JSON.parse does not
+function setMember(object: Record<string, unknown>, key: string, value: unknown) {
+  Object.defineProperty(object, key, {
+    value,
+    writable: true,
+    enumerable: true,
+    configurable: true,
+  })
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`
+  return parent ? `${parent}.${key}` : key
+}
+
+/**
+ * Create an incremental parser for one streamed JSON value.
+ */
+export function createStreamingJsonParser(): StreamingJsonParser {
+  let root: any = undefined
+  let stack: ContainerFrame[] = []
+  let scalar: ScalarFrame | null = null
+  let complete: string[] = []
+  let completeSet = new Set<string>()
+  let done = false
+  let error: string | null = null
+
+  const markComplete = (path: string) => {
+    if (!completeSet.has(path)) {
+      completeSet.add(path)
+      complete.push(path)
+    }
+  }
+
+  const top = () => stack[stack.length - 1]
+
+  // Attach a value to the current container (or make it the root)
+  const attach = (value: any): string => {
+    const parent = top()
+    if (!parent) {
+      root = value
+      return ''
+    }
+    if (parent.kind === 'array') {
+      parent.value.push(value)
+      return childPath(parent.path, parent.value.length - 1)
+    }
+    setMember(parent.value, parent.key as string, value)
+    return childPath(parent.path, parent.key as string)
+  }
+
+  // Update the last attached value in place (used while a string grows)
+  const update = (value: any) => {
+    const parent = top()
+    if (!parent) {
+      root = value
+    } else if (parent.kind === 'array') {
+      parent.value[parent.value.length - 1] = value
+    } else {
+      setMember(parent.value, parent.key as string, value)
+    }
+  }
+
+  // A member value finished: close it and move the container along
+  const finishValue = (path: string) => {
+    markComplete(path)
+    const parent = top()
+    if (parent) {
+      parent.state = 'comma-or-end'
+    } else {
+      done = true
+    }
+  }
+
+  const startValue = (char: string): boolean => {
+    if (char === '{' || char === '[') {
+      const value = char === '{' ? {} : []
+      const path = attach(value)
+      stack.push({
+        kind: char === '{' ? 'object' : 'array',
+        value,
+        path,
+        state: char === '{' ? 'key-or-end' : 'value-or-end',
+        key: null,
+      })
+      return true
+    }
+    if (char === '"') {
+      const path = attach('')
+      scalar = { kind: 'string', buffer: '', path, escape: false, unicode: null }
+      return true
+    }
+    if (/[-0-9tfn]/.test(char)) {
+      // Numbers and literals only appear once complete; reserve the path now
+      const parent = top()
+      const path = !parent
+        ? ''
+        : parent.kind === 'array'
+          ? childPath(parent.path, parent.value.length)
+          : childPath(parent.path, parent.key as string)
+      scalar = { kind: 'literal', buffer: char, path, escape: false, unicode: null }
+      return true
+    }
+    return false
+  }
+
+  const closeContainer = () => {
+    const frame = stack.pop() as ContainerFrame
+    finishValue(frame.path)
+  }
+
+  const finishLiteral = (): boolean => {
+    const frame = scalar as ScalarFrame
+    scalar = null
+    let value: any
+    try {
+      value = JSON.parse(frame.buffer)
+    } catch (e) {
+      error = `Invalid literal "${frame.buffer}" at ${frame.path || 'root'}`
+      return false
+    }
+    attach(value)
+    finishValue(frame.path)
+    return true
+  }
+
+  // Returns false when the input is not valid JSON
+  const consumeString = (char: string): boolean => {
+    const frame = scalar as ScalarFrame
+
+    if (frame.unicode !== null) {
+      frame.unicode += char
+      if (frame.unicode.length === 4) {
+        const code = parseInt(frame.unicode, 16)
+        if (Number.isNaN(code)) {
+          error = `Invalid unicode escape at ${frame.path || 'root'}`
+          return false
+        }
+        frame.buffer += String.fromCharCode(code)
+        frame.unicode = null
+      }
+    } else if (frame.escape) {
+      frame.escape = false
+      if (char === 'u') {
+        frame.unicode = ''
+      } else {
+        frame.buffer += ESCAPES[char] ?? char
+      }
+    } else if (char === '\\') {
+      frame.escape = true
+    } else if (char === '"') {
+      scalar = null
+      if (frame.kind === 'key') {
+        const parent = top()
+        parent.key = frame.buffer
+        parent.state = 'colon'
+      } else {
+        update(frame.buffer)
+        finishValue(frame.path)
+      }
+      return true
+    } else {
+      frame.buffer += char
+    }
+
+    if (frame.kind === 'string') update(frame.buffer)
+    return true
+  }
+
+  const consume = (char: string): boolean => {
+    if (scalar && scalar.kind !== 'literal') return consumeString(char)
+
+    if (scalar && scalar.kind === 'literal') {
+      if (/[-+0-9.eEtruefalsn]/.test(char)) {
+        scalar.buffer += char
+        return true
+      }
+      if (!finishLiteral()) return false
+      // Fall through: the terminator still needs handling
+    }
+
+    if (done) return true
+
+    const frame = top()
+
+    if (!frame) {
+      // Skip prose and code fences until the root value opens
+      if (char === '{' || char === '[') startValue(char)
+      return true
+    }
+
+    if (WHITESPACE.test(char)) return true
+
+    switch (frame.state) {
+      case 'key-or-end':
+        if (char === '}') {
+          closeContainer()
+          return true
+        }
+        if (char === '"') {
+          scalar = { kind: 'key', buffer: '', path: frame.path, escape: false, unicode: null }
+          return true
+        }
+        break
+      case 'colon':
+        if (char === ':') {
+          frame.state = 'value'
+          return true
+        }
+        break
+      case 'value-or-end':
+        if (char === ']') {
+          closeContainer()
+          return true
+        }
+        if (startValue(char)) return true
+        break
+      case 'value':
+        // Tolerate trailing commas: `[1, 2,]`
+        if (frame.kind === 'array' && char === ']') {
+          closeContainer()
+          return true
+        }
+        if (startValue(char)) return true
+        break
+      case 'comma-or-end':
+        if (char === ',') {
+          frame.state = frame.kind === 'object' ? 'key-or-end' : 'value'
+          return true
+        }
+        if ((frame.kind === 'object' && char === '}') || (frame.kind === 'array' && char === ']')) {
+          closeContainer()
+          return true
+        }
+        break
+    }
+
+    error = `Unexpected "${char}" at ${frame.path || 'root'}`
+    return false
+  }
+
+  const current = (): PartialJsonSnapshot => {
+    const open = stack.map((frame) => frame.path)
+    if (scalar && scalar.kind === 'string') open.push(scalar.path)
+    return { value: root, complete, open, done, error }
+  }
+
+  const snapshot = (): PartialJsonSnapshot => {
+    const state = current()
+    return {
+      ...state,
+      value: root === undefined ? undefined : JSON.parse(JSON.stringify(root)),
+      complete: [...complete],
+    }
+  }
+
+  return {
+    push(chunk: string) {
+      if (!error && !done) {
+        for (const char of chunk) {
+          if (!consume(char) || done) break
+        }
+      }
+      return current()
+    },
+
+    snapshot,
+
+    isComplete(path: string) {
+      return completeSet.has(path)
+    },
+
+    reset() {
+      root = undefined
+      stack = []
+      scalar = null
+      complete = []
+      completeSet = new Set()
+      done = false
+      error = null
+    },
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Time Zone Helpers
+ *
+ * Convert between a wall-clock time in an IANA time zone ("2025-11-03T09:00"
+ * in "Europe/Berlin") and an absolute instant, using only Intl. Safe on both
+ * client and server.
+ *
+ * @example
+ * ```ts
+ * zonedTimeToUtc('2025-11-03T09:00', 'America/New_York').toISOString()
+ * // '2025-11-03T14:00:00.000Z'
+ * ```
+ */
+
+const LOCAL_TIME = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})(?::(\d{2}))?$/
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch (e) {
+    return false
+  }
+}
+
+/** The browser's or server's own time zone */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+/** IANA zones the runtime knows, for pickers (falls back to a short list) */
+export function listTimeZones(): string[] {
+  const supported = (Intl as any).supportedValuesOf?.('timeZone') as string[] | undefined
+  return supported?.length
+    ? supported
+    : ['UTC', 'America/New_York', 'America/Los_Angeles', 'Europe/London', 'Europe/Berlin', 'Asia/Kolkata', 'Asia/Tokyo']
+}
+
+// Offset of `timeZone` from UTC at `instant`, in milliseconds
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(new Date(instant))
+  const get = (type: string) => Number(parts.find((part) => part.type === type)?.value)
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'))
+  return asUtc - Math.floor(instant / 1000) * 1000
+}
+
+/**
+ * The instant a wall-clock time occurs in a time zone. Times skipped by a
+ * DST jump resolve to the same wall time after the jump; repeated times
+ * resolve to the first occurrence.
+ *
+ * @throws Error for a malformed local time or unknown time zone
+ */
+export function zonedTimeToUtc(localTime: string, timeZone: string): Date {
+  const match = LOCAL_TIME.exec(localTime)
+  if (!match) throw new Error(`Invalid local time "${localTime}" (expected YYYY-MM-DDTHH:mm)`)
+  if (!isValidTimeZone(timeZone)) throw new Error(`Unknown time zone "${timeZone}"`)
+
+  const [, year, month, day, hour, minute, second] = match.map(Number)
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute, second || 0)
+
+  // Offsets either side of any DST change near this time; a candidate is
+  // valid when the zone really shows that wall-clock time at it
+  const halfDay = 12 * 60 * 60 * 1000
+  const before = wallClock - zoneOffset(wallClock - halfDay, timeZone)
+  const after = wallClock - zoneOffset(wallClock + halfDay, timeZone)
+  const valid = [before, after].filter((instant) => instant + zoneOffset(instant, timeZone) === wallClock)
+
+  // Skipped time: the pre-change offset lands just after the jump
+  return new Date(valid.length ? Math.min(...valid) : before)
+}
+
+/** Format an instant as wall-clock time in a time zone */
+export function formatInTimeZone(
+  instant: string | Date,
+  timeZone: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'medium', timeStyle: 'short' }
+): string {
+  return new Intl.DateTimeFormat(undefined, { ...options, timeZone }).format(new Date(instant))
+}
+
+/** The calendar day (YYYY-MM-DD) an instant falls on in a time zone */
+export function dayKeyInTimeZone(instant: string | Date, timeZone: string): string {
+  return new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+  }).format(new Date(instant))
+}
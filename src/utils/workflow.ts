@@ -0,0 +1,288 @@
+/**
+ * Workflow Engine
+ *
+ * Runs a declarative pipeline of agent steps. Each step names its agent, a
+ * prompt template, the inputs it takes from earlier steps, the schema its
+ * output must satisfy and a retry policy. Steps whose inputs are ready run in
+ * parallel; a failed step skips everything that depends on it.
+ *
+ * The engine does not know how agents are reached - callers pass `callAgent`,
+ * so the same definition runs in the browser (via /api/agent) or on the server.
+ *
+ * @example
+ * ```ts
+ * const run = await runWorkflow(createDiscordDraftPipeline(agentIds), {
+ *   callAgent: async (step, prompt) => (await callAIAgent(prompt, step.agentId)).response,
+ *   onStepUpdate: (id, step) => console.log(id, step.status),
+ * })
+ * if (run.status === 'succeeded') console.log(run.outputs.draft)
+ * ```
+ */
+
+import type { ZodType } from 'zod'
+import { sleep } from '@/utils'
+import parseLLMJson from '@/utils/jsonParser'
+
+export interface StepInput {
+  /** Id of the step whose output feeds this input */
+  from: string
+  /** Dot path into that output, e.g. 'news_summary' or 'personality_profile' */
+  path?: string
+  /** Keep only the first N items when the value is an array */
+  take?: number
+}
+
+export interface RetryPolicy {
+  /** Total attempts including the first */
+  attempts: number
+  /** Delay before the first retry; doubles on each further retry */
+  delayMs: number
+}
+
+export interface WorkflowStep<T = any> {
+  id: string
+  label: string
+  agentId: string
+  /** Prompt with {{name}} placeholders filled from `inputs` */
+  prompt: string
+  inputs?: Record<string, StepInput>
+  schema: ZodType<T>
+  retry?: RetryPolicy
+}
+
+export interface WorkflowDefinition {
+  id: string
+  name: string
+  steps: WorkflowStep[]
+}
+
+export type StepStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped'
+
+export interface StepRun {
+  status: StepStatus
+  /** True when the output was supplied by the caller instead of an agent call */
+  seeded?: boolean
+  startedAt?: number
+  finishedAt?: number
+  attempts: number
+  prompt?: string
+  inputs?: Record<string, unknown>
+  output?: any
+  raw?: unknown
+  error?: string
+}
+
+export interface WorkflowRun {
+  status: 'succeeded' | 'failed'
+  steps: Record<string, StepRun>
+  /** Validated outputs of every succeeded step, keyed by step id */
+  outputs: Record<string, any>
+}
+
+export interface AgentCallResult {
+  response: unknown
+  raw?: unknown
+}
+
+export interface RunWorkflowOptions {
+  /** Perform one agent call for a step; throw on transport failure */
+  callAgent: (step: WorkflowStep, prompt: string, attempt: number) => Promise<AgentCallResult>
+  /** Outputs to use instead of running these steps (e.g. results of an earlier run) */
+  seed?: Record<string, any>
+  /** Input values to use instead of resolving them, keyed by step id then input name */
+  inputOverrides?: Record<string, Record<string, unknown>>
+  /** Called whenever a step changes state */
+  onStepUpdate?: (stepId: string, step: StepRun) => void
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { attempts: 2, delayMs: 1000 }
+
+/**
+ * Fill {{name}} placeholders. Objects and arrays are inserted as JSON;
+ * unknown names are left untouched so mistakes stay visible.
+ */
+export function renderTemplate(template: string, vars: Record<string, unknown>): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (match, name: string) => {
+    if (!(name in vars)) return match
+    const value = vars[name]
+    if (value === null || value === undefined) return ''
+    return typeof value === 'object' ? JSON.stringify(value) : String(value)
+  })
+}
+
+function getPath(value: any, path?: string): any {
+  if (!path) return value
+  return path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), value)
+}
+
+/**
+ * Check that every input refers to a known step and that there are no cycles.
+ * @throws Error describing the first problem found
+ */
+export function validateWorkflow(definition: WorkflowDefinition): void {
+  const ids = new Set<string>()
+  for (const step of definition.steps) {
+    if (ids.has(step.id)) throw new Error(`Duplicate step id "${step.id}"`)
+    ids.add(step.id)
+  }
+
+  for (const step of definition.steps) {
+    for (const [name, input] of Object.entries(step.inputs || {})) {
+      if (!ids.has(input.from)) {
+        throw new Error(`Step "${step.id}" input "${name}" refers to unknown step "${input.from}"`)
+      }
+    }
+  }
+
+  // Depth-first search for cycles
+  const state = new Map<string, 'visiting' | 'done'>()
+  const byId = new Map(definition.steps.map((step) => [step.id, step]))
+  const visit = (id: string, trail: string[]) => {
+    if (state.get(id) === 'done') return
+    if (state.get(id) === 'visiting') {
+      throw new Error(`Workflow has a cycle: ${[...trail, id].join(' -> ')}`)
+    }
+    state.set(id, 'visiting')
+    for (const dep of dependenciesOf(byId.get(id) as WorkflowStep)) visit(dep, [...trail, id])
+    state.set(id, 'done')
+  }
+  for (const step of definition.steps) visit(step.id, [])
+}
+
+/**
+ * Problems with outputs supplied instead of running steps: keys that name no
+ * step and outputs that do not satisfy their step's schema.
+ */
+export function seedIssues(
+  definition: WorkflowDefinition,
+  seed: Record<string, unknown>
+): string[] {
+  const byId = new Map(definition.steps.map((step) => [step.id, step]))
+  return Object.entries(seed).flatMap(([id, output]) => {
+    const step = byId.get(id)
+    if (!step) return [`"${id}" is not a step of ${definition.id}`]
+    const parsed = step.schema.safeParse(output)
+    if (parsed.success) return []
+    const issue = parsed.error.issues[0]
+    const where = issue?.path.length ? ` at ${issue.path.join('.')}` : ''
+    return [`${id}${where}: ${issue?.message ?? parsed.error.message}`]
+  })
+}
+
+export function dependenciesOf(step: WorkflowStep): string[] {
+  return Array.from(new Set(Object.values(step.inputs || {}).map((input) => input.from)))
+}
+
+/**
+ * Run a workflow to completion.
+ * Never throws for step failures - inspect `run.status` and `run.steps`.
+ */
+export async function runWorkflow(
+  definition: WorkflowDefinition,
+  options: RunWorkflowOptions
+): Promise<WorkflowRun> {
+  validateWorkflow(definition)
+
+  const steps: Record<string, StepRun> = {}
+  const outputs: Record<string, any> = {}
+
+  const setStep = (id: string, patch: Partial<StepRun>) => {
+    steps[id] = { ...steps[id], ...patch }
+    options.onStepUpdate?.(id, steps[id])
+  }
+
+  for (const step of definition.steps) {
+    if (options.seed && step.id in options.seed) {
+      outputs[step.id] = options.seed[step.id]
+      setStep(step.id, { status: 'succeeded', seeded: true, attempts: 0, output: outputs[step.id] })
+    } else {
+      setStep(step.id, { status: 'pending', attempts: 0 })
+    }
+  }
+
+  const running = new Map<string, Promise<void>>()
+
+  while (true) {
+    // Skip steps whose dependencies failed or were skipped
+    for (const step of definition.steps) {
+      if (steps[step.id].status !== 'pending') continue
+      const blocked = dependenciesOf(step).find((dep) =>
+        ['failed', 'skipped'].includes(steps[dep].status)
+      )
+      if (blocked) {
+        setStep(step.id, { status: 'skipped', error: `Skipped because "${blocked}" did not succeed` })
+      }
+    }
+
+    const ready = definition.steps.filter(
+      (step) =>
+        steps[step.id].status === 'pending' &&
+        dependenciesOf(step).every((dep) => steps[dep].status === 'succeeded')
+    )
+
+    for (const step of ready) {
+      setStep(step.id, { status: 'running', startedAt: Date.now() })
+      running.set(
+        step.id,
+        executeStep(step, outputs, options, (patch) => setStep(step.id, patch)).finally(() =>
+          running.delete(step.id)
+        )
+      )
+    }
+
+    if (running.size === 0) break
+    await Promise.race(running.values())
+  }
+
+  const failed = definition.steps.some((step) => steps[step.id].status !== 'succeeded')
+  return { status: failed ? 'failed' : 'succeeded', steps, outputs }
+}
+
+async function executeStep(
+  step: WorkflowStep,
+  outputs: Record<string, any>,
+  options: RunWorkflowOptions,
+  update: (patch: Partial<StepRun>) => void
+): Promise<void> {
+  const overrides = options.inputOverrides?.[step.id] || {}
+  const inputs: Record<string, unknown> = {}
+  for (const [name, input] of Object.entries(step.inputs || {})) {
+    if (name in overrides) {
+      inputs[name] = overrides[name]
+      continue
+    }
+    const value = getPath(outputs[input.from], input.path)
+    inputs[name] = Array.isArray(value) && input.take ? value.slice(0, input.take) : value
+  }
+
+  const prompt = renderTemplate(step.prompt, inputs)
+  const retry = step.retry || DEFAULT_RETRY_POLICY
+  update({ prompt, inputs })
+
+  let lastError = 'Step did not run'
+  for (let attempt = 1; attempt <= retry.attempts; attempt++) {
+    update({ attempts: attempt })
+
+    try {
+      const { response, raw } = await options.callAgent(step, prompt, attempt)
+      const parsed = parseLLMJson(response, step.schema)
+
+      if (parsed.success) {
+        outputs[step.id] = parsed.data
+        update({ status: 'succeeded', output: parsed.data, raw, finishedAt: Date.now(), error: undefined })
+        return
+      }
+
+      const issue = parsed.error.issues[0]
+      const where = issue?.path.length ? ` at ${issue.path.join('.')}` : ''
+      lastError = `${step.label} agent returned unexpected output${where}: ${issue?.message ?? parsed.error.message}`
+      update({ raw })
+    } catch (error) {
+      lastError = error instanceof Error ? error.message : String(error)
+    }
+
+    if (attempt < retry.attempts) await sleep(retry.delayMs * 2 ** (attempt - 1))
+  }
+
+  update({ status: 'failed', error: lastError, finishedAt: Date.now() })
+}
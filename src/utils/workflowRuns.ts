@@ -0,0 +1,192 @@
+/**
+ * Server-side Workflow Runs
+ *
+ * Runs the Discord draft pipeline on the server through the same upstream
+ * call as /api/agent (invokeAgent) and persists every run as JSON under
+ * `<DATA_DIR>/workflow-runs/<run_id>.json`: per-step prompts, inputs,
+ * validated outputs, raw responses, attempts and timings, and the agents
+ * and prompt template versions the run used. Agents come from the agent
+ * registry (configStore.ts) unless the run picks others. Server-side only.
+ */
+
+import { randomUUID } from 'crypto'
+import { createJsonFileStore } from '@/utils/jsonFileStore'
+import {
+  agentProviderOverrides,
+  resolveAgents,
+  type AgentSelection,
+} from '@/utils/agentRegistry'
+import { getAppConfig } from '@/utils/configStore'
+import {
+  createDiscordDraftPipeline,
+  DEFAULT_AGENT_IDS,
+  type PipelineAgentIds,
+} from '@/utils/pipelines'
+import type { PlatformId } from '@/utils/platforms'
+import { listPromptTemplates } from '@/utils/promptStore'
+import { activePrompts, type PromptVersionMap } from '@/utils/promptTemplates'
+import { invokeAgent } from '@/utils/providers'
+import { runWorkflow, seedIssues, type StepRun } from '@/utils/workflow'
+import type { AgentStepRole } from '@/types'
+
+export type WorkflowRunStatus = 'running' | 'succeeded' | 'failed'
+
+export interface WorkflowRunStepRecord extends StepRun {
+  duration_ms?: number
+}
+
+export interface WorkflowRunRecord {
+  id: string
+  pipeline: string
+  status: WorkflowRunStatus
+  created_at: string
+  updated_at: string
+  finished_at?: string
+  /** Registry id of the agent each step used */
+  agents: Record<AgentStepRole, string>
+  agent_ids: PipelineAgentIds
+  regenerate: boolean
+  /** Platforms drafted besides Discord */
+  platforms: PlatformId[]
+  /** Version of each prompt template the run used */
+  prompt_versions: PromptVersionMap
+  steps: Record<string, WorkflowRunStepRecord>
+  outputs: Record<string, any>
+  error?: string
+}
+
+export interface StartWorkflowRunOptions {
+  /** Registered agents to use instead of the defaults, by registry id */
+  agents?: AgentSelection
+  /** Upstream agent ids to call instead, bypassing the registry */
+  agent_ids?: Partial<PipelineAgentIds>
+  /** Ask the draft agent for a fresh take (use with `seed`) */
+  regenerate?: boolean
+  /** Platforms to draft for besides Discord, one `draft-<platform>` step each */
+  platforms?: PlatformId[]
+  /** Step outputs to reuse instead of calling their agents, keyed by step id */
+  seed?: Record<string, unknown>
+}
+
+const runStore = createJsonFileStore<WorkflowRunRecord>('workflow-runs')
+
+/**
+ * Problems with a run's `seed`: keys that are not step ids of the pipeline
+ * (with these platforms) and outputs that fail the step's schema.
+ */
+export function runSeedIssues(
+  seed: Record<string, unknown>,
+  platforms: PlatformId[] = []
+): string[] {
+  return seedIssues(createDiscordDraftPipeline(DEFAULT_AGENT_IDS, { platforms }), seed)
+}
+
+/**
+ * Create a run record and start executing it.
+ *
+ * @returns The initial record and a promise for the finished record
+ * @throws Error listing the problems when `seed` is invalid
+ */
+export async function startWorkflowRun(options: StartWorkflowRunOptions = {}) {
+  const config = await getAppConfig()
+  const resolved = resolveAgents(config, options.agents)
+  const agent_ids = { ...resolved.agent_ids, ...options.agent_ids }
+  const platforms = options.platforms ?? []
+  const { prompts, versions } = activePrompts(await listPromptTemplates())
+  const pipeline = createDiscordDraftPipeline(agent_ids, {
+    regenerate: options.regenerate,
+    platforms,
+    prompts,
+    templates: resolved.templates,
+  })
+  const issues = seedIssues(pipeline, options.seed ?? {})
+  if (issues.length) throw new Error(`Invalid seed: ${issues.join('; ')}`)
+  const now = new Date().toISOString()
+
+  const record: WorkflowRunRecord = {
+    id: randomUUID(),
+    pipeline: pipeline.id,
+    status: 'running',
+    created_at: now,
+    updated_at: now,
+    agents: {
+      news: resolved.agents.news.id,
+      personality: resolved.agents.personality.id,
+      draft: resolved.agents.draft.id,
+    },
+    agent_ids,
+    regenerate: !!options.regenerate,
+    platforms,
+    prompt_versions: versions,
+    steps: {},
+    outputs: {},
+  }
+  await runStore.put(record.id, record)
+
+  const save = () => {
+    record.updated_at = new Date().toISOString()
+    return runStore.put(record.id, record)
+  }
+
+  const done = runWorkflow(pipeline, {
+    seed: options.seed,
+    callAgent: async (step, prompt, attempt) => {
+      const result = await invokeAgent(
+        {
+          message: prompt,
+          agent_id: step.agentId,
+          user_id: 'workflow',
+          session_id: `${record.id}-${step.id}-${attempt}`,
+        },
+        agentProviderOverrides(config.agents.find((agent) => agent.agent_id === step.agentId))
+      )
+      if (!result.ok) {
+        throw new Error(result.details ? `${result.error}: ${result.details}` : result.error)
+      }
+      return {
+        response: result.response,
+        raw: { raw_response: result.raw_response, attempts: result.attempts },
+      }
+    },
+    onStepUpdate: (stepId, step) => {
+      record.steps[stepId] = {
+        ...step,
+        ...(step.startedAt && step.finishedAt
+          ? { duration_ms: step.finishedAt - step.startedAt }
+          : {}),
+      }
+      save().catch((error) => console.error('Failed to save workflow run:', error))
+    },
+  })
+    .then((run) => {
+      record.status = run.status
+      record.outputs = run.outputs
+      record.error = Object.values(run.steps).find((step) => step.status === 'failed')?.error
+      return record
+    })
+    .catch((error) => {
+      record.status = 'failed'
+      record.error = error instanceof Error ? error.message : String(error)
+      return record
+    })
+    .then(async (finished) => {
+      finished.finished_at = new Date().toISOString()
+      // Callers that do not wait on the run never see this promise reject
+      await save().catch((error) => console.error('Failed to save workflow run:', error))
+      return finished
+    })
+
+  return { record: { ...record }, done }
+}
+
+export function getWorkflowRun(id: string): Promise<WorkflowRunRecord | null> {
+  return runStore.get(id)
+}
+
+/**
+ * Most recent runs first.
+ */
+export async function listWorkflowRuns(limit = 20): Promise<WorkflowRunRecord[]> {
+  const runs = await runStore.list()
+  return runs.sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, limit)
+}
@@ -0,0 +1,128 @@
+/**
+ * ZIP Writer
+ *
+ * Builds an uncompressed (STORE method) ZIP archive in memory. Export
+ * bundles are a few small text files, so skipping compression keeps this
+ * dependency-free and synchronous. Works in the browser and in Node.
+ *
+ * @example
+ * ```ts
+ * const bytes = createZip([
+ *   { name: 'draft.md', data: '**Hello**' },
+ *   { name: 'news/items.csv', data: csv },
+ * ])
+ * new Blob([bytes], { type: 'application/zip' })
+ * ```
+ */
+
+export interface ZipEntry {
+  /** Path inside the archive, `/`-separated */
+  name: string
+  /** Strings are stored as UTF-8 */
+  data: string | Uint8Array
+  modified?: Date
+}
+
+// General purpose flag bit 11: file names are UTF-8
+const UTF8_FLAG = 0x0800
+
+let crcTable: Uint32Array | null = null
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// MS-DOS date and time, local time, two-second resolution
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.min(Math.max(date.getFullYear(), 1980), 2107)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+/**
+ * Pack entries into a ZIP archive.
+ * @throws Error for more than 65535 entries or an archive over 4 GB (no ZIP64)
+ */
+export function createZip(entries: ZipEntry[]): Uint8Array<ArrayBuffer> {
+  if (entries.length > 0xffff) throw new Error('Too many files for a ZIP archive')
+
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name.replace(/^\/+/, ''))
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data
+    const crc = crc32(data)
+    const stamp = dosDateTime(entry.modified ?? new Date())
+
+    const local = new Uint8Array(30 + name.length)
+    const header = new DataView(local.buffer)
+    header.setUint32(0, 0x04034b50, true) // local file header signature
+    header.setUint16(4, 20, true) // version needed to extract
+    header.setUint16(6, UTF8_FLAG, true)
+    header.setUint16(8, 0, true) // method: STORE
+    header.setUint16(10, stamp.time, true)
+    header.setUint16(12, stamp.date, true)
+    header.setUint32(14, crc, true)
+    header.setUint32(18, data.length, true) // compressed size
+    header.setUint32(22, data.length, true) // uncompressed size
+    header.setUint16(26, name.length, true)
+    header.setUint16(28, 0, true) // extra field length
+    local.set(name, 30)
+
+    const central = new Uint8Array(46 + name.length)
+    const record = new DataView(central.buffer)
+    record.setUint32(0, 0x02014b50, true) // central directory signature
+    record.setUint16(4, 20, true) // version made by
+    record.setUint16(6, 20, true) // version needed to extract
+    record.setUint16(8, UTF8_FLAG, true)
+    record.setUint16(10, 0, true)
+    record.setUint16(12, stamp.time, true)
+    record.setUint16(14, stamp.date, true)
+    record.setUint32(16, crc, true)
+    record.setUint32(20, data.length, true)
+    record.setUint32(24, data.length, true)
+    record.setUint16(28, name.length, true)
+    // extra, comment, disk number, internal and external attributes stay 0
+    record.setUint32(42, offset, true) // offset of the local header
+    central.set(name, 46)
+
+    localParts.push(local, data)
+    centralParts.push(central)
+    offset += local.length + data.length
+    if (offset > 0xffffffff) throw new Error('ZIP archive too large')
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0)
+  const end = new Uint8Array(22)
+  const trailer = new DataView(end.buffer)
+  trailer.setUint32(0, 0x06054b50, true) // end of central directory signature
+  trailer.setUint16(8, entries.length, true) // entries on this disk
+  trailer.setUint16(10, entries.length, true) // total entries
+  trailer.setUint32(12, centralSize, true)
+  trailer.setUint32(16, offset, true) // central directory offset
+
+  const parts = [...localParts, ...centralParts, end]
+  const archive = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  for (const part of parts) {
+    archive.set(part, position)
+    position += part.length
+  }
+  return archive
+}